@@ -1,23 +1,30 @@
 // src/App.tsx
 // Qeasy メイン画面 完成版（カテゴリ自動判定＋Amazonリンク版）
 //
-// - Keepa ASIN CSV 読込
+// - Keepa CSV 読込（列の割当を確認して タイトル・価格・JAN 等も取込）
+// - ASIN・Amazon URL・JAN の貼り付け取込（JAN は /amazon/lookup-jan で ASIN に解決）
+// - 取込は確認画面（新規・重複・未取得・出品不可）で確定してから商品一覧に反映
 // - Amazon情報・Qoo10既存チェック・出品API呼び出し
 // - Prime / 出品者1人除外 / NGワード / 価格ルール / カテゴリ自動割当
 // - 出品結果をページ内ULで表示
 // - 設定 & 商品一覧: localStorage + /settings + /items 同期
+// - 出品履歴: localStorage + /listing-runs 同期（履歴ページで検索・CSV出力）
 // - 「最新情報に更新」ボタンで /items/refresh と連携（定期バッチ結果をUIに反映）
+// - 在庫同期: 更新後、Amazon 側で条件を外れた出品済み商品の Qoo10 在庫を 0 に
 
 import React, {
   useState,
   useEffect,
   useMemo,
+  useRef,
   type ChangeEvent,
 } from "react";
 import "./index.css";
 
 import {
   fetchAmazonBulk,
+  lookupAsinsByJan,
+  resolveShortUrls,
   checkQoo10Existing,
   createQoo10Listings,
   fetchSettings,
@@ -25,69 +32,136 @@ import {
   fetchItems,
   saveItems,
   refreshItems,
+  updateQoo10Prices,
+  updateQoo10Stocks,
+  delistQoo10Items,
+  fetchListingRuns,
+  saveListingRun,
+  describeApiError,
   type AmazonItemInfo,
+  type DelistMode,
   type Qoo10ListingPayload,
   type CreateListingResult,
   type QeasyItem,
+  type UpdatePriceResult,
+  type UpdateStockResult,
 } from "./api/qeasy";
+import { DEFAULT_BATCH_OPTIONS, type BatchOptions } from "./api/batch";
 
-import { classifyQoo10Category } from "./qoo10Category";
-
-type Page = "list" | "settings" | "profile";
-
-type PriceRule = {
-  min: number;
-  max?: number;
-  multiply: number;
-  plus: number;
-};
-
-type CategoryMap = Record<string, number>;
-
-type Product = {
-  id: number;
-  asin: string;
-  name: string;
-  jan?: string;
-  qoo10Id?: string;
-  mainImage: string;
-  images?: string[];
-  amazonPrice: number;
-  inStock?: boolean;
-  updatedAt: string;
-};
-
-type SettingsState = {
-  primeOnly: boolean;
-  primeShipDaysMax: number;
-  maxStockPerItem: number;
-
-  shippingCode: string;
-  rules: PriceRule[];
-
-  noListASINs: string[];
-  noListWords: string[];
-  nameEraseWords: string[];
-  keepASINsOnDelete: string[];
-
-  categoryMap: CategoryMap;
-  autoCategoryEnabled: boolean;
-
-  notifyOnSuccess: boolean;
-  notifyOnError: boolean;
-  autoApplyTemplate: boolean;
-};
-
-type ListingStatus = "success" | "exists" | "forbidden" | "error";
-
-type ListingResultItem = {
-  asin: string;
-  name: string;
-  status: ListingStatus;
-  message: string;
-  hitWords?: string[];
-  qoo10ItemCode?: string;
-};
+import { asinFromUrl, type UnresolvedInput } from "./asinExtract";
+import { describeCategoryChoice, explainCategory } from "./categoryChoice";
+import {
+  claimRuleOverridesOf,
+  DEFAULT_CLAIM_RULES,
+  withClaimRuleOverrides,
+  type ClaimRule,
+} from "./claimCheck";
+import {
+  addKeywordToRules,
+  categorySuggestionKey,
+  suggestCategoryKeywords,
+  type CategorySuggestion,
+} from "./categorySuggest";
+import { downloadCsv, parseCsv } from "./csv";
+import { applyDelist, DELIST_MODE_LABEL, delistTargets } from "./delist";
+import {
+  applyImportReview,
+  buildImportReview,
+  type ImportDecision,
+  type ImportReviewItem,
+} from "./importReview";
+import { needsAmazonLookup, type ImportedRow } from "./keepaImport";
+import {
+  createRun,
+  latestResultsByAsin,
+  loadLocalRuns,
+  mergeRuns,
+  retryableAsins,
+  saveLocalRuns,
+  type ListingRun,
+} from "./listingHistory";
+import {
+  listingStockOf,
+  planListing,
+  type ListingOverrides,
+  type ListingPlan,
+} from "./listingPlan";
+import {
+  ASIN_STATUS_LABEL,
+  LISTING_PHASES,
+  advancePhase,
+  createListingProgress,
+  elapsedMs,
+  estimateRemainingMs,
+  formatDuration,
+  setAsinStatus,
+  setPhaseTotal,
+  type AsinProgressStatus,
+  type ListingProgress,
+} from "./listingProgress";
+import {
+  defaultRuleSetOf,
+  formatYen,
+  priceFor,
+  type ScopedPriceRuleSet,
+} from "./pricing";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  exportRowsToCsv,
+  productExportRows,
+  resultExportRows,
+} from "./productExport";
+import { DEFAULT_PROFIT_SETTINGS, estimateProfit } from "./profit";
+import {
+  categoryRuleOverridesOf,
+  DEFAULT_CATEGORY_RULES,
+  withCategoryRuleOverrides,
+  type CategoryRuleOverrides,
+  type CategoryRules,
+} from "./qoo10Category";
+import { findRepriceCandidates, type RepriceCandidate } from "./repricing";
+import type { RuleOverrides } from "./ruleOverrides";
+import {
+  infoMapFromItems,
+  loadStockLog,
+  lowMarginStockChanges,
+  planStockChanges,
+  saveStockLog,
+  toLogEntries,
+  type StockChange,
+  type StockLogEntry,
+} from "./stockSync";
+import { normalizeText } from "./textNormalize";
+import { toWordRules } from "./wordRules";
+import type {
+  ListingResultItem,
+  Product,
+  SettingsState,
+} from "./types";
+
+import AsinPasteBox from "./components/AsinPasteBox";
+import BrandListEditor from "./components/BrandListEditor";
+import CategoryRulesEditor from "./components/CategoryRulesEditor";
+import ClaimRuleEditor from "./components/ClaimRuleEditor";
+import CategorySuggestions from "./components/CategorySuggestions";
+import CsvImportMapper from "./components/CsvImportMapper";
+import DelistResultInline, {
+  type DelistOutcome,
+} from "./components/DelistResultInline";
+import ImportReview from "./components/ImportReview";
+import ListingHistory from "./components/ListingHistory";
+import ListingPreview from "./components/ListingPreview";
+import NumberMapEditor from "./components/NumberMapEditor";
+import PriceRuleSetEditor from "./components/PriceRuleSetEditor";
+import ProductExportControl, {
+  type ExportScope,
+} from "./components/ProductExportControl";
+import RepricePanel from "./components/RepricePanel";
+import RetryFailedControl from "./components/RetryFailedControl";
+import StockSyncLog from "./components/StockSyncLog";
+import WordRuleEditor from "./components/WordRuleEditor";
+
+type Page = "list" | "history" | "settings" | "profile";
 
 /* ========== 定数 ========== */
 
@@ -104,9 +178,19 @@ const DEFAULT_SETTINGS: SettingsState = {
     { min: 3001, max: 6000, multiply: 1.2, plus: 500 },
     { min: 6001, multiply: 1.2, plus: 600 },
   ],
+  priceRounding: "none",
+  priceFloor: 0,
+  priceCeiling: 0,
+  scopedPriceRules: [],
+  repriceMinDiffYen: 50,
+  repriceMinDiffRate: 3,
+  stockSyncEnabled: true,
+  exportColumns: DEFAULT_EXPORT_COLUMNS,
   noListASINs: [],
   noListWords: [],
-  nameEraseWords: ["Amazon.co.jp 限定", "発送"],
+  nameEraseWords: toWordRules(["Amazon.co.jp 限定", "発送"]),
+  brandRules: [],
+  claimRules: DEFAULT_CLAIM_RULES,
   keepASINsOnDelete: [],
   categoryMap: {
     ヘナ: 120000,
@@ -114,120 +198,70 @@ const DEFAULT_SETTINGS: SettingsState = {
     サプリ: 130000,
   },
   autoCategoryEnabled: true,
+  categoryRules: DEFAULT_CATEGORY_RULES,
+  rejectedCategorySuggestions: [],
+  profit: DEFAULT_PROFIT_SETTINGS,
   notifyOnSuccess: true,
   notifyOnError: true,
   autoApplyTemplate: true,
+  batchChunkSize: DEFAULT_BATCH_OPTIONS.chunkSize,
+  batchConcurrency: DEFAULT_BATCH_OPTIONS.concurrency,
+  batchDelayMs: DEFAULT_BATCH_OPTIONS.delayMs,
+  batchMaxRetries: DEFAULT_BATCH_OPTIONS.maxRetries,
 };
 
 const SEED_PRODUCTS: Product[] = [];
 
-/* ========== Util ========== */
-
-const formatYen = (v: number): string =>
-  "¥" + Math.round(v).toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
-
-const applyRule = (price: number, rules: PriceRule[]): number => {
-  if (!price || price <= 0) return 0;
-  const r = rules.find((rr) =>
-    rr.max != null ? price >= rr.min && price <= rr.max : price >= rr.min
-  );
-  const result = r ? price * r.multiply + r.plus : price;
-  return Math.max(1, Math.round(result));
-};
-
-const stripWords = (title: string, words: string[]): string => {
-  let t = title || "";
-  for (const w of words) {
-    if (!w) continue;
-    t = t.split(w).join("");
-  }
-  return t.replace(/\s+/g, " ").trim();
-};
-
-// Keepa ASIN CSV 解析（ヘッダASIN / ""付き / 1列対応）
-const parseAsinCsv = (text: string): string[] => {
-  const rawLines = text.split(/\r?\n/);
-  let lines = rawLines.map((l) => l.trim()).filter(Boolean);
-  if (!lines.length) return [];
-
-  if (lines[0].charCodeAt(0) === 0xfeff) {
-    lines[0] = lines[0].slice(1);
-  }
-
-  const headerCells = lines[0]
-    .split(/[,;\t]/)
-    .map((c) =>
-      c
-        .replace(/^["']+|["']+$/g, "")
-        .trim()
-        .toLowerCase()
-    );
-  const asinIndex = headerCells.indexOf("asin");
-  const startRow = asinIndex !== -1 ? 1 : 0;
-
-  const asins: string[] = [];
-
-  for (let i = startRow; i < lines.length; i++) {
-    const row = lines[i];
-    if (!row) continue;
-
-    const cells = row.split(/[,;\t]/);
-    const idx = asinIndex !== -1 ? asinIndex : 0;
-    if (idx >= cells.length) continue;
-
-    const raw = cells[idx].trim();
-    const cleaned = raw.replace(/^["']+|["']+$/g, "").trim();
-    if (!cleaned) continue;
-
-    if (/^[A-Z0-9]{10}$/i.test(cleaned)) {
-      asins.push(cleaned.toUpperCase());
-    }
-  }
-
-  return Array.from(new Set(asins));
-};
-
-/* ========== カテゴリ自動割当 ========== */
 /**
- * 手動マップ → 自動推定（classifyQoo10Category）の順でカテゴリを決定。
- * 戻り値は Qoo10 に渡す SecondSubCat の数値。
+ * 保存する形。既定の表（キーワード表・薬機法チェックの辞書）は変更分だけ持ち、
+ * 読み込み時に最新の既定の表へ重ねる
  */
-const chooseCategory = (
-  info: AmazonItemInfo | undefined,
-  p: Product,
-  settings: SettingsState
-): number | undefined => {
-  const rawTitle = info?.title || p.name || "";
-  const titleLower = rawTitle.toLowerCase();
-
-  // 1. 手動カテゴリマップ（キーワード → カテゴリNo）
-  for (const [key, cat] of Object.entries(settings.categoryMap)) {
-    if (!key) continue;
-    if (titleLower.includes(key.toLowerCase())) {
-      return cat;
-    }
-  }
-
-  // 2. 自動判定を使わない設定ならここまで
-  if (!settings.autoCategoryEnabled) {
-    return undefined;
-  }
-
-  // 3. ビューティ系細分けを含む自動推定
-  const decision = classifyQoo10Category(rawTitle);
+type StoredSettings = Omit<SettingsState, "categoryRules" | "claimRules"> & {
+  categoryRules: CategoryRuleOverrides | CategoryRules;
+  claimRules: RuleOverrides<ClaimRule> | ClaimRule[];
+};
 
-  if (!decision) return undefined;
+const toStoredSettings = (settings: SettingsState): StoredSettings => ({
+  ...settings,
+  categoryRules: categoryRuleOverridesOf(settings.categoryRules),
+  claimRules: claimRuleOverridesOf(settings.claimRules),
+});
+
+/** 保存済み設定を既定値にマージ（項目追加に備える。入れ子の設定も個別に） */
+const withSettingsDefaults = (
+  saved: Partial<StoredSettings>
+): SettingsState => ({
+  ...DEFAULT_SETTINGS,
+  ...saved,
+  profit: { ...DEFAULT_PROFIT_SETTINGS, ...saved.profit },
+  categoryRules: withCategoryRuleOverrides(saved.categoryRules),
+  claimRules: withClaimRuleOverrides(saved.claimRules),
+  // 以前は文字列の配列で保存していた
+  noListASINs: toWordRules(saved.noListASINs ?? DEFAULT_SETTINGS.noListASINs),
+  noListWords: toWordRules(saved.noListWords ?? DEFAULT_SETTINGS.noListWords),
+  nameEraseWords: toWordRules(
+    saved.nameEraseWords ?? DEFAULT_SETTINGS.nameEraseWords
+  ),
+});
 
-  if (decision.main === "120000") {
-    // ビューティは beautySecondSubCat を SecondSubCat として使う
-    const sub = decision.beautySecondSubCat ?? "120000012";
-    return Number(sub);
-  }
+/* ========== Util ========== */
 
-  // サプリ／美容家電／日用品などは main をそのまま SecondSubCat として扱う
-  return Number(decision.main);
+/** ファイル名用の日時（例: 20250101-0930） */
+const fileStamp = (): string => {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(
+    d.getDate()
+  )}-${pad(d.getHours())}${pad(d.getMinutes())}`;
 };
 
+const batchOptionsOf = (settings: SettingsState): Partial<BatchOptions> => ({
+  chunkSize: settings.batchChunkSize,
+  concurrency: settings.batchConcurrency,
+  delayMs: settings.batchDelayMs,
+  maxRetries: settings.batchMaxRetries,
+});
+
 /* ========== QeasyItem → Product マッピング ========== */
 
 const mapItemsToProducts = (items: QeasyItem[]): Product[] =>
@@ -239,12 +273,20 @@ const mapItemsToProducts = (items: QeasyItem[]): Product[] =>
       name: r.name || r.asin,
       jan: r.jan,
       qoo10Id: r.qoo10Id,
+      qoo10Price: r.qoo10Price,
+      qoo10Stock: r.qoo10Stock,
+      qoo10Suspended: r.qoo10Suspended,
+      endedQoo10Ids: r.endedQoo10Ids,
       mainImage:
         r.mainImage ||
         "https://via.placeholder.com/120x120.png?text=No+Image",
       images: r.mainImage ? [r.mainImage] : [],
       amazonPrice: r.amazonPrice || 0,
       inStock: r.inStock,
+      sellerCount: r.sellerCount,
+      salesRank: r.salesRank,
+      categoryOverride: r.categoryOverride,
+      brand: r.brand,
       updatedAt: r.updatedAt || "",
     }));
 
@@ -349,10 +391,19 @@ const TagEditor: React.FC<TagEditorProps> = ({
 
 type ListingResultInlineProps = {
   results: ListingResultItem[] | null;
+  /** 再実行できるエラー件数（成功済み ASIN は除く） */
+  retryCount: number;
+  busy: boolean;
+  onRetryFailed: (overrides: ListingOverrides) => void;
+  onExport: () => void;
 };
 
 const ListingResultInline: React.FC<ListingResultInlineProps> = ({
   results,
+  retryCount,
+  busy,
+  onRetryFailed,
+  onExport,
 }) => {
   if (!results || results.length === 0) return null;
 
@@ -360,10 +411,16 @@ const ListingResultInline: React.FC<ListingResultInlineProps> = ({
   const forbidden = results.filter((r) => r.status === "forbidden");
   const error = results.filter((r) => r.status === "error");
   const success = results.filter((r) => r.status === "success");
+  const cancelled = results.filter((r) => r.status === "cancelled");
 
   return (
     <div className="result-box">
-      <div className="result-title">直近の出品結果</div>
+      <div className="progress-header">
+        <div className="result-title">直近の出品結果</div>
+        <button className="btn btn-blue" onClick={onExport}>
+          結果をCSV出力
+        </button>
+      </div>
 
       {exists.length > 0 && (
         <>
@@ -396,6 +453,10 @@ const ListingResultInline: React.FC<ListingResultInlineProps> = ({
                 {r.hitWords && r.hitWords.length > 0 && (
                   <>（禁止ワード: {r.hitWords.join(", ")}）</>
                 )}
+                {r.brand && <>（ブランド: {r.brand}）</>}
+                {r.claims && r.claims.length > 0 && (
+                  <>（薬機法チェック: {r.claims.join(", ")}）</>
+                )}
               </li>
             ))}
           </ul>
@@ -416,6 +477,26 @@ const ListingResultInline: React.FC<ListingResultInlineProps> = ({
               </li>
             ))}
           </ul>
+          <RetryFailedControl
+            count={retryCount}
+            busy={busy}
+            onRetry={onRetryFailed}
+          />
+        </>
+      )}
+
+      {cancelled.length > 0 && (
+        <>
+          <div className="result-heading result-heading-blue">
+            キャンセル（未送信）: {cancelled.length}件
+          </div>
+          <ul className="result-list">
+            {cancelled.map((r) => (
+              <li key={r.asin}>
+                {r.asin} - {r.message || "キャンセルしたため未送信です。"}
+              </li>
+            ))}
+          </ul>
         </>
       )}
 
@@ -432,6 +513,9 @@ const ListingResultInline: React.FC<ListingResultInlineProps> = ({
                   ? `Qoo10商品コード: ${r.qoo10ItemCode}`
                   : r.message ||
                     "出品登録が完了しました。"}
+                {r.claims && r.claims.length > 0 && (
+                  <>（タイトルから削除: {r.claims.join(", ")}）</>
+                )}
               </li>
             ))}
           </ul>
@@ -441,6 +525,118 @@ const ListingResultInline: React.FC<ListingResultInlineProps> = ({
   );
 };
 
+/* ========== 出品進捗パネル ========== */
+
+type ListingProgressPanelProps = {
+  progress: ListingProgress | null;
+  onCancel: () => void;
+  onClose: () => void;
+};
+
+const ListingProgressPanel: React.FC<ListingProgressPanelProps> = ({
+  progress,
+  onCancel,
+  onClose,
+}) => {
+  // 経過時間・残り時間は進捗イベントが無い間（再試行待ちなど）も進める
+  const [now, setNow] = useState(() => Date.now());
+  const running = !!progress && !progress.finished;
+  useEffect(() => {
+    if (!running) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [running]);
+
+  if (!progress) return null;
+
+  const eta = estimateRemainingMs(progress, now);
+  const entries = Object.entries(progress.asinStatus);
+  const countOf = (...st: AsinProgressStatus[]) =>
+    entries.filter(([, s]) => st.includes(s)).length;
+  const submitted = entries
+    .filter(([, s]) => ["submitting", "success", "unknown"].includes(s))
+    .map(([a]) => a);
+  const notSubmitted = entries
+    .filter(([, s]) => s === "cancelled")
+    .map(([a]) => a);
+
+  return (
+    <div className="progress-box">
+      <div className="progress-header">
+        <div className="result-title">
+          {progress.finished
+            ? progress.cancelRequested
+              ? "出品処理をキャンセルしました"
+              : "出品処理が完了しました"
+            : progress.cancelRequested
+            ? "キャンセル中..."
+            : "出品処理中..."}
+        </div>
+        <div className="progress-meta">
+          経過 {formatDuration(elapsedMs(progress, now))}
+          {eta != null && ` ／ 残り約 ${formatDuration(eta)}`}
+        </div>
+        {progress.finished ? (
+          <button className="btn btn-pink" onClick={onClose}>
+            閉じる
+          </button>
+        ) : (
+          <button
+            className="btn btn-red"
+            onClick={onCancel}
+            disabled={progress.cancelRequested}
+          >
+            キャンセル
+          </button>
+        )}
+      </div>
+
+      {LISTING_PHASES.map(({ key, label }) => {
+        const ph = progress.phases[key];
+        const pct = ph.total ? Math.round((ph.done / ph.total) * 100) : 100;
+        return (
+          <div key={key} className="progress-row">
+            <div className="progress-label">{label}</div>
+            <div className="progress-bar">
+              <div className="progress-bar-fill" style={{ width: `${pct}%` }} />
+            </div>
+            <div className="progress-count">
+              {ph.done} / {ph.total}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="note">
+        成功 {countOf("success")}件 ／ エラー {countOf("error")}件 ／ 除外{" "}
+        {countOf("excluded")}件 ／ 送信中 {countOf("submitting")}件 ／ 未処理{" "}
+        {countOf("waiting", "lookup", "ready")}件
+      </div>
+
+      {progress.finished && progress.cancelRequested && (
+        <div className="note">
+          送信済み: {submitted.length}件
+          {submitted.length > 0 && `（${submitted.join(", ")}）`}
+          <br />
+          未送信: {notSubmitted.length}件
+          {notSubmitted.length > 0 && `（${notSubmitted.join(", ")}）`}
+        </div>
+      )}
+
+      <details className="progress-details">
+        <summary>ASIN別ステータス</summary>
+        <ul className="result-list">
+          {entries.map(([asin, st]) => (
+            <li key={asin}>
+              {asin} - {ASIN_STATUS_LABEL[st]}
+            </li>
+          ))}
+        </ul>
+      </details>
+    </div>
+  );
+};
+
 /* ========== メインコンポーネント ========== */
 
 const App: React.FC = () => {
@@ -450,7 +646,7 @@ const App: React.FC = () => {
     try {
       const saved = localStorage.getItem(SETTINGS_KEY);
       return saved
-        ? (JSON.parse(saved) as SettingsState)
+        ? withSettingsDefaults(JSON.parse(saved) as Partial<StoredSettings>)
         : DEFAULT_SETTINGS;
     } catch {
       return DEFAULT_SETTINGS;
@@ -472,8 +668,44 @@ const App: React.FC = () => {
   const [selected, setSelected] = useState<Set<number>>(new Set());
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const [repricing, setRepricing] = useState<{
+    open: boolean;
+    busy: boolean;
+    results: UpdatePriceResult[] | null;
+  }>({ open: false, busy: false, results: null });
   const [listingResults, setListingResults] =
     useState<ListingResultItem[] | null>(null);
+  const [runs, setRuns] = useState<ListingRun[]>(loadLocalRuns);
+  const [stockLog, setStockLog] = useState<StockLogEntry[]>(loadStockLog);
+  const [stockSyncing, setStockSyncing] = useState(false);
+  const [delistMode, setDelistMode] = useState<DelistMode>("end");
+  const [delisting, setDelisting] = useState(false);
+  const [csvImport, setCsvImport] = useState<{
+    fileName: string;
+    rows: string[][];
+  } | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importReview, setImportReview] = useState<ImportReviewItem[] | null>(
+    null
+  );
+  const [pasteOpen, setPasteOpen] = useState(false);
+  const [resolvingInputs, setResolvingInputs] = useState(false);
+  const [lookupFailures, setLookupFailures] = useState<UnresolvedInput[]>(
+    []
+  );
+  const [delistOutcome, setDelistOutcome] = useState<DelistOutcome | null>(
+    null
+  );
+  const runStartedAtRef = useRef<Date>(new Date());
+  const [progress, setProgress] = useState<ListingProgress | null>(null);
+  const [preview, setPreview] = useState<{
+    id: number;
+    targets: Product[];
+    plan: ListingPlan;
+  } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // /settings・/items の同期失敗など、処理は継続するが知らせたい警告
+  const [syncWarning, setSyncWarning] = useState<string | null>(null);
 
   const [newCatKey, setNewCatKey] = useState("");
   const [newCatVal, setNewCatVal] = useState("");
@@ -482,21 +714,45 @@ const App: React.FC = () => {
 
   useEffect(() => {
     (async () => {
-      const remote = await fetchSettings();
-      if (remote) {
-        setSettings((cur) => ({
-          ...cur,
-          ...remote,
-        }));
+      const remote = await fetchSettings<Partial<StoredSettings>>();
+      if (!remote.ok) {
+        console.warn(remote.error);
+        setSyncWarning(
+          `設定をサーバから取得できませんでした。ローカル保存分を使用します。\n${describeApiError(
+            remote.error
+          )}`
+        );
+        return;
+      }
+      if (remote.data) {
+        const data = remote.data;
+        setSettings((cur) =>
+          withSettingsDefaults({
+            ...toStoredSettings(cur),
+            ...data,
+          })
+        );
       }
     })();
   }, []);
 
   useEffect(() => {
+    const stored = toStoredSettings(settings);
     try {
-      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
-    } catch {}
-    saveSettings(settings).catch(() => {});
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(stored));
+    } catch {
+      // 容量超過などは無視（サーバ同期が本体）
+    }
+    saveSettings(stored).then((res) => {
+      if (!res.ok) {
+        console.warn(res.error);
+        setSyncWarning(
+          `設定をサーバに保存できませんでした。\n${describeApiError(
+            res.error
+          )}`
+        );
+      }
+    });
   }, [settings]);
 
   /* ----- 商品一覧: /items があれば同期 ----- */
@@ -504,8 +760,17 @@ const App: React.FC = () => {
   useEffect(() => {
     (async () => {
       const remote = await fetchItems();
-      if (remote && remote.length) {
-        setProducts(mapItemsToProducts(remote));
+      if (!remote.ok) {
+        console.warn(remote.error);
+        setSyncWarning(
+          `商品一覧をサーバから取得できませんでした。ローカル保存分を表示しています。\n${describeApiError(
+            remote.error
+          )}`
+        );
+        return;
+      }
+      if (remote.data.length) {
+        setProducts(mapItemsToProducts(remote.data));
       }
     })();
   }, []);
@@ -513,59 +778,238 @@ const App: React.FC = () => {
   useEffect(() => {
     try {
       localStorage.setItem(PRODUCTS_KEY, JSON.stringify(products));
-    } catch {}
+    } catch {
+      // 容量超過などは無視（サーバ同期が本体）
+    }
     const payload = products.map((p) => ({
       asin: p.asin,
       name: p.name,
       jan: p.jan,
       qoo10Id: p.qoo10Id,
+      qoo10Price: p.qoo10Price,
+      qoo10Stock: p.qoo10Stock,
+      qoo10Suspended: p.qoo10Suspended,
+      endedQoo10Ids: p.endedQoo10Ids,
       mainImage: p.mainImage,
       amazonPrice: p.amazonPrice,
       inStock: p.inStock,
+      sellerCount: p.sellerCount,
+      salesRank: p.salesRank,
+      categoryOverride: p.categoryOverride,
+      brand: p.brand,
       updatedAt: p.updatedAt,
     }));
-    saveItems(payload).catch(() => {});
+    saveItems(payload).then((res) => {
+      if (!res.ok) {
+        console.warn(res.error);
+        setSyncWarning(
+          `商品一覧をサーバに保存できませんでした。\n${describeApiError(
+            res.error
+          )}`
+        );
+      }
+    });
   }, [products]);
 
+  /* ----- 出品履歴: /listing-runs があれば同期 ----- */
+
+  useEffect(() => {
+    (async () => {
+      const remote = await fetchListingRuns<ListingRun>();
+      if (!remote.ok) {
+        console.warn(remote.error);
+        return;
+      }
+      setRuns((cur) => mergeRuns(cur, remote.data));
+    })();
+  }, []);
+
+  useEffect(() => {
+    saveLocalRuns(runs);
+  }, [runs]);
+
+  useEffect(() => {
+    saveStockLog(stockLog);
+  }, [stockLog]);
+
+  const recordRun = (items: ListingResultItem[], cancelled: boolean) => {
+    const run = createRun(runStartedAtRef.current, settings, items, cancelled);
+    setRuns((cur) => mergeRuns([run], cur));
+    saveListingRun(run).then((res) => {
+      if (!res.ok) {
+        console.warn(res.error);
+        setSyncWarning(
+          `出品履歴をサーバに保存できませんでした（この端末には保存済み）。\n${describeApiError(
+            res.error
+          )}`
+        );
+      }
+    });
+  };
+
   /* ----- 最新情報リフレッシュ（Step4用） ----- */
 
   const handleRefreshItems = async () => {
     if (refreshing) return;
     setRefreshing(true);
     try {
-      await refreshItems().catch(() => {});
+      const refreshed = await refreshItems();
       const remote = await fetchItems();
-      if (remote && remote.length) {
-        setProducts(mapItemsToProducts(remote));
+      if (!remote.ok) {
+        console.error(remote.error);
+        alert(
+          `最新情報の取得に失敗しました。\n${describeApiError(remote.error)}`
+        );
+        return;
+      }
+      const fresh = remote.data.length
+        ? mapItemsToProducts(remote.data)
+        : products;
+      if (remote.data.length) {
+        setProducts(fresh);
         setListingResults(null);
       }
-    } catch (e) {
-      console.error(e);
+      if (!refreshed.ok) {
+        // 一覧は取れたが最新化トリガーは失敗 → 古いデータの可能性を明示
+        console.warn(refreshed.error);
+        alert(
+          `最新化処理（/items/refresh）に失敗したため、前回バッチ時点の情報を表示しています。\n${describeApiError(
+            refreshed.error
+          )}`
+        );
+      }
+      // 最新化に成功していれば、その結果で在庫同期する（Amazon への再取得はしない）
+      if (settings.stockSyncEnabled) {
+        await syncStock(
+          fresh,
+          refreshed.ok && remote.data.length
+            ? infoMapFromItems(remote.data)
+            : undefined
+        );
+      }
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  /* ----- 在庫同期 ----- */
+
+  /** Qoo10 の在庫を変更し、在庫同期ログと商品の在庫数に反映する */
+  const applyStockChanges = async (
+    changes: StockChange[]
+  ): Promise<StockLogEntry[]> => {
+    const batch = batchOptionsOf(settings);
+    const updated = await updateQoo10Stocks(
+      changes.map((c) => ({
+        asin: c.product.asin,
+        qoo10ItemCode: c.qoo10ItemCode,
+        stock: c.to,
+      })),
+      batch
+    );
+    const results: UpdateStockResult[] = [
+      ...updated.data,
+      ...updated.failed.flatMap((f) =>
+        f.inputs.map((it) => ({
+          asin: it.asin,
+          ok: false,
+          message: describeApiError(f.error),
+        }))
+      ),
+    ];
+    const entries = toLogEntries(changes, results, new Date());
+    setStockLog((cur) => [...entries, ...cur]);
+
+    const stockOf = new Map(
+      entries.filter((e) => e.ok).map((e) => [e.asin, e.to])
+    );
+    if (stockOf.size) {
+      setProducts((prev) =>
+        prev.map((p) =>
+          stockOf.has(p.asin) ? { ...p, qoo10Stock: stockOf.get(p.asin) } : p
+        )
+      );
+    }
+    return entries;
+  };
+
+  /** known: 取得済みの Amazon 情報（最新化の直後）。無ければここで取得する */
+  const syncStock = async (
+    list: Product[],
+    known?: ReadonlyMap<string, AmazonItemInfo>
+  ) => {
+    const listed = list.filter((p) => p.qoo10Id);
+    if (stockSyncing || !listed.length) return;
+    setStockSyncing(true);
+    try {
+      const batch = batchOptionsOf(settings);
+      let infoMap = known;
+      if (!infoMap) {
+        const fetched = await fetchAmazonBulk(
+          listed.map((p) => p.asin),
+          batch
+        );
+        fetched.failed.forEach((f) => console.warn(f.error));
+        const map = new Map<string, AmazonItemInfo>();
+        fetched.data.forEach((i) => i.asin && map.set(i.asin, i));
+        infoMap = map;
+      }
+
+      // Amazon 情報が取れなかった ASIN は planStockChanges 側で変更対象外になる
+      const changes = planStockChanges(listed, infoMap, settings);
+      if (!changes.length) return;
+
+      const entries = await applyStockChanges(changes);
+      const failed = entries.filter((e) => !e.ok).length;
+      const stopped = entries.filter((e) => e.ok && e.to === 0).length;
+      const restored = entries.filter((e) => e.ok && e.to > 0).length;
       alert(
-        "最新情報の取得に失敗しました。server.mjs / qeasy-api を確認してください。"
+        `在庫同期: 販売停止 ${stopped}件 ／ 在庫復帰 ${restored}件${
+          failed
+            ? ` ／ 失敗 ${failed}件（出品履歴ページの在庫同期ログを確認してください）`
+            : ""
+        }`
       );
     } finally {
-      setRefreshing(false);
+      setStockSyncing(false);
     }
   };
 
+
+  /* ----- CSV出力 ----- */
+
+  const exportProducts = (scope: ExportScope) => {
+    const targets =
+      scope === "all"
+        ? products
+        : scope === "filtered"
+        ? filteredProducts
+        : products.filter((p) => selected.has(p.id));
+    downloadCsv(
+      `qeasy-products-${fileStamp()}.csv`,
+      exportRowsToCsv(
+        productExportRows(targets, latestResultsByAsin(runs)),
+        settings.exportColumns,
+        settings
+      )
+    );
+  };
+
   /* ----- 絞り込み ----- */
 
   const filteredProducts = useMemo(() => {
-    const q = search.trim().toLowerCase();
+    const q = normalizeText(search);
     if (!q) return products;
     return products.filter((p) =>
-      (
+      normalizeText(
         p.name +
-        " " +
-        p.asin +
-        " " +
-        (p.jan || "") +
-        " " +
-        (p.qoo10Id || "")
-      )
-        .toLowerCase()
-        .includes(q)
+          " " +
+          p.asin +
+          " " +
+          (p.jan || "") +
+          " " +
+          (p.qoo10Id || "")
+      ).includes(q)
     );
   }, [products, search]);
 
@@ -610,6 +1054,73 @@ const App: React.FC = () => {
     clearSelection();
   };
 
+  /* ----- Qoo10から出品停止 ----- */
+
+  const delistSelected = async () => {
+    if (delisting) return;
+    const targets = delistTargets(products, selected, delistMode);
+    if (!targets.length) {
+      alert(
+        delistMode === "resume"
+          ? "一時停止中の商品が選択されていません。"
+          : "Qoo10商品コードのある商品が選択されていません。"
+      );
+      return;
+    }
+    const label = DELIST_MODE_LABEL[delistMode];
+    if (
+      !window.confirm(
+        `選択した${targets.length}件をQoo10で${label}しますか？（一覧からは削除しません）`
+      )
+    ) {
+      return;
+    }
+
+    setDelisting(true);
+    try {
+      const res = await delistQoo10Items(
+        targets.map(({ product, qoo10ItemCode }) => ({
+          asin: product.asin,
+          qoo10ItemCode,
+          mode: delistMode,
+        })),
+        batchOptionsOf(settings)
+      );
+      const resultOf = new Map(res.data.map((r) => [r.asin, r]));
+      res.failed.forEach((f) => {
+        console.error(f.error);
+        f.inputs.forEach((it) =>
+          resultOf.set(it.asin, {
+            asin: it.asin,
+            ok: false,
+            message: describeApiError(f.error),
+          })
+        );
+      });
+
+      const results = targets.map(({ product, qoo10ItemCode }) => ({
+        ...(resultOf.get(product.asin) ?? {
+          asin: product.asin,
+          ok: false,
+          message: `${label}の結果が返りませんでした。`,
+        }),
+        name: product.name,
+        qoo10ItemCode,
+      }));
+      setDelistOutcome({ mode: delistMode, results });
+
+      const done = new Set(results.filter((r) => r.ok).map((r) => r.asin));
+      if (done.size) {
+        setProducts((prev) =>
+          prev.map((p) => (done.has(p.asin) ? applyDelist(p, delistMode) : p))
+        );
+      }
+      clearSelection();
+    } finally {
+      setDelisting(false);
+    }
+  };
+
   /* ----- CSV取込 ----- */
 
   const handleCsvUpload = async (e: ChangeEvent<HTMLInputElement>) => {
@@ -617,252 +1128,713 @@ const App: React.FC = () => {
     e.target.value = "";
     if (!file) return;
 
-    const text = await file.text();
-    const asins = parseAsinCsv(text);
-    if (!asins.length) {
-      alert(
-        'ASINが読み取れませんでした。\n1列目が "ASIN" または ASINのみのCSVか確認してください。'
-      );
+    const rows = parseCsv(await file.text());
+    if (!rows.length) {
+      alert("CSVが空か、読み取れませんでした。");
       return;
     }
+    setCsvImport({ fileName: file.name, rows });
+  };
 
+  const importRows = async (imports: ImportedRow[], lookupAll: boolean) => {
+    if (importing) return;
+    setImporting(true);
     try {
-      const infos = await fetchAmazonBulk(asins);
-      const now = new Date().toISOString().replace("T", " ").slice(0, 19);
-
-      setProducts((prev) => {
-        const used = new Set(prev.map((p) => p.asin));
-        const next = [...prev];
-        let idBase =
-          next.length > 0 ? Math.max(...next.map((p) => p.id)) + 1 : 1;
-
-        for (const info of infos) {
-          const asin = info.asin?.toUpperCase();
-          if (!asin || used.has(asin)) continue;
+      const lookup = lookupAll ? imports : imports.filter(needsAmazonLookup);
+      const infoMap = new Map<string, AmazonItemInfo>();
+      const lookupErrors = new Map<string, string>();
 
-          next.push({
-            id: idBase++,
-            asin,
-            name: info.title || asin,
-            mainImage:
-              info.image ||
-              "https://via.placeholder.com/120x120.png?text=No+Image",
-            images: info.image ? [info.image] : [],
-            amazonPrice: info.price || 0,
-            inStock: !!info.price,
-            updatedAt: now,
-          });
-          used.add(asin);
+      if (lookup.length) {
+        const fetched = await fetchAmazonBulk(
+          lookup.map((r) => r.asin),
+          batchOptionsOf(settings)
+        );
+        fetched.data.forEach((i) => i.asin && infoMap.set(i.asin, i));
+        for (const f of fetched.failed) {
+          console.error(f.error);
+          f.inputs.forEach((asin) =>
+            lookupErrors.set(
+              asin,
+              `Amazon情報の取得に失敗しました。${describeApiError(f.error)}`
+            )
+          );
         }
+      }
 
-        return next;
-      });
-    } catch (err) {
-      console.error(err);
-      alert(
-        "CSV取込中にエラーが発生しました。server.mjs / qeasy-api が起動しているか確認してください。"
+      setImportReview(
+        buildImportReview({
+          imports,
+          infoMap,
+          lookupErrors,
+          products,
+          settings,
+          now: new Date().toISOString().replace("T", " ").slice(0, 19),
+        })
       );
+      setCsvImport(null);
+    } finally {
+      setImporting(false);
     }
   };
 
-  /* ----- 出品処理 ----- */
-
-  const runListing = async () => {
-    if (loading) return;
-    setLoading(true);
-    setListingResults(null);
+  const confirmImport = (decision: ImportDecision) => {
+    if (!importReview) return;
+    setProducts((prev) => applyImportReview(prev, importReview, decision));
+    setImportReview(null);
+  };
 
+  /* ----- 貼り付け取込 ----- */
+
+  const importPasted = async (
+    asins: string[],
+    jans: string[],
+    shortUrls: string[]
+  ) => {
+    if (importing || resolvingInputs) return;
+    const rows: ImportedRow[] = asins.map((asin) => ({ asin }));
+    const failures: UnresolvedInput[] = [];
+    const addAsin = (asin: string, jan?: string) => {
+      const row = rows.find((x) => x.asin === asin);
+      if (!row) rows.push({ asin, jan });
+      else if (jan) row.jan = row.jan ?? jan;
+    };
+
+    setResolvingInputs(true);
     try {
-      const targets =
-        selected.size > 0
-          ? products.filter((p) => selected.has(p.id))
-          : filteredProducts;
+      if (shortUrls.length) {
+        const res = await resolveShortUrls(
+          shortUrls,
+          batchOptionsOf(settings)
+        );
+        const resultOf = new Map(res.data.map((r) => [r.url, r]));
+        for (const f of res.failed) {
+          console.error(f.error);
+          f.inputs.forEach((url) =>
+            failures.push({ input: url, reason: describeApiError(f.error) })
+          );
+        }
+        const failedUrls = new Set(failures.map((u) => u.input));
+
+        for (const url of shortUrls) {
+          if (failedUrls.has(url)) continue;
+          const r = resultOf.get(url);
+          const asin = r?.resolvedUrl && asinFromUrl(r.resolvedUrl);
+          if (!asin) {
+            failures.push({
+              input: url,
+              reason: r?.resolvedUrl
+                ? `展開先のURLからASINが見つかりません。（${r.resolvedUrl}）`
+                : r?.message || "短縮URLを展開できませんでした。",
+            });
+            continue;
+          }
+          addAsin(asin);
+        }
+      }
 
-      if (!targets.length) {
-        setListingResults([]);
-        return;
+      if (jans.length) {
+        const res = await lookupAsinsByJan(jans, batchOptionsOf(settings));
+        const resultOf = new Map(res.data.map((r) => [r.jan, r]));
+        for (const f of res.failed) {
+          console.error(f.error);
+          f.inputs.forEach((jan) =>
+            failures.push({ input: jan, reason: describeApiError(f.error) })
+          );
+        }
+        const failedJans = new Set(failures.map((u) => u.input));
+
+        for (const jan of jans) {
+          if (failedJans.has(jan)) continue;
+          const r = resultOf.get(jan);
+          const asin = r?.asin?.toUpperCase();
+          if (!asin) {
+            failures.push({
+              input: jan,
+              reason: r?.message || "このJANに該当するASINが見つかりません。",
+            });
+            continue;
+          }
+          addAsin(asin, jan);
+        }
       }
+    } finally {
+      setResolvingInputs(false);
+    }
+
+    setLookupFailures(failures);
+    if (rows.length) await importRows(rows, false);
+    // 解決できなかった JAN・短縮URLがあれば一覧を見せるため開いたままにする
+    if (!failures.length) setPasteOpen(false);
+  };
 
-      const asins = targets.map((p) => p.asin);
+  /* ----- 出品処理 ----- */
 
-      const [amazonInfos, existingAsins] = await Promise.all([
-        fetchAmazonBulk(asins),
-        checkQoo10Existing(asins),
-      ]);
+  const updateProgress = (fn: (p: ListingProgress) => ListingProgress) =>
+    setProgress((p) => (p ? fn(p) : p));
 
-      const infoMap = new Map<string, AmazonItemInfo>();
-      amazonInfos.forEach((i) => i.asin && infoMap.set(i.asin, i));
-      const existsSet = new Set(existingAsins);
+  const cancelListing = () => {
+    if (!abortRef.current || abortRef.current.signal.aborted) return;
+    abortRef.current.abort();
+    updateProgress((p) => ({ ...p, cancelRequested: true }));
+  };
 
-      const results: ListingResultItem[] = [];
-      const payloads: Qoo10ListingPayload[] = [];
+  const listingTargets = () =>
+    selected.size > 0
+      ? products.filter((p) => selected.has(p.id))
+      : filteredProducts;
+
+  /** 条件チェック完了時点の進捗に反映（除外・エラー・送信待ち） */
+  const applyPlanToProgress = (
+    p: ListingProgress,
+    targetCount: number,
+    plan: ListingPlan
+  ): ListingProgress => {
+    let next = advancePhase(p, "filter", targetCount);
+    next = setAsinStatus(
+      next,
+      plan.results.filter((r) => r.status === "error").map((r) => r.asin),
+      "error"
+    );
+    next = setAsinStatus(
+      next,
+      plan.results.filter((r) => r.status !== "error").map((r) => r.asin),
+      "excluded"
+    );
+    next = setAsinStatus(
+      next,
+      plan.payloads.map((it) => it.asin),
+      "ready"
+    );
+    return setPhaseTotal(next, "create", plan.payloads.length);
+  };
 
-      for (const p of targets) {
-        const info = infoMap.get(p.asin);
+  const finishCancelled = (targets: Product[]) => {
+    updateProgress((p) => ({
+      ...setAsinStatus(
+        p,
+        targets.map((t) => t.asin),
+        "cancelled"
+      ),
+      finished: true,
+    }));
+    const results: ListingResultItem[] = targets.map((p) => ({
+      asin: p.asin,
+      name: p.name,
+      status: "cancelled",
+      message: "キャンセルしたため未送信です。",
+    }));
+    setListingResults(results);
+    recordRun(results, true);
+  };
 
-        if (!info || !info.price) {
-          results.push({
-            asin: p.asin,
-            name: p.name,
-            status: "error",
-            message: "Amazon価格が取得できませんでした。",
-          });
-          continue;
-        }
+  /**
+   * Amazon情報取得・Qoo10既存チェック・条件判定まで（送信はしない）。
+   * キャンセルされた場合は null。
+   */
+  const prepareListing = async (
+    targets: Product[],
+    signal: AbortSignal,
+    overrides?: ListingOverrides
+  ): Promise<ListingPlan | null> => {
+    const asins = targets.map((p) => p.asin);
+    const batch = batchOptionsOf(settings);
+    const [amazonRes, existingRes] = await Promise.all([
+      fetchAmazonBulk(asins, {
+        ...batch,
+        signal,
+        onChunkStart: (chunk) =>
+          updateProgress((p) => setAsinStatus(p, chunk, "lookup")),
+        onChunkDone: (chunk) =>
+          updateProgress((p) => advancePhase(p, "amazon", chunk.length)),
+      }),
+      checkQoo10Existing(asins, {
+        ...batch,
+        signal,
+        onChunkStart: (chunk) =>
+          updateProgress((p) => setAsinStatus(p, chunk, "lookup")),
+        onChunkDone: (chunk) =>
+          updateProgress((p) => advancePhase(p, "existing", chunk.length)),
+      }),
+    ]);
+
+    if (signal.aborted) return null;
+
+    const infoMap = new Map<string, AmazonItemInfo>();
+    amazonRes.data.forEach((i) => i.asin && infoMap.set(i.asin, i));
+
+    // チャンク単位で失敗した ASIN。安全確認ができないものは出品しない
+    const amazonFailed = new Map<string, string>();
+    amazonRes.failed.forEach((f) => {
+      console.error(f.error);
+      f.inputs.forEach((a) => amazonFailed.set(a, describeApiError(f.error)));
+    });
+    const existingFailed = new Map<string, string>();
+    existingRes.failed.forEach((f) => {
+      console.error(f.error);
+      f.inputs.forEach((a) => existingFailed.set(a, describeApiError(f.error)));
+    });
 
-        // Prime条件
-        if (settings.primeOnly) {
-          if (
-            info.isPrime === false ||
-            (info.shipDays != null &&
-              info.shipDays > settings.primeShipDaysMax)
-          ) {
-            results.push({
-              asin: p.asin,
-              name: p.name,
-              status: "forbidden",
-              message: `Prime条件を満たさないため除外（出荷まで ${
-                info.shipDays ?? "-"
-              }日）`,
-            });
-            continue;
+    const plan = planListing({
+      targets,
+      infoMap,
+      existingAsins: new Set(existingRes.data),
+      amazonFailed,
+      existingFailed,
+      settings,
+      overrides,
+    });
+    updateProgress((p) => applyPlanToProgress(p, targets.length, plan));
+    return plan;
+  };
+
+  /** 出品 API へ送信し、条件判定で確定済みの結果とまとめて表示 */
+  const submitListing = async (
+    targets: Product[],
+    plan: ListingPlan,
+    signal: AbortSignal
+  ) => {
+    const results = [...plan.results];
+    const { payloads } = plan;
+
+    if (!payloads.length) {
+      updateProgress((p) => ({ ...p, finished: true }));
+      setListingResults(results);
+      recordRun(results, signal.aborted);
+      clearSelection();
+      return;
+    }
+
+    const createdRes = await createQoo10Listings(payloads, {
+      ...batchOptionsOf(settings),
+      signal,
+      onChunkStart: (chunk) =>
+        updateProgress((p) =>
+          setAsinStatus(
+            p,
+            chunk.map((it) => it.asin),
+            "submitting"
+          )
+        ),
+      // sent: 再試行待ちでキャンセルされたチャンクは送っていないので「未送信」
+      onChunkDone: (chunk, res, sent) =>
+        updateProgress((p) => {
+          let next = advancePhase(p, "create", chunk.length);
+          if (res.ok) {
+            for (const r of res.data) {
+              next = setAsinStatus(
+                next,
+                [r.asin],
+                r.ok ? "success" : "error"
+              );
+            }
+          } else if (res.error.kind === "aborted") {
+            next = setAsinStatus(
+              next,
+              chunk.map((it) => it.asin),
+              sent ? "unknown" : "cancelled"
+            );
+          } else {
+            next = setAsinStatus(
+              next,
+              chunk.map((it) => it.asin),
+              "error"
+            );
           }
-        }
+          return next;
+        }),
+    });
+
+    const nameOf = (asin: string) =>
+      targets.find((p) => p.asin === asin)?.name || asin;
+    const payloadOf = new Map(payloads.map((it) => [it.asin, it]));
 
-        // 出品者1人以下は除外（固定ルール）
-        if (info.sellerCount != null && info.sellerCount <= 1) {
+    const created: CreateListingResult[] = [...createdRes.data];
+    for (const f of createdRes.failed) {
+      for (const it of f.inputs) {
+        if (f.error.kind === "aborted" && !f.sent) {
           results.push({
-            asin: p.asin,
-            name: p.name,
-            status: "forbidden",
-            message: `出品者が1人のみのため除外しました。（${info.sellerCount}人）`,
+            asin: it.asin,
+            name: nameOf(it.asin),
+            status: "cancelled",
+            message: "キャンセルしたため未送信です。",
           });
           continue;
         }
-
-        if (settings.noListASINs.includes(p.asin)) {
-          results.push({
-            asin: p.asin,
-            name: p.name,
-            status: "forbidden",
-            message: "出品不可ASINに登録されています。",
-          });
-          continue;
-        }
-
-        const hitWords = settings.noListWords.filter(
-          (w) => w && p.name.includes(w)
-        );
-        if (hitWords.length) {
-          results.push({
-            asin: p.asin,
-            name: p.name,
-            status: "forbidden",
-            message: `禁止ワード(${hitWords.join(
-              ", "
-            )})が含まれているため除外しました。`,
-            hitWords,
-          });
-          continue;
-        }
-
-        if (existsSet.has(p.asin)) {
-          results.push({
-            asin: p.asin,
-            name: p.name,
-            status: "exists",
-            message: "Qoo10に同一ASINの商品が既に存在します。",
-          });
-          continue;
-        }
-
-        const title = stripWords(
-          info.title || p.name,
-          settings.nameEraseWords
-        );
-        const price = applyRule(info.price, settings.rules);
-        if (!price || price <= 0) {
-          results.push({
-            asin: p.asin,
-            name: p.name,
-            status: "error",
-            message: "価格ルール適用後の価格が不正のため除外しました。",
-          });
-          continue;
-        }
-
-        const categoryNo = chooseCategory(info, p, settings);
-        const stock =
-          settings.maxStockPerItem > 0
-            ? settings.maxStockPerItem
-            : 1;
-
-        payloads.push({
-          asin: p.asin,
-          price,
-          shippingCode: settings.shippingCode,
-          title,
-          imageUrl: info.image,
-          categoryNo,
-          stock,
-          jan: p.jan, // JAN をそのままAPIに渡す
+        created.push({
+          asin: it.asin,
+          ok: false,
+          message:
+            f.error.kind === "aborted"
+              ? "送信中にキャンセルしました。Qoo10側で登録済みの可能性があるため確認してください。"
+              : `出品API呼び出しに失敗しました。${describeApiError(
+                  f.error
+                )}`,
         });
       }
+    }
 
-      if (!payloads.length) {
-        setListingResults(results);
-        clearSelection();
-        return;
+    for (const r of created) {
+      const baseName = nameOf(r.asin);
+
+      if (r.ok) {
+        results.push({
+          asin: r.asin,
+          name: baseName,
+          status: "success",
+          message: r.message || "出品登録が完了しました。",
+          qoo10ItemCode: r.qoo10ItemCode,
+          price: payloadOf.get(r.asin)?.price,
+          categoryNo: payloadOf.get(r.asin)?.categoryNo,
+          claims: plan.claims[r.asin]?.map((c) => c.pattern),
+        });
+      } else {
+        results.push({
+          asin: r.asin,
+          name: baseName,
+          status: "error",
+          message:
+            r.message ||
+            (r.code
+              ? `出品APIエラー (code: ${r.code})`
+              : "出品APIからエラーが返されました。"),
+          price: payloadOf.get(r.asin)?.price,
+          categoryNo: payloadOf.get(r.asin)?.categoryNo,
+        });
       }
+    }
 
-      const created: CreateListingResult[] =
-        await createQoo10Listings(payloads);
+    // 出品できた商品に Qoo10 商品コードと出品価格を記録（価格改定の基準）
+    const listed = new Map(
+      results
+        .filter((r) => r.status === "success")
+        .map((r) => [r.asin, r])
+    );
+    if (listed.size) {
+      setProducts((prev) =>
+        prev.map((p) => {
+          const r = listed.get(p.asin);
+          return r
+            ? {
+                ...p,
+                qoo10Id: r.qoo10ItemCode || p.qoo10Id,
+                qoo10Price: r.price ?? p.qoo10Price,
+                qoo10Stock: listingStockOf(settings),
+                qoo10Suspended: undefined,
+              }
+            : p;
+        })
+      );
+    }
 
-      for (const r of created) {
-        const baseName =
-          targets.find((p) => p.asin === r.asin)?.name || r.asin;
+    updateProgress((p) => ({ ...p, finished: true }));
+    setListingResults(results);
+    recordRun(results, signal.aborted);
+    clearSelection();
+  };
 
-        if (r.ok) {
-          results.push({
-            asin: r.asin,
-            name: baseName,
-            status: "success",
-            message: r.message || "出品登録が完了しました。",
-            qoo10ItemCode: r.qoo10ItemCode,
-          });
-        } else {
-          results.push({
-            asin: r.asin,
-            name: baseName,
-            status: "error",
-            message:
-              r.message ||
-              (r.code
-                ? `出品APIエラー (code: ${r.code})`
-                : "出品APIからエラーが返されました。"),
-          });
-        }
-      }
+  /** 出品・プレビュー共通：多重実行防止・キャンセル用 signal・例外表示 */
+  const withListingRun = async (fn: (signal: AbortSignal) => Promise<void>) => {
+    if (loading) return;
+    setLoading(true);
+    setListingResults(null);
 
-      setListingResults(results);
-      clearSelection();
-    } catch (e: any) {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    runStartedAtRef.current = new Date();
+
+    try {
+      await fn(controller.signal);
+    } catch (e) {
       console.error(e);
+      updateProgress((p) => ({ ...p, finished: true }));
       setListingResults([
         {
           asin: "-",
           name: "",
           status: "error",
           message:
-            e?.message ||
+            (e instanceof Error && e.message) ||
             "出品処理中に予期せぬエラーが発生しました。",
         },
       ]);
     } finally {
+      abortRef.current = null;
       setLoading(false);
     }
   };
 
+  const runListing = () =>
+    withListingRun(async (signal) => {
+      const targets = listingTargets();
+      if (!targets.length) {
+        setListingResults([]);
+        return;
+      }
+
+      setPreview(null);
+      setProgress(createListingProgress(targets.map((p) => p.asin)));
+      const plan = await prepareListing(targets, signal);
+      if (!plan) {
+        finishCancelled(targets);
+        return;
+      }
+      await submitListing(targets, plan, signal);
+    });
+
+  /* ----- プレビュー（送信せずに内容確認） ----- */
+
+  const runPreview = () =>
+    withListingRun(async (signal) => {
+      const targets = listingTargets();
+      if (!targets.length) {
+        setListingResults([]);
+        return;
+      }
+
+      setPreview(null);
+      setProgress(createListingProgress(targets.map((p) => p.asin)));
+      const plan = await prepareListing(targets, signal);
+      if (!plan) {
+        finishCancelled(targets);
+        return;
+      }
+      setProgress(null);
+      setPreview({ id: Date.now(), targets, plan });
+    });
+
+  /* ----- 商品ごとのカテゴリ指定 ----- */
+
+  const setCategoryOverride = (id: number, categoryNo: number | undefined) =>
+    setProducts((prev) =>
+      prev.map((p) =>
+        p.id === id ? { ...p, categoryOverride: categoryNo } : p
+      )
+    );
+
+  const categorySuggestions = useMemo(
+    () => suggestCategoryKeywords(products, settings),
+    [products, settings]
+  );
+
+  const addSuggestionToMap = (sug: CategorySuggestion) =>
+    setSettings((s) => ({
+      ...s,
+      categoryMap: { ...s.categoryMap, [sug.keyword]: sug.categoryNo },
+    }));
+
+  const addSuggestionToRules = (sug: CategorySuggestion) =>
+    setSettings((s) => ({
+      ...s,
+      categoryRules: addKeywordToRules(
+        s.categoryRules,
+        sug.keyword,
+        sug.categoryNo
+      ),
+    }));
+
+  const rejectSuggestion = (sug: CategorySuggestion) =>
+    setSettings((s) => ({
+      ...s,
+      rejectedCategorySuggestions: [
+        ...s.rejectedCategorySuggestions,
+        categorySuggestionKey(sug),
+      ],
+    }));
+
+  /* ----- 価格改定 ----- */
+
+  const repriceCandidates = useMemo(
+    () => findRepriceCandidates(products, runs, settings),
+    [products, runs, settings]
+  );
+
+  const submitReprice = async (targets: RepriceCandidate[]) => {
+    if (repricing.busy || !targets.length) return;
+    if (
+      !window.confirm(`${targets.length}件のQoo10販売価格を更新しますか？`)
+    ) {
+      return;
+    }
+    setRepricing((r) => ({ ...r, busy: true, results: null }));
+
+    const res = await updateQoo10Prices(
+      targets.map((c) => ({
+        asin: c.product.asin,
+        qoo10ItemCode: c.qoo10ItemCode,
+        price: c.newPrice,
+      })),
+      batchOptionsOf(settings)
+    );
+    const results: UpdatePriceResult[] = [
+      ...res.data,
+      ...res.failed.flatMap((f) =>
+        f.inputs.map((it) => ({
+          asin: it.asin,
+          ok: false,
+          message: describeApiError(f.error),
+        }))
+      ),
+    ];
+
+    const updated = new Map(
+      results
+        .filter((r) => r.ok)
+        .map((r) => [
+          r.asin,
+          targets.find((c) => c.product.asin === r.asin)?.newPrice,
+        ])
+    );
+    if (updated.size) {
+      setProducts((prev) =>
+        prev.map((p) =>
+          updated.get(p.asin) ? { ...p, qoo10Price: updated.get(p.asin) } : p
+        )
+      );
+    }
+    setRepricing((r) => ({ ...r, busy: false, results }));
+  };
+
+  /** 改定しても利益率が下限未満の商品は、在庫を0にして販売を止める */
+  const suspendLowMargin = async (targets: RepriceCandidate[]) => {
+    const changes = lowMarginStockChanges(targets, settings);
+    if (repricing.busy || !changes.length) return;
+    if (
+      !window.confirm(
+        `${changes.length}件のQoo10在庫を0にして販売を停止しますか？`
+      )
+    ) {
+      return;
+    }
+    setRepricing((r) => ({ ...r, busy: true }));
+    try {
+      const entries = await applyStockChanges(changes);
+      const failed = entries.filter((e) => !e.ok).length;
+      alert(
+        `販売停止 ${entries.length - failed}件${
+          failed
+            ? ` ／ 失敗 ${failed}件（出品履歴ページの在庫同期ログを確認してください）`
+            : ""
+        }`
+      );
+    } finally {
+      setRepricing((r) => ({ ...r, busy: false }));
+    }
+  };
+
+  /* ----- エラー分の再実行 ----- */
+
+  const retryFailed = (
+    items: ListingResultItem[],
+    overrides: ListingOverrides
+  ) =>
+    withListingRun(async (signal) => {
+      const asins = retryableAsins(items, runs);
+      if (!asins.length) {
+        setListingResults([]);
+        return;
+      }
+
+      // 一覧から削除済みの商品も履歴の情報で再実行できるようにする
+      const targets: Product[] = asins.map(
+        (asin) =>
+          products.find((p) => p.asin === asin) ?? {
+            id: -1,
+            asin,
+            name: items.find((it) => it.asin === asin)?.name || asin,
+            mainImage: "",
+            amazonPrice: 0,
+            updatedAt: "",
+          }
+      );
+
+      setPage("list");
+      setPreview(null);
+      setProgress(createListingProgress(asins));
+      const plan = await prepareListing(targets, signal, overrides);
+      if (!plan) {
+        finishCancelled(targets);
+        return;
+      }
+      await submitListing(targets, plan, signal);
+    });
+
+  const confirmPreview = (payloads: Qoo10ListingPayload[]) =>
+    withListingRun(async (signal) => {
+      if (!preview) return;
+      const { targets, plan } = preview;
+      setPreview(null);
+
+      const chosen = new Set(payloads.map((it) => it.asin));
+      const skipped: ListingResultItem[] = plan.payloads
+        .filter((it) => !chosen.has(it.asin))
+        .map((it) => ({
+          asin: it.asin,
+          name: targets.find((p) => p.asin === it.asin)?.name || it.asin,
+          status: "cancelled",
+          message: "プレビューで対象外にしたため未送信です。",
+        }));
+      // Amazon取得はプレビュー時に完了済み。既存チェックは、プレビューを開いている間に
+      // 別の実行や手動で出品された可能性があるので送信直前にやり直す
+      let p = createListingProgress(targets.map((t) => t.asin));
+      p = advancePhase(p, "amazon", targets.length);
+      setProgress(setPhaseTotal(p, "existing", payloads.length));
+
+      const recheck = await checkQoo10Existing(
+        payloads.map((it) => it.asin),
+        {
+          ...batchOptionsOf(settings),
+          signal,
+          onChunkDone: (chunk) =>
+            updateProgress((p) => advancePhase(p, "existing", chunk.length)),
+        }
+      );
+      if (signal.aborted) {
+        finishCancelled(targets);
+        return;
+      }
+
+      const existing = new Set(recheck.data);
+      const existingFailed = new Map<string, string>();
+      recheck.failed.forEach((f) => {
+        console.error(f.error);
+        f.inputs.forEach((a) =>
+          existingFailed.set(a, describeApiError(f.error))
+        );
+      });
+      const nameOf = (asin: string) =>
+        targets.find((t) => t.asin === asin)?.name || asin;
+      const rechecked: ListingResultItem[] = [];
+      for (const it of payloads) {
+        const error = existingFailed.get(it.asin);
+        if (error) {
+          rechecked.push({
+            asin: it.asin,
+            name: nameOf(it.asin),
+            status: "error",
+            message: `Qoo10既存チェックを実行できなかったため未送信です（重複出品防止）。${error}`,
+          });
+        } else if (existing.has(it.asin)) {
+          rechecked.push({
+            asin: it.asin,
+            name: nameOf(it.asin),
+            status: "exists",
+            message:
+              "送信直前の確認で、Qoo10に同一ASINの商品が見つかりました。",
+          });
+        }
+      }
+      const blocked = new Set(rechecked.map((r) => r.asin));
+
+      const confirmed: ListingPlan = {
+        ...plan,
+        results: [...plan.results, ...skipped, ...rechecked],
+        payloads: payloads.filter((it) => !blocked.has(it.asin)),
+      };
+      updateProgress((p) => applyPlanToProgress(p, targets.length, confirmed));
+
+      await submitListing(targets, confirmed, signal);
+    });
+
   /* ========== JSX ========== */
 
   return (
@@ -876,6 +1848,12 @@ const App: React.FC = () => {
           >
             商品一覧
           </button>
+          <button
+            className={page === "history" ? "nav-link active" : "nav-link"}
+            onClick={() => setPage("history")}
+          >
+            出品履歴
+          </button>
           <button
             className={page === "settings" ? "nav-link active" : "nav-link"}
             onClick={() => setPage("settings")}
@@ -921,6 +1899,28 @@ const App: React.FC = () => {
             >
               キャンセル
             </button>
+            <ProductExportControl
+              counts={{
+                all: products.length,
+                filtered: filteredProducts.length,
+                selected: selected.size,
+              }}
+              columns={settings.exportColumns}
+              onColumnsChange={(exportColumns) =>
+                setSettings((s) => ({ ...s, exportColumns }))
+              }
+              onExport={exportProducts}
+            />
+
+            <button
+              className="btn btn-blue"
+              onClick={() => {
+                setLookupFailures([]);
+                setPasteOpen(true);
+              }}
+            >
+              ASIN・URLを貼り付け
+            </button>
 
             <label className="btn btn-blue">
               CSVから追加
@@ -939,6 +1939,13 @@ const App: React.FC = () => {
             >
               {refreshing ? "最新情報取得中..." : "最新情報に更新"}
             </button>
+            <button
+              className="btn btn-blue"
+              onClick={() => syncStock(products)}
+              disabled={refreshing || stockSyncing}
+            >
+              {stockSyncing ? "在庫同期中..." : "在庫同期"}
+            </button>
           </div>
 
           <div className="delete-row">
@@ -954,6 +1961,46 @@ const App: React.FC = () => {
             <button className="btn btn-red" onClick={deleteAll}>
               全部削除
             </button>
+            <select
+              className="settings-input"
+              style={{ width: 200 }}
+              value={delistMode}
+              onChange={(e) => setDelistMode(e.target.value as DelistMode)}
+              disabled={delisting}
+            >
+              <option value="end">販売終了（商品コードを解除）</option>
+              <option value="suspend">一時停止（商品コードを保持）</option>
+              <option value="resume">一時停止を再開</option>
+            </select>
+            <button
+              className={
+                delistMode === "resume" ? "btn btn-green" : "btn btn-red"
+              }
+              onClick={delistSelected}
+              disabled={delisting}
+            >
+              {delisting
+                ? `${DELIST_MODE_LABEL[delistMode]}中...`
+                : delistMode === "resume"
+                ? "Qoo10で販売再開"
+                : "Qoo10から出品停止"}
+            </button>
+            <button
+              className="btn btn-blue"
+              onClick={() =>
+                setRepricing({ open: true, busy: false, results: null })
+              }
+              disabled={repricing.busy}
+            >
+              価格改定
+            </button>
+            <button
+              className="btn btn-pink"
+              onClick={runPreview}
+              disabled={loading}
+            >
+              プレビュー
+            </button>
             <button
               className="btn btn-green"
               onClick={runListing}
@@ -963,7 +2010,103 @@ const App: React.FC = () => {
             </button>
           </div>
 
-          <ListingResultInline results={listingResults} />
+          {syncWarning && (
+            <div className="warning-box">
+              <span className="warning-text">{syncWarning}</span>
+              <button
+                className="btn btn-pink"
+                onClick={() => setSyncWarning(null)}
+              >
+                閉じる
+              </button>
+            </div>
+          )}
+
+          <ListingProgressPanel
+            progress={progress}
+            onCancel={cancelListing}
+            onClose={() => setProgress(null)}
+          />
+
+          {repricing.open && (
+            <RepricePanel
+              candidates={repriceCandidates}
+              busy={repricing.busy}
+              results={repricing.results}
+              onSubmit={submitReprice}
+              onSuspend={suspendLowMargin}
+              onClose={() =>
+                setRepricing({ open: false, busy: false, results: null })
+              }
+            />
+          )}
+
+          {preview && (
+            <ListingPreview
+              key={preview.id}
+              plan={preview.plan}
+              targets={preview.targets}
+              settings={settings}
+              busy={loading}
+              onConfirm={confirmPreview}
+              onClose={() => setPreview(null)}
+            />
+          )}
+
+          {pasteOpen && (
+            <AsinPasteBox
+              busy={importing || resolvingInputs}
+              lookupFailures={lookupFailures}
+              onSubmit={importPasted}
+              onClose={() => setPasteOpen(false)}
+            />
+          )}
+
+          {importReview && (
+            <ImportReview
+              items={importReview}
+              onConfirm={confirmImport}
+              onClose={() => setImportReview(null)}
+            />
+          )}
+
+          {csvImport && (
+            <CsvImportMapper
+              key={csvImport.fileName}
+              fileName={csvImport.fileName}
+              rows={csvImport.rows}
+              busy={importing}
+              onImport={importRows}
+              onClose={() => setCsvImport(null)}
+            />
+          )}
+
+          <DelistResultInline
+            outcome={delistOutcome}
+            onClose={() => setDelistOutcome(null)}
+          />
+
+          <ListingResultInline
+            results={listingResults}
+            retryCount={
+              listingResults ? retryableAsins(listingResults, runs).length : 0
+            }
+            busy={loading}
+            onRetryFailed={(overrides) =>
+              listingResults && retryFailed(listingResults, overrides)
+            }
+            onExport={() =>
+              listingResults &&
+              downloadCsv(
+                `qeasy-listing-results-${fileStamp()}.csv`,
+                exportRowsToCsv(
+                  resultExportRows(listingResults, products),
+                  settings.exportColumns,
+                  settings
+                )
+              )
+            }
+          />
 
           <div className="table-card">
             <table aria-label="出品商品一覧">
@@ -976,16 +2119,34 @@ const App: React.FC = () => {
                   <th>JAN</th>
                   <th>商品コード(Qoo10)</th>
                   <th>Amazon価格</th>
+                  <th>カテゴリ(推定)</th>
                   <th>Qoo10価格(試算)</th>
+                  <th>粗利(試算)</th>
+                  <th>利益率</th>
                   <th>更新日時</th>
                 </tr>
               </thead>
               <tbody>
                 {filteredProducts.map((p) => {
+                  const category = explainCategory(undefined, p, settings);
+                  const { categoryNo } = category;
                   const preview =
                     p.inStock === false
                       ? 0
-                      : applyRule(p.amazonPrice, settings.rules);
+                      : priceFor(p.amazonPrice, settings, categoryNo, p.name);
+                  const profit = preview
+                    ? estimateProfit(
+                        preview,
+                        p.amazonPrice,
+                        categoryNo,
+                        settings.shippingCode,
+                        settings.profit
+                      )
+                    : null;
+                  const lowMargin =
+                    !!profit &&
+                    settings.profit.minMarginRate > 0 &&
+                    profit.marginRate < settings.profit.minMarginRate;
                   const amazonUrl = `https://www.amazon.co.jp/dp/${p.asin}`;
                   return (
                     <tr key={p.id}>
@@ -1030,13 +2191,63 @@ const App: React.FC = () => {
                         >
                           {p.name}
                         </a>
+                        {p.brand && (
+                          <div className="note">ブランド: {p.brand}</div>
+                        )}
                       </td>
                       <td className="cell-center">{p.asin}</td>
                       <td className="cell-center">{p.jan || "-"}</td>
-                      <td className="cell-center">{p.qoo10Id || "-"}</td>
+                      <td className="cell-center">
+                        {p.qoo10Id || "-"}
+                        {!p.qoo10Id && p.endedQoo10Ids?.length ? (
+                          <div className="note">
+                            販売終了: {p.endedQoo10Ids.join(", ")}
+                          </div>
+                        ) : null}
+                        {p.qoo10Id && p.qoo10Suspended ? (
+                          <div className="note cell-warn">出品停止中</div>
+                        ) : (
+                          p.qoo10Id &&
+                          p.qoo10Stock === 0 && (
+                            <div className="note cell-warn">販売停止中</div>
+                          )
+                        )}
+                      </td>
                       <td className="cell-right">
                         {p.amazonPrice ? formatYen(p.amazonPrice) : "-"}
                       </td>
+                      <td
+                        className={
+                          category.needsReview
+                            ? "cell-center cell-warn"
+                            : "cell-center"
+                        }
+                      >
+                        <input
+                          className="settings-input"
+                          style={{ width: 100 }}
+                          value={p.categoryOverride ?? ""}
+                          placeholder={
+                            categoryNo ? String(categoryNo) : "未設定"
+                          }
+                          title="入力するとこの商品だけカテゴリを固定します"
+                          onChange={(e) => {
+                            const v = e.target.value.replace(/[^0-9]/g, "");
+                            setCategoryOverride(
+                              p.id,
+                              v ? Number(v) : undefined
+                            );
+                          }}
+                        />
+                        <div className="note">
+                          {category.needsReview
+                            ? category.decision?.mainMatch ||
+                              category.decision?.subMatch
+                              ? `要確認 ${describeCategoryChoice(category)}`
+                              : "要確認（該当キーワードなし）"
+                            : describeCategoryChoice(category)}
+                        </div>
+                      </td>
                       <td className="cell-right">
                         {p.inStock === false
                           ? "在庫なし"
@@ -1044,13 +2255,29 @@ const App: React.FC = () => {
                           ? formatYen(preview)
                           : "-"}
                       </td>
+                      <td
+                        className={
+                          profit && profit.profit < 0
+                            ? "cell-right cell-warn"
+                            : "cell-right"
+                        }
+                      >
+                        {profit ? formatYen(profit.profit) : "-"}
+                      </td>
+                      <td
+                        className={
+                          lowMargin ? "cell-right cell-warn" : "cell-right"
+                        }
+                      >
+                        {profit ? `${profit.marginRate.toFixed(1)}%` : "-"}
+                      </td>
                       <td className="cell-center">{p.updatedAt}</td>
                     </tr>
                   );
                 })}
                 {filteredProducts.length === 0 && (
                   <tr>
-                    <td colSpan={9} className="cell-center">
+                    <td colSpan={12} className="cell-center">
                       該当する商品がありません。
                     </td>
                   </tr>
@@ -1060,6 +2287,23 @@ const App: React.FC = () => {
           </div>
         </section>
 
+        {/* ===== 出品履歴 ===== */}
+        <section
+          className={`page-section ${page === "history" ? "active" : ""}`}
+        >
+          <h1 className="page-title">出品履歴</h1>
+          <ListingHistory
+            runs={runs}
+            busy={loading}
+            onRetryFailed={(run, overrides) =>
+              retryFailed(run.items, overrides)
+            }
+          />
+
+          <div className="section-title">在庫同期ログ</div>
+          <StockSyncLog log={stockLog} />
+        </section>
+
         {/* ===== 出品・設定 ===== */}
         <section
           className={`page-section ${
@@ -1094,6 +2338,77 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          {/* API 分割送信 */}
+          <div className="section-title">API 分割送信</div>
+          <div className="settings-card">
+            <div className="note">
+              大量のASINは指定件数ずつに分けて送信します。一部の送信が失敗しても、
+              成功した分の結果は保持されます。
+            </div>
+            <div className="toggle-row">
+              <div className="toggle-label">1リクエストあたりの件数</div>
+              <input
+                type="number"
+                className="settings-input"
+                min={1}
+                value={settings.batchChunkSize}
+                onChange={(e) =>
+                  setSettings((s) => ({
+                    ...s,
+                    batchChunkSize:
+                      Number(e.target.value) ||
+                      DEFAULT_BATCH_OPTIONS.chunkSize,
+                  }))
+                }
+              />
+            </div>
+            <div className="toggle-row">
+              <div className="toggle-label">同時リクエスト数</div>
+              <input
+                type="number"
+                className="settings-input"
+                min={1}
+                value={settings.batchConcurrency}
+                onChange={(e) =>
+                  setSettings((s) => ({
+                    ...s,
+                    batchConcurrency: Math.max(1, Number(e.target.value) || 1),
+                  }))
+                }
+              />
+            </div>
+            <div className="toggle-row">
+              <div className="toggle-label">リクエスト間隔（ミリ秒）</div>
+              <input
+                type="number"
+                className="settings-input"
+                min={0}
+                value={settings.batchDelayMs}
+                onChange={(e) =>
+                  setSettings((s) => ({
+                    ...s,
+                    batchDelayMs: Number(e.target.value) || 0,
+                  }))
+                }
+              />
+            </div>
+            <div className="toggle-row">
+              <div className="toggle-label">一時エラー時の再試行回数</div>
+              <input
+                type="number"
+                className="settings-input"
+                min={0}
+                value={settings.batchMaxRetries}
+                onChange={(e) =>
+                  setSettings((s) => ({
+                    ...s,
+                    batchMaxRetries: Number(e.target.value) || 0,
+                  }))
+                }
+              />
+            </div>
+          </div>
+
           {/* Prime / 在庫 */}
           <div className="section-title">Prime・在庫条件</div>
           <div className="settings-card">
@@ -1141,61 +2456,249 @@ const App: React.FC = () => {
                 }
               />
             </div>
+            <div className="toggle-row">
+              <div className="toggle-label">
+                最新情報更新時に在庫同期（在庫切れ・条件外は在庫0、回復したら在庫上限に戻す）
+              </div>
+              <input
+                type="checkbox"
+                className="toggle-input"
+                checked={settings.stockSyncEnabled}
+                onChange={(e) =>
+                  setSettings((s) => ({
+                    ...s,
+                    stockSyncEnabled: e.target.checked,
+                  }))
+                }
+              />
+            </div>
           </div>
 
           {/* 価格設定 */}
           <div className="section-title">価格設定（Amazon → Qoo10）</div>
           <div className="settings-card">
-            <div className="settings-label">価格レンジごとの係数・加算</div>
-            {settings.rules.map((r, i) => (
-              <div key={i} style={{ marginTop: 6 }}>
-                <div className="settings-label">
-                  {r.min}円〜{r.max ?? "上限なし"}円
-                </div>
+            <div className="settings-subtitle">既定ルール</div>
+            <PriceRuleSetEditor
+              value={defaultRuleSetOf(settings)}
+              onChange={(set) =>
+                setSettings((s) => ({
+                  ...s,
+                  rules: set.rules,
+                  priceRounding: set.rounding,
+                  priceFloor: set.floorPrice,
+                  priceCeiling: set.ceilingPrice,
+                }))
+              }
+            />
+          </div>
+
+          <div className="settings-label" style={{ marginTop: 10 }}>
+            カテゴリ・キーワード別ルール（上から順に照合し、最初に一致したものを使用。どれにも一致しなければ既定ルール）
+          </div>
+          {settings.scopedPriceRules.map((set, i) => {
+            const update = (patch: Partial<ScopedPriceRuleSet>) =>
+              setSettings((s) => {
+                const list = [...s.scopedPriceRules];
+                list[i] = { ...list[i], ...patch };
+                return { ...s, scopedPriceRules: list };
+              });
+            const move = (delta: number) =>
+              setSettings((s) => {
+                const list = [...s.scopedPriceRules];
+                const j = i + delta;
+                if (j < 0 || j >= list.length) return s;
+                [list[i], list[j]] = [list[j], list[i]];
+                return { ...s, scopedPriceRules: list };
+              });
+            return (
+              <div
+                key={set.id}
+                className="settings-card"
+                style={{ marginTop: 8 }}
+              >
                 <div className="settings-btn-row">
-                  <span>×</span>
                   <input
                     className="settings-input"
-                    style={{ width: 80 }}
-                    value={r.multiply}
-                    onChange={(e) =>
-                      setSettings((s) => {
-                        const rules = [...s.rules];
-                        rules[i] = {
-                          ...rules[i],
-                          multiply:
-                            Number(
-                              e.target.value.replace(/[^0-9.]/g, "")
-                            ) || 1,
-                        };
-                        return { ...s, rules };
-                      })
-                    }
+                    placeholder="ルール名（例: サプリ）"
+                    value={set.name}
+                    onChange={(e) => update({ name: e.target.value })}
                   />
-                  <span>＋</span>
                   <input
                     className="settings-input"
-                    style={{ width: 80 }}
-                    value={r.plus}
+                    placeholder="カテゴリNo前方一致（例: 130000）"
+                    value={set.categoryPrefix}
                     onChange={(e) =>
-                      setSettings((s) => {
-                        const rules = [...s.rules];
-                        rules[i] = {
-                          ...rules[i],
-                          plus:
-                            Number(
-                              e.target.value.replace(/[^0-9]/g, "")
-                            ) || 0,
-                        };
-                        return { ...s, rules };
+                      update({
+                        categoryPrefix: e.target.value.replace(/[^0-9]/g, ""),
                       })
                     }
                   />
-                  <span>円</span>
+                  <input
+                    className="settings-input"
+                    placeholder="タイトルのキーワード（例: 美顔器）"
+                    value={set.keyword}
+                    onChange={(e) => update({ keyword: e.target.value })}
+                  />
+                  <button className="btn btn-blue" onClick={() => move(-1)}>
+                    ↑
+                  </button>
+                  <button className="btn btn-blue" onClick={() => move(1)}>
+                    ↓
+                  </button>
+                  <button
+                    className="btn btn-red"
+                    onClick={() =>
+                      setSettings((s) => ({
+                        ...s,
+                        scopedPriceRules: s.scopedPriceRules.filter(
+                          (x) => x.id !== set.id
+                        ),
+                      }))
+                    }
+                  >
+                    削除
+                  </button>
                 </div>
+                {!set.categoryPrefix && !set.keyword && (
+                  <div className="note">
+                    カテゴリNoかキーワードを指定するまでこのルールは使われません。
+                  </div>
+                )}
+                <PriceRuleSetEditor
+                  value={set}
+                  onChange={(next) => update(next)}
+                />
+              </div>
+            );
+          })}
+          <div className="settings-btn-row">
+            <button
+              className="btn btn-green"
+              onClick={() =>
+                setSettings((s) => ({
+                  ...s,
+                  scopedPriceRules: [
+                    ...s.scopedPriceRules,
+                    {
+                      ...defaultRuleSetOf(s),
+                      id: `price-${Date.now()}`,
+                      name: "",
+                      categoryPrefix: "",
+                      keyword: "",
+                    },
+                  ],
+                }))
+              }
+            >
+              カテゴリ・キーワード別ルールを追加
+            </button>
+          </div>
+
+          <div className="settings-card" style={{ marginTop: 10 }}>
+            <div className="settings-subtitle">価格改定のしきい値</div>
+            <div className="note">
+              出品済み商品の改定後価格と現在価格の差が、両方のしきい値以上のときだけ改定対象にします。
+            </div>
+            <div className="toggle-row">
+              <div className="toggle-label">最小差額（円・0で無効）</div>
+              <input
+                type="number"
+                className="settings-input"
+                min={0}
+                value={settings.repriceMinDiffYen}
+                onChange={(e) =>
+                  setSettings((s) => ({
+                    ...s,
+                    repriceMinDiffYen: Math.max(0, Number(e.target.value) || 0),
+                  }))
+                }
+              />
+            </div>
+            <div className="toggle-row">
+              <div className="toggle-label">最小変動率（%・0で無効）</div>
+              <input
+                type="number"
+                className="settings-input"
+                min={0}
+                step="0.1"
+                value={settings.repriceMinDiffRate}
+                onChange={(e) =>
+                  setSettings((s) => ({
+                    ...s,
+                    repriceMinDiffRate: Math.max(
+                      0,
+                      Number(e.target.value) || 0
+                    ),
+                  }))
+                }
+              />
+            </div>
+          </div>
+
+          {/* 利益計算 */}
+          <div className="section-title">利益計算（Qoo10手数料・送料）</div>
+          <div className="settings-card">
+            <div className="note">
+              粗利 = Qoo10価格 − Amazon価格 − (販売手数料＋決済手数料＋ポイント負担) − 送料
+            </div>
+            {(
+              [
+                ["defaultCommissionRate", "販売手数料（%・カテゴリ指定なし）"],
+                ["paymentFeeRate", "決済手数料（%）"],
+                ["pointBurdenRate", "クーポン・ポイント負担（%）"],
+                ["defaultShippingCost", "送料（円・送料コード指定なし）"],
+                ["minMarginRate", "最低利益率（%・0で無効）"],
+              ] as const
+            ).map(([key, label]) => (
+              <div key={key} className="toggle-row">
+                <div className="toggle-label">{label}</div>
+                <input
+                  type="number"
+                  className="settings-input"
+                  min={0}
+                  step="0.1"
+                  value={settings.profit[key]}
+                  onChange={(e) =>
+                    setSettings((s) => ({
+                      ...s,
+                      profit: {
+                        ...s.profit,
+                        [key]: Math.max(0, Number(e.target.value) || 0),
+                      },
+                    }))
+                  }
+                />
               </div>
             ))}
           </div>
+          <div className="settings-grid" style={{ marginTop: 10 }}>
+            <NumberMapEditor
+              title="カテゴリ別 販売手数料（カテゴリNo前方一致）"
+              map={settings.profit.commissionByCategory}
+              keyPlaceholder="カテゴリNo（例: 120000）"
+              valuePlaceholder="手数料%（例: 12）"
+              unit="%"
+              onChange={(map) =>
+                setSettings((s) => ({
+                  ...s,
+                  profit: { ...s.profit, commissionByCategory: map },
+                }))
+              }
+            />
+            <NumberMapEditor
+              title="送料コード別 送料"
+              map={settings.profit.shippingCostByCode}
+              keyPlaceholder="送料コード（例: 645035）"
+              valuePlaceholder="送料円（例: 520）"
+              unit="円"
+              onChange={(map) =>
+                setSettings((s) => ({
+                  ...s,
+                  profit: { ...s.profit, shippingCostByCode: map },
+                }))
+              }
+            />
+          </div>
 
           {/* カテゴリ自動割当 */}
           <div className="section-title">カテゴリ自動割当</div>
@@ -1277,28 +2780,74 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          <CategorySuggestions
+            suggestions={categorySuggestions}
+            overrideCount={products.filter((p) => p.categoryOverride).length}
+            onAddToMap={addSuggestionToMap}
+            onAddToRules={addSuggestionToRules}
+            onReject={rejectSuggestion}
+          />
+
+          <div className="section-title">カテゴリ自動推定のキーワード表</div>
+          <CategoryRulesEditor
+            value={settings.categoryRules}
+            onChange={(categoryRules) =>
+              setSettings((s) => ({ ...s, categoryRules }))
+            }
+            onReset={() =>
+              setSettings((s) => ({
+                ...s,
+                categoryRules: DEFAULT_CATEGORY_RULES,
+              }))
+            }
+          />
+
           {/* 出品制御 */}
           <div className="section-title">出品制御ルール</div>
           <div className="settings-grid">
-            <TagEditor
+            <WordRuleEditor
               title="出品不可ASIN"
-              tags={settings.noListASINs}
-              onChange={(tags) =>
-                setSettings((s) => ({ ...s, noListASINs: tags }))
+              kind="asin"
+              rules={settings.noListASINs}
+              products={products}
+              onChange={(noListASINs) =>
+                setSettings((s) => ({ ...s, noListASINs }))
               }
             />
-            <TagEditor
+            <WordRuleEditor
               title="出品不可ワード"
-              tags={settings.noListWords}
-              onChange={(tags) =>
-                setSettings((s) => ({ ...s, noListWords: tags }))
+              kind="word"
+              rules={settings.noListWords}
+              products={products}
+              onChange={(noListWords) =>
+                setSettings((s) => ({ ...s, noListWords }))
               }
             />
-            <TagEditor
+            <WordRuleEditor
               title="商品名削除ワード"
-              tags={settings.nameEraseWords}
-              onChange={(tags) =>
-                setSettings((s) => ({ ...s, nameEraseWords: tags }))
+              kind="erase"
+              rules={settings.nameEraseWords}
+              products={products}
+              onChange={(nameEraseWords) =>
+                setSettings((s) => ({ ...s, nameEraseWords }))
+              }
+            />
+            <BrandListEditor
+              rules={settings.brandRules}
+              products={products}
+              onChange={(brandRules) =>
+                setSettings((s) => ({ ...s, brandRules }))
+              }
+            />
+            <ClaimRuleEditor
+              rules={settings.claimRules}
+              products={products}
+              settings={settings}
+              onChange={(claimRules) =>
+                setSettings((s) => ({ ...s, claimRules }))
+              }
+              onReset={() =>
+                setSettings((s) => ({ ...s, claimRules: DEFAULT_CLAIM_RULES }))
               }
             />
             <TagEditor
@@ -0,0 +1,179 @@
+// src/api/batch.ts
+// 大量ASINを一定件数ずつに分割して API を叩くための共通処理
+// （Keepa のトークン制限・タイムアウト対策。失敗したチャンクだけを後から再実行できる）
+
+import type { ApiError, ApiResult } from "./qeasy";
+
+export type BatchOptions = {
+  /** 1リクエストあたりの件数 */
+  chunkSize: number;
+  /** 同時に投げるリクエスト数 */
+  concurrency: number;
+  /** 同じワーカーが次のチャンクを投げるまでの待ち時間(ms) */
+  delayMs: number;
+  /** 一時的な失敗に対する再試行回数 */
+  maxRetries: number;
+  /** 再試行の初回待ち時間(ms)。以降 2倍ずつ伸ばす */
+  retryBaseMs: number;
+};
+
+export const DEFAULT_BATCH_OPTIONS: BatchOptions = {
+  chunkSize: 100,
+  concurrency: 2,
+  delayMs: 1000,
+  maxRetries: 3,
+  retryBaseMs: 2000,
+};
+
+/** 進捗表示・キャンセル用（設定値ではなく呼び出しごとに渡す） */
+export type BatchControl<I, O> = {
+  signal?: AbortSignal;
+  /** チャンクを送信する直前に呼ばれる */
+  onChunkStart?: (inputs: I[]) => void;
+  /**
+   * チャンクの成否が確定したときに呼ばれる（再試行後の最終結果）。
+   * sent は最後の試行を実際に送信したか（再試行待ちの間にキャンセルされたら false）
+   */
+  onChunkDone?: (inputs: I[], result: ApiResult<O[]>, sent: boolean) => void;
+};
+
+export type FailedChunk<I> = {
+  /** 失敗したチャンクの入力（そのまま再実行に使える） */
+  inputs: I[];
+  error: ApiError;
+  /**
+   * 最後の試行を送信したか。false ならサーバーには届いていない
+   * （キャンセル時に「結果不明」と「未送信」を分けるため）
+   */
+  sent: boolean;
+};
+
+export type BatchResult<I, O> = {
+  /** 成功したチャンクの結果（入力順） */
+  data: O[];
+  failed: FailedChunk<I>[];
+};
+
+/** 接続断・タイムアウト・429・5xx は時間を置けば通る可能性がある */
+export function isTransientError(error: ApiError): boolean {
+  switch (error.kind) {
+    case "network":
+    case "timeout":
+      return true;
+    case "http":
+      return error.status === 429 || error.status >= 500;
+    case "validation":
+    case "aborted":
+      return false;
+  }
+}
+
+/** キャンセルされたら待たずに抜ける sleep */
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done);
+  });
+
+export function chunkArray<T>(items: T[], size: number): T[][] {
+  const n = Math.max(1, Math.floor(size) || 1);
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += n) {
+    chunks.push(items.slice(i, i + n));
+  }
+  return chunks;
+}
+
+/** 失敗チャンクの入力を平坦化（再実行・未処理一覧用） */
+export function failedInputs<I>(failed: FailedChunk<I>[]): I[] {
+  return failed.flatMap((f) => f.inputs);
+}
+
+/**
+ * inputs を chunkSize ごとに分割して call を実行し、結果をマージする。
+ * 途中のチャンクが失敗しても他のチャンクの結果は捨てない。
+ * キャンセル後は未送信のチャンクを aborted として failed に入れる。
+ */
+export async function runBatched<I, O>(
+  inputs: I[],
+  call: (chunk: I[], signal?: AbortSignal) => Promise<ApiResult<O[]>>,
+  options: Partial<BatchOptions> & BatchControl<I, O> = {},
+  isRetryable: (error: ApiError) => boolean = isTransientError
+): Promise<BatchResult<I, O>> {
+  const { signal, onChunkStart, onChunkDone, ...rest } = options;
+  const opts = { ...DEFAULT_BATCH_OPTIONS, ...rest };
+  const chunks = chunkArray(inputs, opts.chunkSize);
+  const outputs: (O[] | null)[] = chunks.map(() => null);
+  const failed: (FailedChunk<I> | null)[] = chunks.map(() => null);
+
+  let next = 0;
+
+  const fail = (index: number, error: ApiError, sent: boolean) => {
+    failed[index] = { inputs: chunks[index], error, sent };
+    onChunkDone?.(chunks[index], { ok: false, error }, sent);
+  };
+
+  const notSent = (message: string): ApiError => ({
+    kind: "aborted",
+    path: "",
+    message,
+  });
+
+  const runChunk = async (index: number) => {
+    const chunk = chunks[index];
+    onChunkStart?.(chunk);
+    for (let attempt = 0; ; attempt++) {
+      // 再試行待ちの間にキャンセルされたら送らずに終える
+      if (attempt > 0 && signal?.aborted) {
+        fail(index, notSent("cancelled before retry"), false);
+        return;
+      }
+      const res = await call(chunk, signal);
+      if (res.ok) {
+        outputs[index] = res.data;
+        onChunkDone?.(chunk, res, true);
+        return;
+      }
+      if (
+        attempt >= opts.maxRetries ||
+        !isRetryable(res.error) ||
+        signal?.aborted
+      ) {
+        fail(index, res.error, true);
+        return;
+      }
+      await sleep(opts.retryBaseMs * 2 ** attempt, signal);
+    }
+  };
+
+  const worker = async () => {
+    let first = true;
+    while (next < chunks.length) {
+      const index = next++;
+      if (!first && opts.delayMs > 0) await sleep(opts.delayMs, signal);
+      first = false;
+      if (signal?.aborted) {
+        fail(index, notSent("cancelled before sending"), false);
+        continue;
+      }
+      await runChunk(index);
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.min(Math.max(1, opts.concurrency), chunks.length) },
+    () => worker()
+  );
+  await Promise.all(workers);
+
+  return {
+    data: outputs.flatMap((o) => o ?? []),
+    failed: failed.filter((f): f is FailedChunk<I> => f !== null),
+  };
+}
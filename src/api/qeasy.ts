@@ -1,16 +1,40 @@
 // src/api/qeasy.ts
 // フロントから Qeasy API サーバ(server.mjs)を叩くためのラッパ
 
+import {
+  runBatched,
+  type BatchControl,
+  type BatchOptions,
+  type BatchResult,
+} from "./batch";
+
 export type AmazonItemInfo = {
   asin: string;
   price: number;
   sellerCount: number;
   title?: string;
+  /** Amazon のブランド名（取得できた場合） */
+  brand?: string;
   image?: string;
   isPrime?: boolean;
   shipDays?: number;
 };
 
+/** JAN → ASIN の解決結果（見つからなければ asin なし） */
+export type JanLookupResult = {
+  jan: string;
+  asin?: string;
+  title?: string;
+  message?: string;
+};
+
+/** 短縮 URL（amzn.asia / amzn.to / a.co）の展開結果（辿れなければ resolvedUrl なし） */
+export type ShortUrlResult = {
+  url: string;
+  resolvedUrl?: string;
+  message?: string;
+};
+
 export type Qoo10ListingPayload = {
   asin: string;
   price: number;
@@ -30,133 +54,467 @@ export type CreateListingResult = {
   qoo10ItemCode?: string;
 };
 
+export type Qoo10PriceUpdate = {
+  asin: string;
+  qoo10ItemCode: string;
+  price: number;
+};
+
+export type UpdatePriceResult = {
+  asin: string;
+  ok: boolean;
+  message?: string;
+  code?: string;
+};
+
+export type Qoo10StockUpdate = {
+  asin: string;
+  qoo10ItemCode: string;
+  stock: number;
+};
+
+export type UpdateStockResult = {
+  asin: string;
+  ok: boolean;
+  message?: string;
+  code?: string;
+};
+
+/**
+ * end: 販売終了（Qoo10 側で商品を終了） / suspend: 一時停止（再開可能）
+ * resume: 一時停止した商品の販売再開
+ */
+export type DelistMode = "end" | "suspend" | "resume";
+
+export type Qoo10DelistRequest = {
+  asin: string;
+  qoo10ItemCode: string;
+  mode: DelistMode;
+};
+
+export type DelistResult = {
+  asin: string;
+  ok: boolean;
+  message?: string;
+  code?: string;
+};
+
 export type QeasyItem = {
   asin: string;
   name: string;
   jan?: string;
   qoo10Id?: string;
+  qoo10Price?: number;
+  qoo10Stock?: number;
+  qoo10Suspended?: boolean;
+  endedQoo10Ids?: string[];
   mainImage?: string;
   amazonPrice?: number;
   inStock?: boolean;
+  sellerCount?: number;
+  salesRank?: number;
+  categoryOverride?: number;
+  brand?: string;
   updatedAt?: string;
 };
 
+export type ApiErrorKind =
+  | "network"
+  | "http"
+  | "validation"
+  | "timeout"
+  | "aborted";
+
+/**
+ * API 呼び出し失敗の種別
+ * - network: サーバ未接続・CORS 等で fetch 自体が失敗
+ * - http: 2xx 以外のステータス
+ * - validation: サーバ側の入力チェックで弾かれた（400 / 422）
+ * - timeout: 一定時間内に応答が無かった
+ * - aborted: 呼び出し側（キャンセルボタン等）で中断した
+ */
+export type ApiError =
+  | { kind: "network"; path: string; message: string }
+  | {
+      kind: "http";
+      path: string;
+      status: number;
+      statusText: string;
+      body?: string;
+      message: string;
+    }
+  | {
+      kind: "validation";
+      path: string;
+      status: number;
+      details?: unknown;
+      message: string;
+    }
+  | { kind: "timeout"; path: string; timeoutMs: number; message: string }
+  | { kind: "aborted"; path: string; message: string };
+
+export type ApiResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: ApiError };
+
 const API_BASE =
   import.meta.env.VITE_QEASY_API_BASE || "http://localhost:4000";
 
-async function getJson<T>(path: string): Promise<T> {
-  const res = await fetch(`${API_BASE}${path}`, {
-    method: "GET",
-    credentials: "include",
-  });
-  if (!res.ok) {
-    throw new Error(`${path} ${res.status} ${res.statusText}`);
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+/** 画面表示用のエラーメッセージ */
+export function describeApiError(error: ApiError): string {
+  switch (error.kind) {
+    case "network":
+      return `サーバに接続できませんでした（${error.path}）。server.mjs / qeasy-api が起動しているか確認してください。`;
+    case "timeout":
+      return `サーバの応答がタイムアウトしました（${error.path}, ${Math.round(
+        error.timeoutMs / 1000
+      )}秒）。`;
+    case "validation":
+      return `サーバが入力内容を受け付けませんでした（${error.path}）: ${error.message}`;
+    case "http":
+      return `APIエラー ${error.status} ${error.statusText}（${error.path}）`;
+    case "aborted":
+      return `処理をキャンセルしました（${error.path}）。`;
   }
-  return (await res.json()) as T;
 }
 
-async function postJson<T>(path: string, body: any): Promise<T> {
-  const res = await fetch(`${API_BASE}${path}`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    credentials: "include",
-    body: JSON.stringify(body),
+function parseJsonSafe(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+async function request<T>(
+  path: string,
+  init: RequestInit,
+  signal?: AbortSignal,
+  timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<ApiResult<T>> {
+  const aborted = (): ApiResult<T> => ({
+    ok: false,
+    error: { kind: "aborted", path, message: `${path} aborted` },
   });
+  if (signal?.aborted) return aborted();
+
+  // タイムアウトと呼び出し側のキャンセルを1つの signal にまとめる
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort);
 
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(
-      `${path} ${res.status} ${res.statusText} ${text}`.trim()
-    );
+  let res: Response;
+  try {
+    res = await fetch(`${API_BASE}${path}`, {
+      ...init,
+      credentials: "include",
+      signal: controller.signal,
+    });
+  } catch (e) {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+    if (signal?.aborted) return aborted();
+    if (controller.signal.aborted) {
+      return {
+        ok: false,
+        error: {
+          kind: "timeout",
+          path,
+          timeoutMs,
+          message: `${path} timed out after ${timeoutMs}ms`,
+        },
+      };
+    }
+    return {
+      ok: false,
+      error: {
+        kind: "network",
+        path,
+        message: e instanceof Error ? e.message : String(e),
+      },
+    };
   }
 
-  return (await res.json()) as T;
+  try {
+    const text = await res.text();
+
+    if (!res.ok) {
+      const parsed = parseJsonSafe(text) as
+        | { message?: string; error?: string; errors?: unknown }
+        | undefined;
+
+      if (res.status === 400 || res.status === 422) {
+        return {
+          ok: false,
+          error: {
+            kind: "validation",
+            path,
+            status: res.status,
+            details: parsed?.errors,
+            message:
+              parsed?.message || parsed?.error || text || res.statusText,
+          },
+        };
+      }
+
+      return {
+        ok: false,
+        error: {
+          kind: "http",
+          path,
+          status: res.status,
+          statusText: res.statusText,
+          body: text || undefined,
+          message: `${path} ${res.status} ${res.statusText} ${text}`.trim(),
+        },
+      };
+    }
+
+    return { ok: true, data: (text ? JSON.parse(text) : undefined) as T };
+  } catch (e) {
+    if (signal?.aborted) return aborted();
+    if (controller.signal.aborted) {
+      return {
+        ok: false,
+        error: {
+          kind: "timeout",
+          path,
+          timeoutMs,
+          message: `${path} timed out after ${timeoutMs}ms`,
+        },
+      };
+    }
+    return {
+      ok: false,
+      error: {
+        kind: "http",
+        path,
+        status: res.status,
+        statusText: res.statusText,
+        message: `${path} のレスポンスを解釈できませんでした: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      },
+    };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
 }
 
-/** Amazon 一括取得（server.mjs → Keepa or モック） */
+function getJson<T>(
+  path: string,
+  signal?: AbortSignal
+): Promise<ApiResult<T>> {
+  return request<T>(path, { method: "GET" }, signal);
+}
+
+function postJson<T>(
+  path: string,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<ApiResult<T>> {
+  return request<T>(
+    path,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    },
+    signal
+  );
+}
+
+/** Amazon 一括取得（server.mjs → Keepa or モック）。件数が多ければ分割送信 */
 export async function fetchAmazonBulk(
-  asins: string[]
-): Promise<AmazonItemInfo[]> {
-  if (!asins.length) return [];
-  try {
-    return await postJson<AmazonItemInfo[]>("/amazon/bulk", { asins });
-  } catch {
-    return [];
-  }
+  asins: string[],
+  batch?: Partial<BatchOptions> & BatchControl<string, AmazonItemInfo>
+): Promise<BatchResult<string, AmazonItemInfo>> {
+  return runBatched(
+    asins,
+    (chunk, signal) =>
+      postJson<AmazonItemInfo[]>("/amazon/bulk", { asins: chunk }, signal),
+    batch
+  );
+}
+
+/** JAN → ASIN 解決（server.mjs → Keepa の商品コード検索） */
+export async function lookupAsinsByJan(
+  jans: string[],
+  batch?: Partial<BatchOptions> & BatchControl<string, JanLookupResult>
+): Promise<BatchResult<string, JanLookupResult>> {
+  return runBatched(
+    jans,
+    (chunk, signal) =>
+      postJson<JanLookupResult[]>(
+        "/amazon/lookup-jan",
+        { jans: chunk },
+        signal
+      ),
+    batch
+  );
+}
+
+/** 短縮 URL の展開（server.mjs がリダイレクトを辿って最終 URL を返す） */
+export async function resolveShortUrls(
+  urls: string[],
+  batch?: Partial<BatchOptions> & BatchControl<string, ShortUrlResult>
+): Promise<BatchResult<string, ShortUrlResult>> {
+  return runBatched(
+    urls,
+    (chunk, signal) =>
+      postJson<ShortUrlResult[]>(
+        "/amazon/resolve-url",
+        { urls: chunk },
+        signal
+      ),
+    batch
+  );
 }
 
 /** Qoo10 既存チェック */
 export async function checkQoo10Existing(
-  asins: string[]
-): Promise<string[]> {
-  if (!asins.length) return [];
-  try {
-    return await postJson<string[]>("/qoo10/check-existing", { asins });
-  } catch {
-    return [];
+  asins: string[],
+  batch?: Partial<BatchOptions> & BatchControl<string, string>
+): Promise<BatchResult<string, string>> {
+  return runBatched(
+    asins,
+    (chunk, signal) =>
+      postJson<string[]>(
+        "/qoo10/check-existing",
+        { asins: chunk },
+        signal
+      ),
+    batch
+  );
+}
+
+/**
+ * 出品作成の再送可否。
+ * タイムアウトや 500 はサーバ側で登録済みの可能性があるため再送しない
+ * （二重出品防止）。明確に未処理と分かるものだけ再送する。
+ */
+function isSafeToResubmit(error: ApiError): boolean {
+  if (error.kind === "network") return true;
+  if (error.kind === "http") {
+    return error.status === 429 || error.status === 503;
   }
+  return false;
 }
 
 /** Qoo10 出品作成 */
 export async function createQoo10Listings(
-  items: Qoo10ListingPayload[]
-): Promise<CreateListingResult[]> {
-  if (!items.length) return [];
-  try {
-    return await postJson<CreateListingResult[]>("/qoo10/create-listings", {
-      items,
-    });
-  } catch {
-    // サーバ落ちてる場合もUI側で見えるようにする
-    return items.map((it) => ({
-      asin: it.asin,
-      ok: false,
-      message: "出品API呼び出しに失敗しました。（サーバ未接続の可能性）",
-    }));
-  }
+  items: Qoo10ListingPayload[],
+  batch?: Partial<BatchOptions> &
+    BatchControl<Qoo10ListingPayload, CreateListingResult>
+): Promise<BatchResult<Qoo10ListingPayload, CreateListingResult>> {
+  return runBatched(
+    items,
+    (chunk, signal) =>
+      postJson<CreateListingResult[]>(
+        "/qoo10/create-listings",
+        { items: chunk },
+        signal
+      ),
+    batch,
+    isSafeToResubmit
+  );
 }
 
-/** 設定取得 */
-export async function fetchSettings(): Promise<any | null> {
-  try {
-    return await getJson<any>("/settings");
-  } catch {
-    return null;
-  }
+/** Qoo10 販売価格の改定（同じ価格の再送は無害なので通常の再試行で良い） */
+export async function updateQoo10Prices(
+  items: Qoo10PriceUpdate[],
+  batch?: Partial<BatchOptions> &
+    BatchControl<Qoo10PriceUpdate, UpdatePriceResult>
+): Promise<BatchResult<Qoo10PriceUpdate, UpdatePriceResult>> {
+  return runBatched(
+    items,
+    (chunk, signal) =>
+      postJson<UpdatePriceResult[]>(
+        "/qoo10/update-prices",
+        { items: chunk },
+        signal
+      ),
+    batch
+  );
+}
+
+/** Qoo10 在庫数の更新（0 で販売停止。同じ値の再送は無害） */
+export async function updateQoo10Stocks(
+  items: Qoo10StockUpdate[],
+  batch?: Partial<BatchOptions> &
+    BatchControl<Qoo10StockUpdate, UpdateStockResult>
+): Promise<BatchResult<Qoo10StockUpdate, UpdateStockResult>> {
+  return runBatched(
+    items,
+    (chunk, signal) =>
+      postJson<UpdateStockResult[]>(
+        "/qoo10/update-stock",
+        { items: chunk },
+        signal
+      ),
+    batch
+  );
+}
+
+/** Qoo10 出品の販売終了・一時停止・再開（同じ指示の再送は無害） */
+export async function delistQoo10Items(
+  items: Qoo10DelistRequest[],
+  batch?: Partial<BatchOptions> &
+    BatchControl<Qoo10DelistRequest, DelistResult>
+): Promise<BatchResult<Qoo10DelistRequest, DelistResult>> {
+  return runBatched(
+    items,
+    (chunk, signal) =>
+      postJson<DelistResult[]>("/qoo10/delist", { items: chunk }, signal),
+    batch
+  );
+}
+
+/** 設定取得（サーバ側に未保存なら data は null） */
+export async function fetchSettings<T>(): Promise<ApiResult<T | null>> {
+  const res = await getJson<T | null>("/settings");
+  if (res.ok) return { ok: true, data: res.data ?? null };
+  return res;
 }
 
 /** 設定保存 */
-export async function saveSettings(settings: any): Promise<void> {
-  try {
-    await postJson<{}>("/settings", settings);
-  } catch {
-    // サーバ未実装でも無視
-  }
+export async function saveSettings<T>(
+  settings: T
+): Promise<ApiResult<void>> {
+  return postJson<void>("/settings", settings);
 }
 
 /** 商品一覧取得 */
-export async function fetchItems(): Promise<QeasyItem[]> {
-  try {
-    return await getJson<QeasyItem[]>("/items");
-  } catch {
-    return [];
-  }
+export async function fetchItems(): Promise<ApiResult<QeasyItem[]>> {
+  const res = await getJson<QeasyItem[]>("/items");
+  if (res.ok) return { ok: true, data: res.data ?? [] };
+  return res;
 }
 
 /** 商品一覧保存 */
-export async function saveItems(items: QeasyItem[]): Promise<void> {
-  try {
-    await postJson<{}>("/items", { items });
-  } catch {
-    // サーバ未実装でも無視
-  }
+export async function saveItems(
+  items: QeasyItem[]
+): Promise<ApiResult<void>> {
+  return postJson<void>("/items", { items });
 }
 
 /** 最新化トリガー（定期バッチ用） */
-export async function refreshItems(): Promise<void> {
-  try {
-    await postJson<{}>("/items/refresh", {});
-  } catch {
-    // 失敗しても致命的ではないので握りつぶす
-  }
+export async function refreshItems(): Promise<ApiResult<void>> {
+  return postJson<void>("/items/refresh", {});
+}
+
+/** 出品履歴取得（新しい順） */
+export async function fetchListingRuns<T>(): Promise<ApiResult<T[]>> {
+  const res = await getJson<T[]>("/listing-runs");
+  if (res.ok) return { ok: true, data: res.data ?? [] };
+  return res;
+}
+
+/** 出品履歴を1件追加 */
+export async function saveListingRun<T>(run: T): Promise<ApiResult<void>> {
+  return postJson<void>("/listing-runs", { run });
 }
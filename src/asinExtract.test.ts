@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+
+import { asinFromUrl, extractIdentifiers } from "./asinExtract";
+
+describe("extractIdentifiers", () => {
+  it("reads ASINs from product URLs and bare codes", () => {
+    const r = extractIdentifiers(
+      "https://www.amazon.co.jp/dp/B07MNQ8M4G?th=1\nB012345678"
+    );
+    expect(r.asins).toEqual(["B07MNQ8M4G", "B012345678"]);
+    expect(r.unresolved).toEqual([]);
+  });
+
+  it("collects short URLs for the server to resolve", () => {
+    const r = extractIdentifiers(
+      "https://amzn.asia/d/abc123 amzn.to/3xyz https://a.co/d/9k"
+    );
+    expect(r.shortUrls).toEqual([
+      "https://amzn.asia/d/abc123",
+      "amzn.to/3xyz",
+      "https://a.co/d/9k",
+    ]);
+    expect(r.asins).toEqual([]);
+    expect(r.unresolved).toEqual([]);
+  });
+});
+
+describe("asinFromUrl", () => {
+  it("reads the ASIN from a resolved short URL", () => {
+    expect(
+      asinFromUrl(
+        "https://www.amazon.co.jp/gp/product/b07mnq8m4g/ref=cm_sw_r_cp"
+      )
+    ).toBe("B07MNQ8M4G");
+    expect(asinFromUrl("https://www.amazon.co.jp/s?k=shampoo")).toBeUndefined();
+  });
+});
@@ -0,0 +1,103 @@
+// src/asinExtract.ts
+// 貼り付けテキスト（Amazon URL・スプレッドシートのコピー等）から ASIN / JAN を抜き出す
+
+export type UnresolvedInput = {
+  input: string;
+  reason: string;
+};
+
+export type ExtractedIdentifiers = {
+  /** 出現順・重複なし */
+  asins: string[];
+  /** 13桁 / 8桁、チェックディジット検証済み・重複なし */
+  jans: string[];
+  /** amzn.asia / amzn.to / a.co。サーバでリダイレクト先を辿ってから asinFromUrl にかける */
+  shortUrls: string[];
+  unresolved: UnresolvedInput[];
+};
+
+// /dp/ASIN, /gp/product/ASIN, /gp/aw/d/ASIN, /product/ASIN, /exec/obidos/ASIN/ASIN
+const URL_ASIN_PATTERN =
+  /\/(?:dp|gp\/product|gp\/aw\/d|product|exec\/obidos\/asin|o\/asin)\/([A-Z0-9]{10})(?=[/?#&]|$)/i;
+
+// 短縮 URL はブラウザから辿れない（CORS）ので、展開はサーバに任せる
+const SHORT_URL_PATTERN = /^(?:https?:\/\/)?(?:amzn\.asia|amzn\.to|a\.co)\//i;
+
+// URL 以外で単独の ASIN とみなす形（B0 始まり、または ISBN-10）
+const BARE_ASIN_PATTERN = /^(?:B0[A-Z0-9]{8}|\d{9}[\dX])$/i;
+
+/** EAN-13 / EAN-8 のチェックディジット検証 */
+export function isValidJan(code: string): boolean {
+  if (!/^(\d{13}|\d{8})$/.test(code)) return false;
+  const digits = code.split("").map(Number);
+  const check = digits.pop() as number;
+  // 右から奇数桁 ×3、偶数桁 ×1
+  const sum = digits
+    .reverse()
+    .reduce((acc, d, i) => acc + d * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+/** 商品ページの URL から ASIN を取り出す（短縮 URL の展開結果にも使う） */
+export function asinFromUrl(url: string): string | undefined {
+  return url.match(URL_ASIN_PATTERN)?.[1].toUpperCase();
+}
+
+export function extractIdentifiers(text: string): ExtractedIdentifiers {
+  const asins = new Set<string>();
+  const jans = new Set<string>();
+  const shortUrls = new Set<string>();
+  const unresolved: UnresolvedInput[] = [];
+
+  const tokens = text
+    .split(/[\s,;"'<>()「」、，]+/)
+    .map((t) => t.trim())
+    .filter(Boolean);
+
+  for (const token of tokens) {
+    const fromUrl = asinFromUrl(token);
+    if (fromUrl) {
+      asins.add(fromUrl);
+      continue;
+    }
+    if (SHORT_URL_PATTERN.test(token)) {
+      shortUrls.add(token);
+      continue;
+    }
+    if (/^https?:\/\//i.test(token) || /amazon\./i.test(token)) {
+      unresolved.push({
+        input: token,
+        reason: "URLからASINが見つかりません。",
+      });
+      continue;
+    }
+    if (BARE_ASIN_PATTERN.test(token)) {
+      asins.add(token.toUpperCase());
+      continue;
+    }
+    if (/^\d{8}$|^\d{13}$/.test(token)) {
+      if (isValidJan(token)) jans.add(token);
+      else {
+        unresolved.push({
+          input: token,
+          reason: "JANのチェックディジットが一致しません。",
+        });
+      }
+      continue;
+    }
+    // 見出しや商品名などの単語は黙って無視し、ASIN/JAN に近い形だけ知らせる
+    if (/^[A-Z0-9]{10}$/i.test(token) || /^\d{7,14}$/.test(token)) {
+      unresolved.push({
+        input: token,
+        reason: "ASIN・JANの形式ではありません。",
+      });
+    }
+  }
+
+  return {
+    asins: Array.from(asins),
+    jans: Array.from(jans),
+    shortUrls: Array.from(shortUrls),
+    unresolved,
+  };
+}
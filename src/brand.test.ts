@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import { findBlockedBrand, type BrandRule } from "./brand";
+
+const block = (brand: string): BrandRule => ({
+  brand,
+  list: "block",
+  reason: "",
+});
+
+describe("findBlockedBrand", () => {
+  const rules = [block("ACME")];
+
+  it("matches the brand field exactly, ignoring width and case", () => {
+    expect(findBlockedBrand(rules, "ＡＣＭＥ", "")).toBe(rules[0]);
+    expect(findBlockedBrand(rules, "ACME Japan", "")).toBeUndefined();
+    expect(findBlockedBrand(rules, "PACMEN", "")).toBeUndefined();
+  });
+
+  it("matches the brand as a whole word in the title", () => {
+    expect(findBlockedBrand(rules, undefined, "ACME 対応 ケーブル")).toBe(
+      rules[0]
+    );
+    expect(findBlockedBrand(rules, undefined, "[acme] 互換トナー")).toBe(
+      rules[0]
+    );
+  });
+
+  it("does not match the brand inside another word", () => {
+    expect(
+      findBlockedBrand(rules, "Other", "PACMEN フィギュア")
+    ).toBeUndefined();
+    expect(findBlockedBrand(rules, "Other", "ACMEX ケーブル")).toBeUndefined();
+  });
+
+  it("ignores allow rules and empty brands", () => {
+    const allow: BrandRule = { brand: "ACME", list: "allow", reason: "" };
+    expect(
+      findBlockedBrand([allow, block(" ")], "ACME", "ACME")
+    ).toBeUndefined();
+  });
+});
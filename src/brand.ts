@@ -0,0 +1,84 @@
+// src/brand.ts
+// ブランドの取得と、出品禁止ブランド・許可ブランドの照合（知財リスク対策）
+//
+// - ブランドは Amazon 情報の brand → 商品に保存済みの brand → タイトル先頭の語 の順で決める
+// - 禁止リストはブランド一致に加えてタイトル中の出現でも当てる（「○○ 対応」「○○ 互換」も止めたい）。
+//   タイトルは wordRules の単語一致で見る（「ACME」で「ACMEX」「PACMEN」を止めない）
+// - 許可リストはブランドが一致したときだけ。出品者数1人以下の除外を免除する
+
+import type { AmazonItemInfo } from "./api/qeasy";
+import { normalizeText } from "./textNormalize";
+import type { Product } from "./types";
+import { newWordRule, wordRuleMatchesText } from "./wordRules";
+
+export type BrandListKind = "block" | "allow";
+
+export type BrandRule = {
+  brand: string;
+  list: BrandListKind;
+  /** 登録理由（削除申請を受けた、自社ブランド など） */
+  reason: string;
+};
+
+export const BRAND_LIST_LABEL: Record<BrandListKind, string> = {
+  block: "出品禁止",
+  allow: "許可",
+};
+
+// タイトル先頭の【Amazon.co.jp限定】[2個セット] などはブランドではない
+const LEADING_TAGS =
+  /^(\s*(【[^】]*】|\[[^\]]*\]|［[^］]*］|\([^)]*\)|（[^）]*）))+/;
+
+/** ブランドとみなす先頭の語の最大文字数 */
+const MAX_BRAND_LENGTH = 30;
+
+/** タイトル先頭の語をブランドとみなす（数字だけ・長すぎる語は除く） */
+export function extractBrandFromTitle(
+  title: string | undefined
+): string | undefined {
+  const head = (title ?? "").replace(LEADING_TAGS, "").trim().split(/\s+/)[0];
+  if (!head || head.length > MAX_BRAND_LENGTH || /^[0-9０-９]/.test(head)) {
+    return undefined;
+  }
+  return head;
+}
+
+export function resolveBrand(
+  info: AmazonItemInfo | undefined,
+  p: Product
+): string | undefined {
+  return (
+    info?.brand?.trim() ||
+    p.brand?.trim() ||
+    extractBrandFromTitle(info?.title || p.name)
+  );
+}
+
+/** 該当する禁止ブランド（無ければ undefined）。ブランドは完全一致、タイトルは単語一致 */
+export function findBlockedBrand(
+  rules: BrandRule[],
+  brand: string | undefined,
+  title: string
+): BrandRule | undefined {
+  const b = normalizeText(brand);
+  return rules.find((r) => {
+    if (r.list !== "block") return false;
+    const kw = normalizeText(r.brand);
+    if (!kw) return false;
+    return (
+      kw === b ||
+      wordRuleMatchesText({ ...newWordRule(r.brand), mode: "word" }, title)
+    );
+  });
+}
+
+/** 許可ブランドか（ブランドが一致したときだけ） */
+export function isAllowedBrand(
+  rules: BrandRule[],
+  brand: string | undefined
+): boolean {
+  const b = normalizeText(brand);
+  return (
+    !!b && rules.some((r) => r.list === "allow" && normalizeText(r.brand) === b)
+  );
+}
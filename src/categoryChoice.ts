@@ -0,0 +1,119 @@
+// src/categoryChoice.ts
+// 出品時の Qoo10 カテゴリ決定（設定の手動マップ＋タイトルからの自動推定）
+
+import type { AmazonItemInfo } from "./api/qeasy";
+import {
+  BEAUTY_MAIN_CODE,
+  CATEGORY_CONFIDENCE_LABEL,
+  classifyQoo10Category,
+  describeCategoryDecision,
+  UNKNOWN_CATEGORY,
+  type Qoo10CategoryDecision,
+} from "./qoo10Category";
+import { normalizeText } from "./textNormalize";
+import type { Product, SettingsState } from "./types";
+
+export type CategorySource = "override" | "manual_map" | "auto" | "disabled";
+
+/** カテゴリ決定の結果と根拠 */
+export type CategoryChoice = {
+  /** Qoo10 に渡す SecondSubCat。決まらなければ undefined */
+  categoryNo: number | undefined;
+  source: CategorySource;
+  /** 手動マップで当たったキーワード */
+  mapKeyword?: string;
+  /** 自動推定の判定内容（source === "auto" のときだけ） */
+  decision?: Qoo10CategoryDecision;
+  /** 自動推定で判定できない（unknown）か信頼度が低く、手動確認が必要 */
+  needsReview: boolean;
+};
+
+/**
+ * 商品ごとの指定 → 手動マップ → 自動推定（classifyQoo10Category）の順でカテゴリを決定し、根拠を返す。
+ * どのキーワードにも当たらない場合はカテゴリを決めず、信頼度が低い場合は
+ * カテゴリを示したうえで needsReview を立てる。
+ */
+export const explainCategory = (
+  info: AmazonItemInfo | undefined,
+  p: Product,
+  settings: SettingsState
+): CategoryChoice => {
+  // 1. 商品ごとに指定したカテゴリ
+  if (p.categoryOverride) {
+    return {
+      categoryNo: p.categoryOverride,
+      source: "override",
+      needsReview: false,
+    };
+  }
+
+  const rawTitle = info?.title || p.name || "";
+  const normalizedTitle = normalizeText(rawTitle);
+
+  // 2. 手動カテゴリマップ（キーワード → カテゴリNo）
+  for (const [key, cat] of Object.entries(settings.categoryMap)) {
+    if (!key) continue;
+    if (normalizedTitle.includes(normalizeText(key))) {
+      return {
+        categoryNo: cat,
+        source: "manual_map",
+        mapKeyword: key,
+        needsReview: false,
+      };
+    }
+  }
+
+  // 3. 自動判定を使わない設定ならここまで
+  if (!settings.autoCategoryEnabled) {
+    return { categoryNo: undefined, source: "disabled", needsReview: false };
+  }
+
+  // 4. ビューティ系細分けを含む自動推定
+  const decision = classifyQoo10Category(rawTitle, settings.categoryRules);
+
+  if (decision.main === UNKNOWN_CATEGORY) {
+    return {
+      categoryNo: undefined,
+      source: "auto",
+      decision,
+      needsReview: true,
+    };
+  }
+
+  // ビューティは beautySecondSubCat を SecondSubCat として使う
+  // それ以外（サプリ／家電／食品など）は main をそのまま SecondSubCat として扱う
+  const code =
+    decision.main === BEAUTY_MAIN_CODE
+      ? decision.beautySecondSubCat
+      : decision.main;
+
+  return {
+    categoryNo: code ? Number(code) : undefined,
+    source: "auto",
+    decision,
+    needsReview: decision.confidence === "low",
+  };
+};
+
+/**
+ * カテゴリNoだけが必要な箇所（価格ルール・利益試算など）用。
+ * explainCategory と同じく 商品ごとの指定 → 手動マップ → 自動推定が無効なら undefined → 自動推定 の順。
+ * 判定不能（unknown）なら undefined だが、信頼度が低いだけの要確認の商品は推定したカテゴリNoを返す
+ * （どちらも出品は listingRules の categoryReviewRule で止める）。
+ */
+export const chooseCategory = (
+  info: AmazonItemInfo | undefined,
+  p: Product,
+  settings: SettingsState
+): number | undefined => explainCategory(info, p, settings).categoryNo;
+
+/** 根拠の短い説明（一覧・プレビュー表示用） */
+export function describeCategoryChoice(choice: CategoryChoice): string {
+  if (choice.source === "override") return "商品ごとに指定";
+  if (choice.source === "manual_map") {
+    return `手動マップ「${choice.mapKeyword}」`;
+  }
+  if (!choice.decision) return "自動推定オフ";
+  const confidence = CATEGORY_CONFIDENCE_LABEL[choice.decision.confidence];
+  return `推定(信頼度${confidence}) ${describeCategoryDecision(choice.decision)}`;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+
+import { addKeywordToRules } from "./categorySuggest";
+import type { CategoryRules } from "./qoo10Category";
+
+const RULES: CategoryRules = {
+  mainRules: [
+    { code: "130000", label: "サプリ", keywords: ["青汁"], requireAny: [] },
+  ],
+  beautyRules: [
+    { code: "120000012", label: "スキンケア", keywords: ["化粧水"] },
+  ],
+};
+
+describe("addKeywordToRules", () => {
+  it("adds the keyword to the rule with the same code", () => {
+    expect(addKeywordToRules(RULES, "美容液", 120000012).beautyRules).toEqual([
+      {
+        code: "120000012",
+        label: "スキンケア",
+        keywords: ["化粧水", "美容液"],
+      },
+    ]);
+    expect(
+      addKeywordToRules(RULES, "酵素", 130000).mainRules[0].keywords
+    ).toEqual(["青汁", "酵素"]);
+  });
+
+  it("adds a main rule for a code that has none", () => {
+    expect(
+      addKeywordToRules(RULES, "歯ブラシ", 100000018).mainRules
+    ).toHaveLength(2);
+  });
+
+  it("leaves the rules unchanged for the beauty main category", () => {
+    expect(addKeywordToRules(RULES, "シャンプー", 120000)).toBe(RULES);
+  });
+});
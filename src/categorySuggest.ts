@@ -0,0 +1,191 @@
+// src/categorySuggest.ts
+// 商品ごとのカテゴリ指定（Product.categoryOverride）からキーワード候補を作る
+//
+// - 同じカテゴリに指定された商品のタイトルに共通する語を候補にする
+// - 別のカテゴリに指定された商品にも含まれる語は、マップにすると誤爆するので出さない
+// - 採用はカテゴリマップへの追加か、自動推定のキーワード表への追加を選べる
+
+import { explainCategory } from "./categoryChoice";
+import { catalogueLabelOf } from "./qoo10Catalogue";
+import { BEAUTY_MAIN_CODE, type CategoryRules } from "./qoo10Category";
+import { normalizeText } from "./textNormalize";
+import type { Product, SettingsState } from "./types";
+
+export type CategorySuggestion = {
+  keyword: string;
+  categoryNo: number;
+  /** この語を含み、同じカテゴリに指定された商品数 */
+  support: number;
+  /** 採用すると現在のカテゴリから変わる商品数（指定済みの商品は除く） */
+  recategorized: number;
+  /** recategorized の例（最大3件の商品名） */
+  examples: string[];
+};
+
+/** 候補にするのに必要な、指定済み商品の最小件数 */
+const MIN_SUPPORT = 2;
+
+const MAX_SUGGESTIONS = 30;
+
+const TOKEN_SEPARATORS =
+  /[\s\u3000【】［］[\]()（）「」『』〈〉《》<>・,，、。.／/|｜:：;；!！?？+＋~〜"'”“’‘*＊#＃&＆=＝_-]+/;
+
+/**
+ * タイトル → 候補語（正規化した語 → 元の表記）。
+ * 2文字以上で、数字始まりの容量・個数表記は除く。
+ */
+function tokensOf(title: string): Map<string, string> {
+  const tokens = new Map<string, string>();
+  for (const raw of title.split(TOKEN_SEPARATORS)) {
+    const t = raw.trim();
+    if (t.length < 2 || /^[0-9０-９]/.test(t)) continue;
+    const key = normalizeText(t);
+    if (!tokens.has(key)) tokens.set(key, t);
+  }
+  return tokens;
+}
+
+/** 却下リストに残すキー */
+export const categorySuggestionKey = (s: {
+  keyword: string;
+  categoryNo: number;
+}): string => `${s.keyword}→${s.categoryNo}`;
+
+export function suggestCategoryKeywords(
+  products: Product[],
+  settings: SettingsState
+): CategorySuggestion[] {
+  const overridden = products.filter((p) => p.categoryOverride);
+  if (!overridden.length) return [];
+
+  const mapKeys = new Set(
+    Object.keys(settings.categoryMap).map((k) => normalizeText(k))
+  );
+  const rejected = new Set(settings.rejectedCategorySuggestions);
+  // キーワード表に採用済みの語（同じコードのルールにあるもの）
+  const inRules = new Set(
+    [
+      ...settings.categoryRules.mainRules,
+      ...settings.categoryRules.beautyRules,
+    ].flatMap((r) =>
+      r.keywords.map((kw) =>
+        categorySuggestionKey({
+          keyword: normalizeText(kw),
+          categoryNo: Number(r.code),
+        })
+      )
+    )
+  );
+
+  // 語（正規化） → カテゴリNo → 件数
+  const counts = new Map<string, Map<number, number>>();
+  const original = new Map<string, string>();
+  for (const p of overridden) {
+    for (const [token, raw] of tokensOf(p.name)) {
+      if (!original.has(token)) original.set(token, raw);
+      const byCategory = counts.get(token) ?? new Map<number, number>();
+      const cat = p.categoryOverride as number;
+      byCategory.set(cat, (byCategory.get(cat) ?? 0) + 1);
+      counts.set(token, byCategory);
+    }
+  }
+
+  const suggestions: CategorySuggestion[] = [];
+  for (const [token, byCategory] of counts) {
+    if (byCategory.size !== 1 || mapKeys.has(token)) continue;
+    const [[categoryNo, support]] = [...byCategory];
+    if (support < MIN_SUPPORT) continue;
+    const keyword = original.get(token) ?? token;
+    if (rejected.has(categorySuggestionKey({ keyword, categoryNo }))) continue;
+    if (inRules.has(categorySuggestionKey({ keyword: token, categoryNo }))) {
+      continue;
+    }
+
+    // マップは部分一致なので、トークン単位でなくタイトル全体で衝突を見る
+    const conflicts = overridden.some(
+      (p) =>
+        p.categoryOverride !== categoryNo &&
+        normalizeText(p.name).includes(token)
+    );
+    if (conflicts) continue;
+
+    const moved = products.filter(
+      (p) =>
+        !p.categoryOverride &&
+        normalizeText(p.name).includes(token) &&
+        explainCategory(undefined, p, settings).categoryNo !== categoryNo
+    );
+    suggestions.push({
+      keyword,
+      categoryNo,
+      support,
+      recategorized: moved.length,
+      examples: moved.slice(0, 3).map((p) => p.name),
+    });
+  }
+
+  return suggestions
+    .sort(
+      (a, b) =>
+        b.support - a.support ||
+        b.recategorized - a.recategorized ||
+        b.keyword.length - a.keyword.length
+    )
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * キーワード表に足せるカテゴリか。ビューティの大分類（120000）は細分けが決まらず
+ * カテゴリNoが付かないまま出品されるので、カテゴリマップにだけ足せる
+ */
+export const canAddKeywordToRules = (categoryNo: number): boolean =>
+  String(categoryNo) !== BEAUTY_MAIN_CODE;
+
+/**
+ * 自動推定のキーワード表に語を足す。
+ * 同じコードのルールがあればそこへ、無ければメインカテゴリ判定の末尾にルールを作る。
+ * 足せないカテゴリ（canAddKeywordToRules）なら表はそのまま。
+ */
+export function addKeywordToRules(
+  rules: CategoryRules,
+  keyword: string,
+  categoryNo: number
+): CategoryRules {
+  if (!canAddKeywordToRules(categoryNo)) return rules;
+  const code = String(categoryNo);
+  const withKeyword = <T extends { keywords: string[] }>(r: T): T =>
+    r.keywords.includes(keyword)
+      ? r
+      : { ...r, keywords: [...r.keywords, keyword] };
+
+  const mainIndex = rules.mainRules.findIndex((r) => r.code === code);
+  if (mainIndex >= 0) {
+    return {
+      ...rules,
+      mainRules: rules.mainRules.map((r, j) =>
+        j === mainIndex ? withKeyword(r) : r
+      ),
+    };
+  }
+  const beautyIndex = rules.beautyRules.findIndex((r) => r.code === code);
+  if (beautyIndex >= 0) {
+    return {
+      ...rules,
+      beautyRules: rules.beautyRules.map((r, j) =>
+        j === beautyIndex ? withKeyword(r) : r
+      ),
+    };
+  }
+  return {
+    ...rules,
+    mainRules: [
+      ...rules.mainRules,
+      {
+        code,
+        label: catalogueLabelOf(code) ?? "",
+        keywords: [keyword],
+        requireAny: [],
+      },
+    ],
+  };
+}
@@ -0,0 +1,181 @@
+// src/claimCheck.ts
+// 化粧品・サプリのタイトルに含まれる薬機法上リスクのある表現のチェック
+//
+// - 削除ワード（stripWords）を適用した後のタイトルに対して、決定したカテゴリNoで照合する
+// - 「削除」は表現をタイトルから取り除いて出品、「要確認」は出品せずに除外する（listingRules の claimRule）
+// - 削除しても消しきれなかった場合（表記ゆれで元の文字列が一致しない等）は要確認として扱う
+// - 照合は wordRules と同じ（部分一致・単語一致は正規化済み、正規表現は元の文字列）
+
+import {
+  applyRuleOverrides,
+  ruleOverridesOf,
+  toRuleOverrides,
+  type RuleOverrides,
+} from "./ruleOverrides";
+import {
+  eraseWordRule,
+  ruleKeyOf,
+  wordRuleError,
+  wordRuleMatchesText,
+  type WordMatchMode,
+  type WordRule,
+} from "./wordRules";
+
+export type ClaimAction = "flag" | "remove";
+
+export type ClaimRule = {
+  pattern: string;
+  mode: WordMatchMode;
+  action: ClaimAction;
+  /** 対象カテゴリNoの先頭（例: "120000"）。空ならすべてのカテゴリ */
+  categories: string[];
+  /** 理由（除外メッセージ・プレビューに表示） */
+  note: string;
+};
+
+export const CLAIM_ACTION_LABEL: Record<ClaimAction, string> = {
+  flag: "要確認（除外）",
+  remove: "削除して出品",
+};
+
+/** ビューティ・サプリ（qoo10Catalogue のグループコード） */
+const BEAUTY_AND_SUPPLEMENT = ["120000", "130000"];
+const SUPPLEMENT = ["130000"];
+
+const claim = (
+  pattern: string,
+  action: ClaimAction,
+  note: string,
+  categories: string[] = BEAUTY_AND_SUPPLEMENT,
+  mode: WordMatchMode = "contains"
+): ClaimRule => ({ pattern, mode, action, categories, note });
+
+/** 既定の辞書。網羅ではないので、指摘を受けた表現は設定画面で追加する */
+export const DEFAULT_CLAIM_RULES: ClaimRule[] = [
+  claim("医薬品", "flag", "医薬品と誤認される表示", []),
+  claim("治る", "flag", "疾病の治療効果"),
+  claim("治す", "flag", "疾病の治療効果"),
+  claim("完治", "flag", "疾病の治療効果"),
+  claim("治療", "flag", "疾病の治療効果"),
+  claim("効く", "flag", "効能効果の標ぼう"),
+  claim(
+    "(シミ|しみ|シワ|しわ|ニキビ)(が|を)?(消え|消す|消せ|なくな|無くな)",
+    "flag",
+    "肌トラブルが消える表現",
+    BEAUTY_AND_SUPPLEMENT,
+    "regex"
+  ),
+  // 痩身効果は健康食品・お茶でも問題になる（食品のカテゴリNoが決まったら対象に加える）
+  claim("痩せる", "flag", "痩身効果"),
+  claim("やせる", "flag", "痩身効果"),
+  claim("脂肪燃焼", "flag", "痩身効果"),
+  claim("若返", "flag", "老化防止の効果"),
+  claim("発毛", "flag", "医薬品的な効能"),
+  claim(
+    "副作用(なし|が?ない|ゼロ)",
+    "flag",
+    "安全性の保証",
+    BEAUTY_AND_SUPPLEMENT,
+    "regex"
+  ),
+  claim(
+    "免疫力?(を)?(高め|アップ|向上)",
+    "flag",
+    "身体機能の増強",
+    SUPPLEMENT,
+    "regex"
+  ),
+  claim(
+    "(血圧|血糖値?|コレステロール)(を)?(下げ|改善)",
+    "flag",
+    "疾病の予防・改善",
+    SUPPLEMENT,
+    "regex"
+  ),
+  claim("最強", "remove", "最大級表現"),
+  claim("奇跡の", "remove", "最大級表現"),
+  claim("魔法の", "remove", "最大級表現"),
+  claim("No.1", "remove", "根拠の無い順位表示"),
+];
+
+/** 保存用：既定の辞書からの変更分 */
+export const claimRuleOverridesOf = (
+  rules: ClaimRule[]
+): RuleOverrides<ClaimRule> =>
+  ruleOverridesOf(DEFAULT_CLAIM_RULES, rules, ruleKeyOf);
+
+/** 読み込み時：最新の既定の辞書に変更分を重ねる（以前の辞書全体の保存にも対応） */
+export const withClaimRuleOverrides = (
+  saved: RuleOverrides<ClaimRule> | ClaimRule[] | undefined
+): ClaimRule[] =>
+  applyRuleOverrides(
+    DEFAULT_CLAIM_RULES,
+    toRuleOverrides(saved, DEFAULT_CLAIM_RULES, ruleKeyOf),
+    ruleKeyOf
+  );
+
+export const newClaimRule = (pattern = ""): ClaimRule => ({
+  pattern,
+  mode: "contains",
+  action: "flag",
+  categories: BEAUTY_AND_SUPPLEMENT,
+  note: "",
+});
+
+/** カテゴリが対象か（カテゴリ未決定のときは安全側で対象にする） */
+export function claimRuleAppliesTo(
+  rule: ClaimRule,
+  categoryNo: number | undefined
+): boolean {
+  if (!rule.categories.length || categoryNo === undefined) return true;
+  const code = String(categoryNo);
+  return rule.categories.some((c) => code.startsWith(c.trim()));
+}
+
+const asWordRule = (rule: ClaimRule): WordRule => ({
+  pattern: rule.pattern,
+  mode: rule.mode,
+  scope: "title",
+  note: rule.note,
+});
+
+/** 正規表現として不正なら理由を返す（設定画面の入力チェック用） */
+export const claimRuleError = (rule: ClaimRule): string | undefined =>
+  wordRuleError(asWordRule(rule));
+
+export type ClaimCheckResult = {
+  /** 「削除」の表現を取り除いたタイトル */
+  title: string;
+  removed: ClaimRule[];
+  /** 出品せずに確認が必要な表現 */
+  flagged: ClaimRule[];
+};
+
+export function checkClaims(
+  title: string,
+  categoryNo: number | undefined,
+  rules: ClaimRule[]
+): ClaimCheckResult {
+  let t = title;
+  const removed: ClaimRule[] = [];
+  const flagged: ClaimRule[] = [];
+  for (const rule of rules) {
+    if (!rule.pattern || !claimRuleAppliesTo(rule, categoryNo)) continue;
+    const wr = asWordRule(rule);
+    if (!wordRuleMatchesText(wr, t)) continue;
+    if (rule.action === "remove") {
+      const erased = eraseWordRule(t, wr).replace(/\s+/g, " ").trim();
+      if (!wordRuleMatchesText(wr, erased)) {
+        t = erased;
+        removed.push(rule);
+        continue;
+      }
+    }
+    flagged.push(rule);
+  }
+  return { title: t, removed, flagged };
+}
+
+/** 理由付きの表示（例: 治る（疾病の治療効果）） */
+export const describeClaimRule = (rule: ClaimRule): string =>
+  rule.note ? `${rule.pattern}（${rule.note}）` : rule.pattern;
@@ -0,0 +1,85 @@
+// src/components/AsinPasteBox.tsx
+// ASIN・Amazon URL・JAN の貼り付け取込
+
+import React, { useMemo, useState } from "react";
+
+import { extractIdentifiers, type UnresolvedInput } from "../asinExtract";
+
+type AsinPasteBoxProps = {
+  busy: boolean;
+  /** 直前の取込で JAN・短縮URL から ASIN を解決できなかったもの */
+  lookupFailures: UnresolvedInput[];
+  onSubmit: (asins: string[], jans: string[], shortUrls: string[]) => void;
+  onClose: () => void;
+};
+
+const AsinPasteBox: React.FC<AsinPasteBoxProps> = ({
+  busy,
+  lookupFailures,
+  onSubmit,
+  onClose,
+}) => {
+  const [text, setText] = useState("");
+  const extracted = useMemo(() => extractIdentifiers(text), [text]);
+  const unresolved = [...extracted.unresolved, ...lookupFailures];
+
+  return (
+    <div className="preview-box">
+      <div className="progress-header">
+        <div className="result-title">
+          ASIN・URL・JAN を貼り付け（ASIN {extracted.asins.length}件 ／ JAN{" "}
+          {extracted.jans.length}件
+          {extracted.shortUrls.length > 0 &&
+            ` ／ 短縮URL ${extracted.shortUrls.length}件`}
+          ）
+        </div>
+        <button className="btn btn-pink" onClick={onClose} disabled={busy}>
+          閉じる
+        </button>
+        <button
+          className="btn btn-green"
+          onClick={() =>
+            onSubmit(extracted.asins, extracted.jans, extracted.shortUrls)
+          }
+          disabled={
+            busy ||
+            !(
+              extracted.asins.length +
+              extracted.jans.length +
+              extracted.shortUrls.length
+            )
+          }
+        >
+          {busy ? "取込中..." : "一覧に追加"}
+        </button>
+      </div>
+
+      <textarea
+        className="settings-input"
+        style={{ width: "100%", minHeight: 120 }}
+        placeholder={
+          "https://www.amazon.co.jp/dp/B07MNQ8M4G\nB07MNQ8M4G\n4901234567894\n（スプレッドシートからのコピーもそのまま貼り付けできます）"
+        }
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+
+      {unresolved.length > 0 && (
+        <>
+          <div className="result-heading result-heading-red">
+            読み取れなかった入力: {unresolved.length}件
+          </div>
+          <ul className="result-list">
+            {unresolved.map((u, i) => (
+              <li key={u.input + ":" + i}>
+                {u.input} - {u.reason}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AsinPasteBox;
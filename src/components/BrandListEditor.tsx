@@ -0,0 +1,124 @@
+// src/components/BrandListEditor.tsx
+// 出品禁止ブランド・許可ブランドの編集（理由つき）
+
+import React, { useMemo, useState } from "react";
+
+import {
+  BRAND_LIST_LABEL,
+  findBlockedBrand,
+  isAllowedBrand,
+  resolveBrand,
+  type BrandListKind,
+  type BrandRule,
+} from "../brand";
+import { normalizeText } from "../textNormalize";
+import type { Product } from "../types";
+
+type BrandListEditorProps = {
+  rules: BrandRule[];
+  products: Product[];
+  onChange: (rules: BrandRule[]) => void;
+};
+
+const hitCountOf = (rule: BrandRule, products: Product[]): number =>
+  products.filter((p) => {
+    const brand = resolveBrand(undefined, p);
+    return rule.list === "block"
+      ? !!findBlockedBrand([rule], brand, p.name)
+      : isAllowedBrand([rule], brand);
+  }).length;
+
+const BrandListEditor: React.FC<BrandListEditorProps> = ({
+  rules,
+  products,
+  onChange,
+}) => {
+  const [brand, setBrand] = useState("");
+  const [list, setList] = useState<BrandListKind>("block");
+  const [reason, setReason] = useState("");
+
+  const hitCounts = useMemo(
+    () => rules.map((r) => hitCountOf(r, products)),
+    [rules, products]
+  );
+
+  // 同じブランドは1件だけ（禁止と許可の両方には入れない）
+  const add = () => {
+    const b = brand.trim();
+    if (!b) return;
+    const key = normalizeText(b);
+    onChange([
+      { brand: b, list, reason: reason.trim() },
+      ...rules.filter((r) => normalizeText(r.brand) !== key),
+    ]);
+    setBrand("");
+    setReason("");
+  };
+
+  return (
+    <div className="settings-card">
+      <div className="settings-subtitle">ブランド（知財リスク対策）</div>
+      <div className="note">
+        出品禁止:
+        ブランドが一致するか、商品名に単語として含まれると除外します。許可:
+        ブランドが一致すると「出品者1人以下」の除外をしません。
+      </div>
+      <div className="settings-btn-row">
+        <input
+          className="settings-input"
+          placeholder="ブランド名"
+          value={brand}
+          onChange={(e) => setBrand(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && add()}
+        />
+        <select
+          className="settings-input"
+          style={{ width: 110 }}
+          value={list}
+          onChange={(e) => setList(e.target.value as BrandListKind)}
+        >
+          {(Object.keys(BRAND_LIST_LABEL) as BrandListKind[]).map((k) => (
+            <option key={k} value={k}>
+              {BRAND_LIST_LABEL[k]}
+            </option>
+          ))}
+        </select>
+        <input
+          className="settings-input"
+          placeholder="理由（例: 削除申請あり）"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && add()}
+        />
+        <button className="btn btn-green" onClick={add}>
+          登録
+        </button>
+      </div>
+
+      {rules.length === 0 && (
+        <div className="note">登録された項目はありません。</div>
+      )}
+      <ul className="result-list">
+        {rules.map((r, i) => (
+          <li key={r.brand}>
+            <span className={r.list === "block" ? "cell-warn" : undefined}>
+              [{BRAND_LIST_LABEL[r.list]}]
+            </span>{" "}
+            {r.brand}
+            <span className="note">
+              {r.reason && ` ${r.reason}`} 該当{hitCounts[i]}件
+            </span>{" "}
+            <button
+              className="btn btn-red"
+              onClick={() => onChange(rules.filter((_, j) => j !== i))}
+            >
+              削除
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default BrandListEditor;
@@ -0,0 +1,319 @@
+// src/components/CategoryRulesEditor.tsx
+// カテゴリ自動推定のキーワード表（メインカテゴリ判定・ビューティ細分け）の編集
+
+import React, { useState } from "react";
+
+import { QOO10_CATEGORY_CATALOGUE } from "../qoo10Catalogue";
+import {
+  CATEGORY_CONFIDENCE_LABEL,
+  classifyQoo10Category,
+  describeCategoryDecision,
+  UNKNOWN_CATEGORY,
+  type CategoryRules,
+  type MainCategoryRule,
+  type SubCategoryRule,
+} from "../qoo10Category";
+
+type CategoryRulesEditorProps = {
+  value: CategoryRules;
+  onChange: (next: CategoryRules) => void;
+  onReset: () => void;
+};
+
+/* ----- キーワードの pill 一覧＋追加欄 ----- */
+
+type KeywordPillsProps = {
+  words: string[];
+  placeholder: string;
+  onChange: (words: string[]) => void;
+};
+
+const KeywordPills: React.FC<KeywordPillsProps> = ({
+  words,
+  placeholder,
+  onChange,
+}) => {
+  const [value, setValue] = useState("");
+
+  const add = () => {
+    const w = value.trim();
+    if (!w || words.includes(w)) return;
+    onChange([...words, w]);
+    setValue("");
+  };
+
+  return (
+    <>
+      <div className="pill-list">
+        {words.map((w) => (
+          <div key={w} className="pill">
+            {w}
+            <span
+              className="pill-remove"
+              onClick={() => onChange(words.filter((x) => x !== w))}
+            >
+              ×
+            </span>
+          </div>
+        ))}
+      </div>
+      <div className="settings-btn-row">
+        <input
+          className="settings-input"
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && add()}
+        />
+        <button className="btn btn-green" onClick={add}>
+          追加
+        </button>
+      </div>
+    </>
+  );
+};
+
+/* ----- カテゴリNo の入力候補（qoo10Catalogue の一覧） ----- */
+
+const CATALOGUE_LIST_ID = "qoo10-category-catalogue";
+
+const CatalogueDatalist: React.FC = () => (
+  <datalist id={CATALOGUE_LIST_ID}>
+    {QOO10_CATEGORY_CATALOGUE.flatMap((group) =>
+      group.subs.map((sub) => (
+        <option key={sub.code} value={sub.code}>
+          {group.label} ＞ {sub.label}
+        </option>
+      ))
+    )}
+  </datalist>
+);
+
+/* ----- 並べ替え可能なルール一覧 ----- */
+
+function moveItem<T>(list: T[], i: number, delta: number): T[] {
+  const j = i + delta;
+  if (j < 0 || j >= list.length) return list;
+  const next = [...list];
+  [next[i], next[j]] = [next[j], next[i]];
+  return next;
+}
+
+type RuleHeaderProps = {
+  index: number;
+  count: number;
+  label: string;
+  code: string;
+  onPatch: (patch: { label?: string; code?: string }) => void;
+  onMove: (delta: number) => void;
+  onRemove: () => void;
+};
+
+const RuleHeader: React.FC<RuleHeaderProps> = ({
+  index,
+  count,
+  label,
+  code,
+  onPatch,
+  onMove,
+  onRemove,
+}) => (
+  <div className="settings-btn-row">
+    <span>{index + 1}.</span>
+    <input
+      className="settings-input"
+      style={{ width: 200 }}
+      placeholder="名前"
+      value={label}
+      onChange={(e) => onPatch({ label: e.target.value })}
+    />
+    <input
+      className="settings-input"
+      style={{ width: 120 }}
+      placeholder="カテゴリNo"
+      list={CATALOGUE_LIST_ID}
+      value={code}
+      onChange={(e) => onPatch({ code: e.target.value.replace(/[^0-9]/g, "") })}
+    />
+    <button
+      className="btn btn-blue"
+      onClick={() => onMove(-1)}
+      disabled={index === 0}
+    >
+      ↑
+    </button>
+    <button
+      className="btn btn-blue"
+      onClick={() => onMove(1)}
+      disabled={index === count - 1}
+    >
+      ↓
+    </button>
+    <button className="btn btn-red" onClick={onRemove}>
+      削除
+    </button>
+  </div>
+);
+
+const CategoryRulesEditor: React.FC<CategoryRulesEditorProps> = ({
+  value,
+  onChange,
+  onReset,
+}) => {
+  const [testTitle, setTestTitle] = useState("");
+  const testResult = testTitle.trim()
+    ? classifyQoo10Category(testTitle, value)
+    : null;
+
+  const setMain = (mainRules: MainCategoryRule[]) =>
+    onChange({ ...value, mainRules });
+  const patchMain = (i: number, patch: Partial<MainCategoryRule>) =>
+    setMain(value.mainRules.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+
+  const setBeauty = (beautyRules: SubCategoryRule[]) =>
+    onChange({ ...value, beautyRules });
+  const patchBeauty = (i: number, patch: Partial<SubCategoryRule>) =>
+    setBeauty(
+      value.beautyRules.map((r, j) => (j === i ? { ...r, ...patch } : r))
+    );
+
+  return (
+    <>
+      <CatalogueDatalist />
+      <div className="settings-card">
+        <div className="settings-subtitle">判定テスト</div>
+        <input
+          className="settings-input"
+          placeholder="商品タイトルを入力すると判定結果を表示"
+          value={testTitle}
+          onChange={(e) => setTestTitle(e.target.value)}
+        />
+        {testResult && (
+          <div className="note">
+            メインカテゴリ: {testResult.main}
+            {testResult.beautySecondSubCat &&
+              ` ／ ビューティ細分け: ${testResult.beautySecondSubCat}`}
+            {` ／ 信頼度: ${CATEGORY_CONFIDENCE_LABEL[testResult.confidence]}`}
+            <br />
+            {describeCategoryDecision(testResult)}
+            {testResult.main === UNKNOWN_CATEGORY &&
+              "。出品時は要確認として除外されます"}
+          </div>
+        )}
+        <div className="settings-btn-row">
+          <button
+            className="btn btn-pink"
+            onClick={() => {
+              if (window.confirm("キーワード表を既定値に戻しますか？")) {
+                onReset();
+              }
+            }}
+          >
+            既定のキーワード表に戻す
+          </button>
+        </div>
+      </div>
+
+      <div className="settings-card" style={{ marginTop: 10 }}>
+        <div className="settings-subtitle">
+          メインカテゴリ判定（上から順に照合、どれにも当たらなければビューティ細分けへ。
+          「ビューティ細分けの後」のものは細分けに当たらなかったときだけ照合。
+          カテゴリNoが空のものは、当たると判定不能＝要確認）
+        </div>
+        {value.mainRules.map((r, i) => (
+          <div key={i} className="settings-card" style={{ marginTop: 8 }}>
+            <RuleHeader
+              index={i}
+              count={value.mainRules.length}
+              label={r.label}
+              code={r.code}
+              onPatch={(patch) => patchMain(i, patch)}
+              onMove={(d) => setMain(moveItem(value.mainRules, i, d))}
+              onRemove={() =>
+                setMain(value.mainRules.filter((_, j) => j !== i))
+              }
+            />
+            <div className="settings-label">キーワード（いずれかを含む）</div>
+            <KeywordPills
+              words={r.keywords}
+              placeholder="キーワード"
+              onChange={(keywords) => patchMain(i, { keywords })}
+            />
+            <div className="settings-label">
+              追加条件（空なら無条件。指定時はいずれかも含むときだけ該当）
+            </div>
+            <KeywordPills
+              words={r.requireAny}
+              placeholder="条件ワード（例: 電動）"
+              onChange={(requireAny) => patchMain(i, { requireAny })}
+            />
+            <label className="note">
+              <input
+                type="checkbox"
+                checked={!!r.afterBeauty}
+                onChange={(e) =>
+                  patchMain(i, { afterBeauty: e.target.checked || undefined })
+                }
+              />{" "}
+              ビューティ細分けの後に照合する（美容の成分・香り・色名と重なる語が多い分類）
+            </label>
+          </div>
+        ))}
+        <div className="settings-btn-row">
+          <button
+            className="btn btn-green"
+            onClick={() =>
+              setMain([
+                ...value.mainRules,
+                { code: "", label: "", keywords: [], requireAny: [] },
+              ])
+            }
+          >
+            メインカテゴリを追加
+          </button>
+        </div>
+      </div>
+
+      <div className="settings-card" style={{ marginTop: 10 }}>
+        <div className="settings-subtitle">
+          ビューティ細分け（上ほど優先、ここでも当たらなければ判定不能＝要確認）
+        </div>
+        {value.beautyRules.map((r, i) => (
+          <div key={i} className="settings-card" style={{ marginTop: 8 }}>
+            <RuleHeader
+              index={i}
+              count={value.beautyRules.length}
+              label={r.label}
+              code={r.code}
+              onPatch={(patch) => patchBeauty(i, patch)}
+              onMove={(d) => setBeauty(moveItem(value.beautyRules, i, d))}
+              onRemove={() =>
+                setBeauty(value.beautyRules.filter((_, j) => j !== i))
+              }
+            />
+            <KeywordPills
+              words={r.keywords}
+              placeholder="キーワード"
+              onChange={(keywords) => patchBeauty(i, { keywords })}
+            />
+          </div>
+        ))}
+        <div className="settings-btn-row">
+          <button
+            className="btn btn-green"
+            onClick={() =>
+              setBeauty([
+                ...value.beautyRules,
+                { code: "", label: "", keywords: [] },
+              ])
+            }
+          >
+            細分けカテゴリを追加
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default CategoryRulesEditor;
@@ -0,0 +1,75 @@
+// src/components/CategorySuggestions.tsx
+// 商品ごとのカテゴリ指定から作ったキーワード候補の採用・却下
+
+import React from "react";
+
+import {
+  canAddKeywordToRules,
+  type CategorySuggestion,
+} from "../categorySuggest";
+import { catalogueLabelOf } from "../qoo10Catalogue";
+
+type CategorySuggestionsProps = {
+  suggestions: CategorySuggestion[];
+  /** 商品ごとにカテゴリを指定している商品数 */
+  overrideCount: number;
+  onAddToMap: (s: CategorySuggestion) => void;
+  onAddToRules: (s: CategorySuggestion) => void;
+  onReject: (s: CategorySuggestion) => void;
+};
+
+const CategorySuggestions: React.FC<CategorySuggestionsProps> = ({
+  suggestions,
+  overrideCount,
+  onAddToMap,
+  onAddToRules,
+  onReject,
+}) => (
+  <div className="settings-card">
+    <div className="settings-subtitle">
+      カテゴリ指定からのキーワード候補（指定済み {overrideCount}件から抽出）
+    </div>
+    {suggestions.length === 0 ? (
+      <div className="note">
+        候補はありません。商品一覧でカテゴリを指定すると、同じカテゴリの商品に共通する語を候補として表示します。
+      </div>
+    ) : (
+      <ul className="result-list">
+        {suggestions.map((s) => (
+          <li key={`${s.keyword}-${s.categoryNo}`}>
+            「{s.keyword}」→ {s.categoryNo}
+            {catalogueLabelOf(String(s.categoryNo)) &&
+              `（${catalogueLabelOf(String(s.categoryNo))}）`}{" "}
+            - 指定済み{s.support}件に共通 ／ 採用すると{s.recategorized}
+            件のカテゴリが変わります
+            {s.examples.length > 0 && (
+              <div className="note">例: {s.examples.join(" ／ ")}</div>
+            )}
+            {!canAddKeywordToRules(s.categoryNo) && (
+              <div className="note">
+                ビューティの大分類はキーワード表に追加できません（細分けのカテゴリNoで指定してください）
+              </div>
+            )}
+            <div className="settings-btn-row">
+              <button className="btn btn-green" onClick={() => onAddToMap(s)}>
+                カテゴリマップに追加
+              </button>
+              <button
+                className="btn btn-blue"
+                onClick={() => onAddToRules(s)}
+                disabled={!canAddKeywordToRules(s.categoryNo)}
+              >
+                キーワード表に追加
+              </button>
+              <button className="btn btn-pink" onClick={() => onReject(s)}>
+                却下
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default CategorySuggestions;
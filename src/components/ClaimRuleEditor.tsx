@@ -0,0 +1,248 @@
+// src/components/ClaimRuleEditor.tsx
+// 薬機法チェックの辞書の編集（表現・照合方法・対応・対象カテゴリ・理由）
+// 登録前に、入力中の表現が今の商品一覧のどれに当たるかを確認できる
+
+import React, { useMemo, useState } from "react";
+
+import { explainCategory } from "../categoryChoice";
+import {
+  checkClaims,
+  CLAIM_ACTION_LABEL,
+  claimRuleError,
+  newClaimRule,
+  type ClaimAction,
+  type ClaimRule,
+} from "../claimCheck";
+import type { Product, SettingsState } from "../types";
+import {
+  ruleKeyOf,
+  stripWords,
+  upsertRule,
+  WORD_MATCH_MODE_LABEL,
+  type WordMatchMode,
+} from "../wordRules";
+
+import RuleTestHits from "./RuleTestHits";
+
+type ClaimRuleEditorProps = {
+  rules: ClaimRule[];
+  products: Product[];
+  /** 削除ワード・カテゴリ推定を出品時と同じにするため */
+  settings: SettingsState;
+  onChange: (rules: ClaimRule[]) => void;
+  onReset: () => void;
+};
+
+type ClaimTarget = {
+  product: Product;
+  title: string;
+  categoryNo?: number;
+};
+
+const hitsOf = (rule: ClaimRule, targets: ClaimTarget[]): ClaimTarget[] =>
+  targets.filter((t) => {
+    const r = checkClaims(t.title, t.categoryNo, [rule]);
+    return r.flagged.length > 0 || r.removed.length > 0;
+  });
+
+const parseCategories = (text: string): string[] =>
+  text
+    .split(/[\s,、，]+/)
+    .map((x) => x.trim())
+    .filter(Boolean);
+
+const ClaimRuleEditor: React.FC<ClaimRuleEditorProps> = ({
+  rules,
+  products,
+  settings,
+  onChange,
+  onReset,
+}) => {
+  const [draft, setDraft] = useState<ClaimRule>(() => newClaimRule());
+  // 編集中のルール（ruleKeyOf）。更新するまで一覧には元のまま残す
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [categoryText, setCategoryText] = useState(() =>
+    draft.categories.join(",")
+  );
+
+  const patchDraft = (patch: Partial<ClaimRule>) =>
+    setDraft((d) => ({ ...d, ...patch }));
+
+  // 出品時と同じく、削除ワード適用後のタイトルと推定カテゴリで照合する
+  const targets = useMemo(
+    () =>
+      products.map((product) => ({
+        product,
+        title: stripWords(product.name, settings.nameEraseWords),
+        categoryNo: explainCategory(undefined, product, settings).categoryNo,
+      })),
+    [products, settings]
+  );
+
+  const hitCounts = useMemo(
+    () => rules.map((r) => hitsOf(r, targets).length),
+    [rules, targets]
+  );
+
+  const pattern = draft.pattern.trim();
+  const probe = {
+    ...draft,
+    pattern,
+    categories: parseCategories(categoryText),
+  };
+  const draftError = claimRuleError(probe);
+  const draftHits =
+    pattern && !draftError
+      ? hitsOf(probe, targets).map((h) => ({
+          product: h.product,
+          title: h.title,
+          after:
+            probe.action === "remove"
+              ? checkClaims(h.title, h.categoryNo, [probe]).title
+              : undefined,
+        }))
+      : null;
+
+  const resetDraft = () => {
+    setDraft((d) => ({ ...newClaimRule(), mode: d.mode, action: d.action }));
+    if (editingKey) setCategoryText(newClaimRule().categories.join(","));
+    setEditingKey(null);
+  };
+
+  const save = () => {
+    if (!pattern || draftError) return;
+    onChange(upsertRule(rules, probe, editingKey ?? undefined));
+    resetDraft();
+  };
+
+  // 編集は入力欄に読み込み、「更新」でその位置のルールを置き換える
+  const edit = (i: number) => {
+    setDraft(rules[i]);
+    setCategoryText(rules[i].categories.join(","));
+    setEditingKey(ruleKeyOf(rules[i]));
+  };
+
+  const remove = (i: number) => {
+    if (ruleKeyOf(rules[i]) === editingKey) resetDraft();
+    onChange(rules.filter((_, j) => j !== i));
+  };
+
+  return (
+    <div className="settings-card">
+      <div className="settings-subtitle">薬機法チェック（タイトルの表現）</div>
+      <div className="note">
+        削除ワード適用後のタイトルに、対象カテゴリ（カテゴリNoの先頭一致。空ならすべて）で適用します。
+        要確認: 出品せずに除外します。削除して出品:
+        表現をタイトルから取り除きます。
+      </div>
+      <div className="settings-btn-row">
+        <input
+          className="settings-input"
+          placeholder={
+            draft.mode === "regex" ? "正規表現（例: シミが?消え）" : "表現"
+          }
+          value={draft.pattern}
+          onChange={(e) => patchDraft({ pattern: e.target.value })}
+          onKeyDown={(e) => e.key === "Enter" && save()}
+        />
+        <select
+          className="settings-input"
+          style={{ width: 110 }}
+          value={draft.mode}
+          onChange={(e) =>
+            patchDraft({ mode: e.target.value as WordMatchMode })
+          }
+        >
+          {(Object.keys(WORD_MATCH_MODE_LABEL) as WordMatchMode[]).map((m) => (
+            <option key={m} value={m}>
+              {WORD_MATCH_MODE_LABEL[m]}
+            </option>
+          ))}
+        </select>
+        <select
+          className="settings-input"
+          style={{ width: 140 }}
+          value={draft.action}
+          onChange={(e) =>
+            patchDraft({ action: e.target.value as ClaimAction })
+          }
+        >
+          {(Object.keys(CLAIM_ACTION_LABEL) as ClaimAction[]).map((a) => (
+            <option key={a} value={a}>
+              {CLAIM_ACTION_LABEL[a]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="settings-btn-row">
+        <input
+          className="settings-input"
+          style={{ width: 150 }}
+          placeholder="対象カテゴリ（例: 120000,130000）"
+          value={categoryText}
+          onChange={(e) => setCategoryText(e.target.value)}
+        />
+        <input
+          className="settings-input"
+          placeholder="理由（例: 疾病の治療効果）"
+          value={draft.note}
+          onChange={(e) => patchDraft({ note: e.target.value })}
+          onKeyDown={(e) => e.key === "Enter" && save()}
+        />
+        <button
+          className="btn btn-green"
+          onClick={save}
+          disabled={!pattern || !!draftError}
+        >
+          {editingKey ? "更新" : "登録"}
+        </button>
+        {editingKey && (
+          <button className="btn btn-pink" onClick={resetDraft}>
+            キャンセル
+          </button>
+        )}
+        <button
+          className="btn btn-pink"
+          onClick={() => {
+            if (window.confirm("薬機法チェックの辞書を既定値に戻しますか？")) {
+              onReset();
+            }
+          }}
+        >
+          既定に戻す
+        </button>
+      </div>
+
+      {draftError && <div className="note cell-warn">{draftError}</div>}
+      <RuleTestHits hits={draftHits} />
+
+      {rules.length === 0 && (
+        <div className="note">登録された項目はありません。</div>
+      )}
+      <ul className="result-list">
+        {rules.map((r, i) => (
+          <li key={ruleKeyOf(r)}>
+            <span className={r.action === "flag" ? "cell-warn" : undefined}>
+              {r.pattern}
+            </span>{" "}
+            <span className="note">
+              [{WORD_MATCH_MODE_LABEL[r.mode]} / {CLAIM_ACTION_LABEL[r.action]}
+              {` / ${r.categories.length ? r.categories.join(",") : "全カテゴリ"}`}
+              ]{r.note && ` ${r.note}`}
+              {` 該当${hitCounts[i]}件`}
+              {ruleKeyOf(r) === editingKey && "（編集中）"}
+            </span>{" "}
+            <button className="btn btn-blue" onClick={() => edit(i)}>
+              編集
+            </button>{" "}
+            <button className="btn btn-red" onClick={() => remove(i)}>
+              削除
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ClaimRuleEditor;
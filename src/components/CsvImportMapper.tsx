@@ -0,0 +1,167 @@
+// src/components/CsvImportMapper.tsx
+// CSV 取込：列の割当を確認・変更してから商品一覧に追加する
+
+import React, { useMemo, useState } from "react";
+
+import {
+  IMPORT_FIELD_LABEL,
+  guessColumnMapping,
+  needsAmazonLookup,
+  rowsToImports,
+  type ColumnMapping,
+  type ImportField,
+  type ImportedRow,
+} from "../keepaImport";
+import { formatYen } from "../pricing";
+
+type CsvImportMapperProps = {
+  fileName: string;
+  rows: string[][];
+  busy: boolean;
+  /** lookupAll: CSV に値があっても全件 /amazon/bulk で最新情報を取り直す */
+  onImport: (imports: ImportedRow[], lookupAll: boolean) => void;
+  onClose: () => void;
+};
+
+const PREVIEW_ROWS = 5;
+
+const CsvImportMapper: React.FC<CsvImportMapperProps> = ({
+  fileName,
+  rows,
+  busy,
+  onImport,
+  onClose,
+}) => {
+  const guessed = useMemo(() => guessColumnMapping(rows[0] ?? []), [rows]);
+  const [mapping, setMapping] = useState<ColumnMapping>(guessed.mapping);
+  const [hasHeader, setHasHeader] = useState(guessed.hasHeader);
+  const [lookupAll, setLookupAll] = useState(false);
+
+  const columnCount = Math.max(0, ...rows.slice(0, 20).map((r) => r.length));
+  const columnLabel = (i: number) =>
+    hasHeader && rows[0]?.[i] ? `${i + 1}: ${rows[0][i]}` : `${i + 1}列目`;
+
+  const imports = useMemo(
+    () => rowsToImports(rows, mapping, hasHeader),
+    [rows, mapping, hasHeader]
+  );
+  const lookupCount = lookupAll
+    ? imports.length
+    : imports.filter(needsAmazonLookup).length;
+
+  return (
+    <div className="preview-box">
+      <div className="progress-header">
+        <div className="result-title">
+          CSV取込: {fileName}（{imports.length}件）
+        </div>
+        <div className="progress-meta">
+          Amazon情報の取得: {lookupCount}件（残りはCSVの値をそのまま使用）
+        </div>
+        <button className="btn btn-pink" onClick={onClose} disabled={busy}>
+          閉じる
+        </button>
+        <button
+          className="btn btn-green"
+          onClick={() => onImport(imports, lookupAll)}
+          disabled={busy || !imports.length}
+        >
+          {busy ? "取込中..." : `${imports.length}件を取込`}
+        </button>
+      </div>
+
+      <div className="settings-btn-row">
+        <label>
+          <input
+            type="checkbox"
+            checked={hasHeader}
+            onChange={(e) => setHasHeader(e.target.checked)}
+          />{" "}
+          1行目は見出し
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={lookupAll}
+            onChange={(e) => setLookupAll(e.target.checked)}
+          />{" "}
+          CSVに値があってもAmazon情報を取り直す
+        </label>
+      </div>
+
+      <div className="settings-btn-row">
+        {(Object.keys(IMPORT_FIELD_LABEL) as ImportField[]).map((field) => (
+          <label key={field}>
+            {IMPORT_FIELD_LABEL[field]}{" "}
+            <select
+              className="settings-input"
+              style={{ width: 200 }}
+              value={mapping[field] ?? ""}
+              onChange={(e) =>
+                setMapping((m) => ({
+                  ...m,
+                  [field]: e.target.value === "" ? null : Number(e.target.value),
+                }))
+              }
+            >
+              {field !== "asin" && <option value="">（取り込まない）</option>}
+              {Array.from({ length: columnCount }, (_, i) => (
+                <option key={i} value={i}>
+                  {columnLabel(i)}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <div className="table-card">
+        <table aria-label="CSV取込プレビュー">
+          <thead>
+            <tr>
+              {(Object.keys(IMPORT_FIELD_LABEL) as ImportField[]).map((f) => (
+                <th key={f}>{IMPORT_FIELD_LABEL[f]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {imports.slice(0, PREVIEW_ROWS).map((r) => (
+              <tr key={r.asin}>
+                <td className="cell-center">{r.asin}</td>
+                <td className="cell-name">{r.title ?? "-"}</td>
+                <td className="cell-center">{r.brand ?? "-"}</td>
+                <td className="cell-right">
+                  {r.price ? formatYen(r.price) : "-"}
+                </td>
+                <td className="cell-center">{r.jan ?? "-"}</td>
+                <td className="cell-center">{r.sellerCount ?? "-"}</td>
+                <td className="cell-center">{r.salesRank ?? "-"}</td>
+                <td className="cell-center">
+                  {r.image ? (
+                    <img className="thumb-sub" src={r.image} alt={r.asin} />
+                  ) : (
+                    "-"
+                  )}
+                </td>
+              </tr>
+            ))}
+            {imports.length === 0 && (
+              <tr>
+                <td colSpan={7} className="cell-center">
+                  ASINが読み取れません。ASIN列の割当を確認してください。
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {imports.length > PREVIEW_ROWS && (
+        <div className="note">
+          先頭{PREVIEW_ROWS}件を表示しています（全{imports.length}件）。
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CsvImportMapper;
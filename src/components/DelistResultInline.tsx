@@ -0,0 +1,78 @@
+// src/components/DelistResultInline.tsx
+// 「Qoo10から出品停止」の結果表示（ListingResultInline と同じ見た目）
+
+import React from "react";
+
+import type { DelistMode, DelistResult } from "../api/qeasy";
+import { DELIST_MODE_LABEL } from "../delist";
+
+export type DelistOutcome = {
+  mode: DelistMode;
+  results: (DelistResult & { name: string; qoo10ItemCode: string })[];
+};
+
+type DelistResultInlineProps = {
+  outcome: DelistOutcome | null;
+  onClose: () => void;
+};
+
+const SUCCESS_NOTE: Record<DelistMode, string> = {
+  end: "（商品コードの紐付けを解除しました。終了した商品コードは商品に記録しています）",
+  suspend: "（商品コードは保持しています）",
+  resume: "（在庫同期・価格改定の対象に戻りました）",
+};
+
+const DelistResultInline: React.FC<DelistResultInlineProps> = ({
+  outcome,
+  onClose,
+}) => {
+  if (!outcome || outcome.results.length === 0) return null;
+
+  const label = DELIST_MODE_LABEL[outcome.mode];
+  const failed = outcome.results.filter((r) => !r.ok);
+  const succeeded = outcome.results.filter((r) => r.ok);
+
+  return (
+    <div className="result-box">
+      <div className="progress-header">
+        <div className="result-title">直近の出品停止・再開結果（{label}）</div>
+        <button className="btn btn-pink" onClick={onClose}>
+          閉じる
+        </button>
+      </div>
+
+      {failed.length > 0 && (
+        <>
+          <div className="result-heading result-heading-red">
+            エラー: {failed.length}件
+          </div>
+          <ul className="result-list">
+            {failed.map((r) => (
+              <li key={r.asin}>
+                {r.asin} {r.name} - {r.message || `${label}に失敗しました。`}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {succeeded.length > 0 && (
+        <>
+          <div className="result-heading result-heading-green">
+            {label}成功: {succeeded.length}件
+          </div>
+          <ul className="result-list">
+            {succeeded.map((r) => (
+              <li key={r.asin}>
+                {r.asin} - Qoo10商品コード: {r.qoo10ItemCode}
+                {SUCCESS_NOTE[outcome.mode]}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DelistResultInline;
@@ -0,0 +1,163 @@
+// src/components/ImportReview.tsx
+// 取込内容の確認：新規・重複・Amazon 未取得・出品不可を一覧にしてから確定する
+
+import React, { useState } from "react";
+
+import type { ImportDecision, ImportReviewItem } from "../importReview";
+import { formatYen } from "../pricing";
+
+type ImportReviewProps = {
+  items: ImportReviewItem[];
+  onConfirm: (decision: ImportDecision) => void;
+  onClose: () => void;
+};
+
+const ImportReview: React.FC<ImportReviewProps> = ({
+  items,
+  onConfirm,
+  onClose,
+}) => {
+  const fresh = items.filter((it) => it.status === "new");
+  const duplicates = items.filter((it) => it.status === "duplicate");
+  const notFound = items.filter((it) => it.status === "not_found");
+  const forbidden = items.filter((it) => it.status === "forbidden");
+
+  const [refreshAsins, setRefreshAsins] = useState<Set<string>>(
+    () => new Set()
+  );
+  const [includeForbidden, setIncludeForbidden] = useState(false);
+
+  const toggleRefresh = (asin: string, on: boolean) =>
+    setRefreshAsins((prev) => {
+      const next = new Set(prev);
+      if (on) next.add(asin);
+      else next.delete(asin);
+      return next;
+    });
+
+  const changed = duplicates.filter((it) => it.changes.length > 0);
+  const addCount = fresh.length + (includeForbidden ? forbidden.length : 0);
+
+  return (
+    <div className="preview-box">
+      <div className="progress-header">
+        <div className="result-title">
+          取込内容の確認（新規 {fresh.length}件 ／ 重複 {duplicates.length}件
+          ／ 未取得 {notFound.length}件 ／ 出品不可 {forbidden.length}件）
+        </div>
+        <div className="progress-meta">
+          ※ 確定するまで商品一覧は変更されません。
+        </div>
+        <button className="btn btn-pink" onClick={onClose}>
+          取込中止
+        </button>
+        <button
+          className="btn btn-green"
+          onClick={() => onConfirm({ refreshAsins, includeForbidden })}
+          disabled={!addCount && !refreshAsins.size}
+        >
+          {addCount}件を追加・{refreshAsins.size}件を更新
+        </button>
+      </div>
+
+      {fresh.length > 0 && (
+        <>
+          <div className="result-heading result-heading-green">
+            新規: {fresh.length}件
+          </div>
+          <ul className="result-list">
+            {fresh.map((it) => (
+              <li key={it.asin}>
+                {it.asin} {it.product?.name} -{" "}
+                {it.product?.amazonPrice
+                  ? formatYen(it.product.amazonPrice)
+                  : "価格なし"}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {duplicates.length > 0 && (
+        <>
+          <div className="result-heading result-heading-blue">
+            一覧に既にある: {duplicates.length}件（チェックした商品は取込内容で情報を更新）
+          </div>
+          <div className="settings-btn-row">
+            <button
+              className="btn btn-blue"
+              onClick={() =>
+                setRefreshAsins(new Set(changed.map((it) => it.asin)))
+              }
+              disabled={!changed.length}
+            >
+              変更のある{changed.length}件をすべて更新
+            </button>
+            <button
+              className="btn btn-blue"
+              onClick={() => setRefreshAsins(new Set())}
+            >
+              すべてスキップ
+            </button>
+          </div>
+          <ul className="result-list">
+            {duplicates.map((it) => (
+              <li key={it.asin}>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={refreshAsins.has(it.asin)}
+                    onChange={(e) => toggleRefresh(it.asin, e.target.checked)}
+                    disabled={!it.changes.length}
+                  />{" "}
+                  {it.asin} {it.existing?.name} -{" "}
+                  {it.changes.length ? it.changes.join(" ／ ") : "変更なし"}
+                </label>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {notFound.length > 0 && (
+        <>
+          <div className="result-heading result-heading-red">
+            Amazon情報を取得できず追加できない: {notFound.length}件
+          </div>
+          <ul className="result-list">
+            {notFound.map((it) => (
+              <li key={it.asin}>
+                {it.asin} - {it.reason}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {forbidden.length > 0 && (
+        <>
+          <div className="result-heading result-heading-red">
+            出品不可ASIN・禁止ワード・禁止ブランドに該当: {forbidden.length}件
+          </div>
+          <label className="note">
+            <input
+              type="checkbox"
+              checked={includeForbidden}
+              onChange={(e) => setIncludeForbidden(e.target.checked)}
+            />{" "}
+            出品時に除外されますが、一覧には追加する
+          </label>
+          <ul className="result-list">
+            {forbidden.map((it) => (
+              <li key={it.asin}>
+                {it.asin} {it.product?.name} - {it.reason}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImportReview;
@@ -0,0 +1,239 @@
+// src/components/ListingHistory.tsx
+// 出品履歴ページ：過去の実行一覧・ASIN 別結果・CSV 出力
+
+import React, { useMemo, useState } from "react";
+
+import { downloadCsv } from "../csv";
+import {
+  LISTING_STATUS_LABEL,
+  RUN_CSV_HEADER,
+  retryableAsins,
+  runToCsvRows,
+  type ListingRun,
+} from "../listingHistory";
+import type { ListingOverrides } from "../listingPlan";
+import { formatYen } from "../pricing";
+import type { ListingStatus } from "../types";
+import RetryFailedControl from "./RetryFailedControl";
+
+type ListingHistoryProps = {
+  runs: ListingRun[];
+  busy: boolean;
+  onRetryFailed: (run: ListingRun, overrides: ListingOverrides) => void;
+};
+
+const formatDateTime = (iso: string): string =>
+  new Date(iso).toLocaleString("ja-JP");
+
+const ListingHistory: React.FC<ListingHistoryProps> = ({
+  runs,
+  busy,
+  onRetryFailed,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ListingStatus | "all">(
+    "all"
+  );
+  const [asinQuery, setAsinQuery] = useState("");
+
+  const run = runs.find((r) => r.id === selectedId) ?? runs[0] ?? null;
+
+  const items = useMemo(
+    () =>
+      run
+        ? run.items.filter(
+            (it) => statusFilter === "all" || it.status === statusFilter
+          )
+        : [],
+    [run, statusFilter]
+  );
+
+  // 「この ASIN をいつ・いくらで出品したか」を全履歴から探す
+  const asinHits = useMemo(() => {
+    const q = asinQuery.trim().toUpperCase();
+    if (!q) return [];
+    return runs.flatMap((r) =>
+      r.items
+        .filter((it) => it.asin.toUpperCase().includes(q))
+        .map((it) => ({ run: r, item: it }))
+    );
+  }, [runs, asinQuery]);
+
+  const countOf = (r: ListingRun, st: ListingStatus) =>
+    r.items.filter((it) => it.status === st).length;
+
+  return (
+    <>
+      <div className="search-row">
+        <input
+          className="search-input"
+          placeholder="ASINで全履歴を検索（例: B07MNQ8M4G）"
+          value={asinQuery}
+          onChange={(e) => setAsinQuery(e.target.value)}
+        />
+      </div>
+
+      {asinQuery.trim() && (
+        <div className="table-card" style={{ marginBottom: 14 }}>
+          <table aria-label="ASIN別出品履歴">
+            <thead>
+              <tr>
+                <th>実行日時</th>
+                <th>ASIN</th>
+                <th>商品名</th>
+                <th>ステータス</th>
+                <th>出品価格</th>
+                <th>Qoo10商品コード</th>
+              </tr>
+            </thead>
+            <tbody>
+              {asinHits.map(({ run: r, item }, i) => (
+                <tr key={r.id + ":" + item.asin + ":" + i}>
+                  <td className="cell-center">{formatDateTime(r.startedAt)}</td>
+                  <td className="cell-center">{item.asin}</td>
+                  <td className="cell-name">{item.name}</td>
+                  <td className="cell-center">
+                    {LISTING_STATUS_LABEL[item.status]}
+                  </td>
+                  <td className="cell-right">
+                    {item.price ? formatYen(item.price) : "-"}
+                  </td>
+                  <td className="cell-center">{item.qoo10ItemCode || "-"}</td>
+                </tr>
+              ))}
+              {asinHits.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="cell-center">
+                    該当する履歴がありません。
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="history-layout">
+        <div className="history-runs">
+          {runs.length === 0 && (
+            <div className="note">出品履歴はまだありません。</div>
+          )}
+          {runs.map((r) => (
+            <button
+              key={r.id}
+              className={
+                r.id === run?.id ? "history-run active" : "history-run"
+              }
+              onClick={() => setSelectedId(r.id)}
+            >
+              <div>
+                {formatDateTime(r.startedAt)}
+                {r.cancelled && "（キャンセル）"}
+              </div>
+              <div className="note">
+                {r.items.length}件 ／ 成功 {countOf(r, "success")} ／ エラー{" "}
+                {countOf(r, "error")} ／ 除外{" "}
+                {countOf(r, "forbidden") + countOf(r, "exists")}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {run && (
+          <div className="history-detail">
+            <div className="search-row">
+              <select
+                className="settings-input"
+                style={{ width: 160 }}
+                value={statusFilter}
+                onChange={(e) =>
+                  setStatusFilter(e.target.value as ListingStatus | "all")
+                }
+              >
+                <option value="all">すべてのステータス</option>
+                {(Object.keys(LISTING_STATUS_LABEL) as ListingStatus[]).map(
+                  (st) => (
+                    <option key={st} value={st}>
+                      {LISTING_STATUS_LABEL[st]}
+                    </option>
+                  )
+                )}
+              </select>
+              <button
+                className="btn btn-blue"
+                onClick={() =>
+                  downloadCsv(`qeasy-listing-${run.id}.csv`, [
+                    RUN_CSV_HEADER,
+                    ...runToCsvRows({ ...run, items }),
+                  ])
+                }
+              >
+                CSV出力
+              </button>
+              <RetryFailedControl
+                key={run.id}
+                count={retryableAsins(run.items, runs).length}
+                busy={busy}
+                onRetry={(overrides) => onRetryFailed(run, overrides)}
+              />
+              <div className="note">
+                送料コード {run.settings.shippingCode} ／ 在庫上限{" "}
+                {run.settings.maxStockPerItem} ／ 価格ルール{" "}
+                {run.settings.rules
+                  .map(
+                    (r) =>
+                      `${r.min}〜${r.max ?? ""}円: ×${r.multiply}+${r.plus}`
+                  )
+                  .join(" / ")}
+              </div>
+            </div>
+
+            <div className="table-card">
+              <table aria-label="出品履歴詳細">
+                <thead>
+                  <tr>
+                    <th>ASIN</th>
+                    <th>商品名</th>
+                    <th>ステータス</th>
+                    <th>出品価格</th>
+                    <th>カテゴリNo</th>
+                    <th>Qoo10商品コード</th>
+                    <th>メッセージ</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map((it, i) => (
+                    <tr key={it.asin + ":" + i}>
+                      <td className="cell-center">{it.asin}</td>
+                      <td className="cell-name">{it.name}</td>
+                      <td className="cell-center">
+                        {LISTING_STATUS_LABEL[it.status]}
+                      </td>
+                      <td className="cell-right">
+                        {it.price ? formatYen(it.price) : "-"}
+                      </td>
+                      <td className="cell-center">{it.categoryNo ?? "-"}</td>
+                      <td className="cell-center">
+                        {it.qoo10ItemCode || "-"}
+                      </td>
+                      <td>{it.message}</td>
+                    </tr>
+                  ))}
+                  {items.length === 0 && (
+                    <tr>
+                      <td colSpan={7} className="cell-center">
+                        該当する結果がありません。
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default ListingHistory;
@@ -0,0 +1,277 @@
+// src/components/ListingPreview.tsx
+// 出品プレビュー：送信前に Qoo10ListingPayload を確認・修正して確定する
+
+import React, { useState } from "react";
+
+import type { Qoo10ListingPayload } from "../api/qeasy";
+import { describeCategoryChoice } from "../categoryChoice";
+import { checkClaims, describeClaimRule, type ClaimRule } from "../claimCheck";
+import { downloadCsv } from "../csv";
+import type { ListingPlan } from "../listingPlan";
+import { editedPriceProblems } from "../listingRules";
+import { formatYen } from "../pricing";
+import { payloadsToQsmRows, qsmProblemsOf } from "../qsmExport";
+import type { Product, SettingsState } from "../types";
+
+type PreviewRow = {
+  include: boolean;
+  payload: Qoo10ListingPayload;
+};
+
+type ListingPreviewProps = {
+  plan: ListingPlan;
+  targets: Product[];
+  /** 直した価格・タイトルを価格ルール・利益率・薬機法チェックにかけ直すため */
+  settings: SettingsState;
+  busy: boolean;
+  onConfirm: (payloads: Qoo10ListingPayload[]) => void;
+  onClose: () => void;
+};
+
+const STATUS_LABEL: Record<string, string> = {
+  exists: "既存",
+  forbidden: "除外",
+  error: "エラー",
+};
+
+const ListingPreview: React.FC<ListingPreviewProps> = ({
+  plan,
+  targets,
+  settings,
+  busy,
+  onConfirm,
+  onClose,
+}) => {
+  const [rows, setRows] = useState<PreviewRow[]>(() =>
+    plan.payloads.map((payload) => ({ include: true, payload }))
+  );
+
+  const nameOf = (asin: string) =>
+    targets.find((p) => p.asin === asin)?.name || asin;
+
+  const updateRow = (i: number, patch: Partial<Qoo10ListingPayload>) =>
+    setRows((prev) => {
+      const next = [...prev];
+      next[i] = { ...next[i], payload: { ...next[i].payload, ...patch } };
+      return next;
+    });
+
+  const toggleRow = (i: number, include: boolean) =>
+    setRows((prev) => {
+      const next = [...prev];
+      next[i] = { ...next[i], include };
+      return next;
+    });
+
+  // タイトルを手で直したときに問題の表現が戻っていないか（カテゴリの修正も反映）
+  const flaggedOf = (payload: Qoo10ListingPayload): ClaimRule[] =>
+    checkClaims(payload.title, payload.categoryNo, settings.claimRules).flagged;
+
+  // 価格を手で直したときも価格ルールの下限・上限と最低利益率を守る
+  const priceProblemsOf = (payload: Qoo10ListingPayload): string[] =>
+    editedPriceProblems(
+      payload,
+      plan.amazonPrices[payload.asin] ?? 0,
+      settings
+    );
+
+  const chosen = rows.filter((r) => r.include);
+  const invalid = chosen.filter(
+    (r) =>
+      !r.payload.title.trim() ||
+      // カテゴリを消した行も止める（カテゴリ不明の出品は categoryReviewRule と同じく不可）
+      !r.payload.categoryNo ||
+      priceProblemsOf(r.payload).length > 0 ||
+      flaggedOf(r.payload).length > 0
+  );
+
+  // API が使えないときの手動登録用。送信はしないので履歴にも残らない
+  const exportQsm = () => {
+    const problems = chosen
+      .map((r) => ({ asin: r.payload.asin, list: qsmProblemsOf(r.payload) }))
+      .filter((x) => x.list.length);
+    if (
+      problems.length &&
+      !window.confirm(
+        `${problems.length}件はQSMで登録エラーになる可能性があります。このまま出力しますか？\n${problems
+          .slice(0, 10)
+          .map((x) => `${x.asin}: ${x.list.join("・")}`)
+          .join("\n")}`
+      )
+    ) {
+      return;
+    }
+    downloadCsv(
+      `qoo10-bulk-${Date.now()}.csv`,
+      payloadsToQsmRows(chosen.map((r) => r.payload))
+    );
+  };
+
+  return (
+    <div className="preview-box">
+      <div className="progress-header">
+        <div className="result-title">
+          出品プレビュー（出品予定 {plan.payloads.length}件 ／ 除外{" "}
+          {plan.results.length}件）
+        </div>
+        <div className="progress-meta">
+          ※ 送信はまだ行っていません。設定を変更した場合は再度プレビューしてください。
+        </div>
+        <button className="btn btn-pink" onClick={onClose} disabled={busy}>
+          閉じる
+        </button>
+        <button
+          className="btn btn-blue"
+          onClick={exportQsm}
+          disabled={busy || !chosen.length || invalid.length > 0}
+        >
+          Qoo10一括登録ファイル出力
+        </button>
+        <button
+          className="btn btn-green"
+          onClick={() => onConfirm(chosen.map((r) => r.payload))}
+          disabled={busy || !chosen.length || invalid.length > 0}
+        >
+          選択した{chosen.length}件を出品
+        </button>
+      </div>
+
+      {invalid.length > 0 && (
+        <div className="result-heading result-heading-red">
+          タイトルが空・カテゴリNoが未設定・価格が価格ルールや利益率の条件を外れている・薬機法チェックに該当する行があります:{" "}
+          {invalid.map((r) => r.payload.asin).join(", ")}
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="table-card">
+          <table aria-label="出品プレビュー">
+            <thead>
+              <tr>
+                <th>
+                  <input
+                    type="checkbox"
+                    checked={rows.every((r) => r.include)}
+                    onChange={(e) =>
+                      setRows((prev) =>
+                        prev.map((r) => ({ ...r, include: e.target.checked }))
+                      )
+                    }
+                  />
+                </th>
+                <th>ASIN</th>
+                <th>タイトル（削除ワード・薬機法チェック適用後）</th>
+                <th>Qoo10価格</th>
+                <th>カテゴリNo</th>
+                <th>在庫</th>
+                <th>送料コード</th>
+                <th>JAN</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r, i) => (
+                <tr key={r.payload.asin}>
+                  <td className="checkbox-cell">
+                    <input
+                      type="checkbox"
+                      checked={r.include}
+                      onChange={(e) => toggleRow(i, e.target.checked)}
+                    />
+                  </td>
+                  <td className="cell-center">{r.payload.asin}</td>
+                  <td className="cell-name">
+                    <input
+                      className="settings-input"
+                      value={r.payload.title}
+                      onChange={(e) => updateRow(i, { title: e.target.value })}
+                    />
+                    {plan.claims[r.payload.asin] && (
+                      <div className="note">
+                        削除した表現:{" "}
+                        {plan.claims[r.payload.asin]
+                          .map(describeClaimRule)
+                          .join("、")}
+                      </div>
+                    )}
+                    {flaggedOf(r.payload).length > 0 && (
+                      <div className="note cell-warn">
+                        薬機法チェック:{" "}
+                        {flaggedOf(r.payload).map(describeClaimRule).join("、")}
+                      </div>
+                    )}
+                  </td>
+                  <td className="cell-right">
+                    <input
+                      className="settings-input"
+                      style={{ width: 90 }}
+                      value={r.payload.price}
+                      onChange={(e) =>
+                        updateRow(i, {
+                          price:
+                            Number(e.target.value.replace(/[^0-9]/g, "")) || 0,
+                        })
+                      }
+                    />
+                    <div className="note">{formatYen(r.payload.price)}</div>
+                    {priceProblemsOf(r.payload).map((msg) => (
+                      <div key={msg} className="note cell-warn">
+                        {msg}
+                      </div>
+                    ))}
+                  </td>
+                  <td className="cell-center">
+                    <input
+                      className="settings-input"
+                      style={{ width: 100 }}
+                      value={r.payload.categoryNo ?? ""}
+                      placeholder="未設定"
+                      onChange={(e) => {
+                        const v = e.target.value.replace(/[^0-9]/g, "");
+                        updateRow(i, {
+                          categoryNo: v ? Number(v) : undefined,
+                        });
+                      }}
+                    />
+                    {!r.payload.categoryNo && (
+                      <div className="note cell-warn">
+                        カテゴリNoを入力してください
+                      </div>
+                    )}
+                    {plan.categories[r.payload.asin] && (
+                      <div className="note">
+                        {describeCategoryChoice(
+                          plan.categories[r.payload.asin]
+                        )}
+                      </div>
+                    )}
+                  </td>
+                  <td className="cell-center">{r.payload.stock ?? "-"}</td>
+                  <td className="cell-center">{r.payload.shippingCode}</td>
+                  <td className="cell-center">{r.payload.jan || "-"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {plan.results.length > 0 && (
+        <>
+          <div className="result-heading result-heading-red">
+            出品対象外: {plan.results.length}件
+          </div>
+          <ul className="result-list">
+            {plan.results.map((r) => (
+              <li key={r.asin}>
+                [{STATUS_LABEL[r.status] ?? r.status}] {r.asin}{" "}
+                {nameOf(r.asin)} - {r.message}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ListingPreview;
@@ -0,0 +1,82 @@
+// src/components/NumberMapEditor.tsx
+// 「キー → 数値」の設定マップ編集（カテゴリ別手数料・送料コード別送料など）
+
+import React, { useState } from "react";
+
+type NumberMapEditorProps = {
+  title: string;
+  map: Record<string, number>;
+  keyPlaceholder: string;
+  valuePlaceholder: string;
+  /** 表示用の単位（例: "%", "円"） */
+  unit: string;
+  onChange: (map: Record<string, number>) => void;
+};
+
+const NumberMapEditor: React.FC<NumberMapEditorProps> = ({
+  title,
+  map,
+  keyPlaceholder,
+  valuePlaceholder,
+  unit,
+  onChange,
+}) => {
+  const [newKey, setNewKey] = useState("");
+  const [newVal, setNewVal] = useState("");
+
+  const add = () => {
+    const k = newKey.trim();
+    const v = Number(newVal.trim());
+    if (!k || newVal.trim() === "" || Number.isNaN(v)) return;
+    onChange({ ...map, [k]: v });
+    setNewKey("");
+    setNewVal("");
+  };
+
+  return (
+    <div className="settings-card">
+      <div className="settings-subtitle">{title}</div>
+      <div className="pill-list">
+        {Object.keys(map).length === 0 && (
+          <div className="note">登録された項目はありません。</div>
+        )}
+        {Object.entries(map).map(([k, v]) => (
+          <div key={k} className="pill">
+            {k} → {v}
+            {unit}
+            <span
+              className="pill-remove"
+              onClick={() => {
+                const next = { ...map };
+                delete next[k];
+                onChange(next);
+              }}
+            >
+              ×
+            </span>
+          </div>
+        ))}
+      </div>
+      <div className="settings-btn-row">
+        <input
+          className="settings-input"
+          placeholder={keyPlaceholder}
+          value={newKey}
+          onChange={(e) => setNewKey(e.target.value)}
+        />
+        <input
+          className="settings-input"
+          placeholder={valuePlaceholder}
+          value={newVal}
+          onChange={(e) => setNewVal(e.target.value.replace(/[^0-9.]/g, ""))}
+          onKeyDown={(e) => e.key === "Enter" && add()}
+        />
+        <button className="btn btn-green" onClick={add}>
+          追加
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default NumberMapEditor;
@@ -0,0 +1,164 @@
+// src/components/PriceRuleSetEditor.tsx
+// 価格レンジ表・端数処理・下限/上限価格の編集（レンジの重なり・隙間を警告）
+// レンジ表は手元で編集し、エラーが無くなったときだけ設定に反映する
+
+import React, { useState } from "react";
+
+import {
+  ROUNDING_LABEL,
+  validatePriceRules,
+  type PriceRuleSet,
+  type RoundingMode,
+} from "../pricing";
+import type { PriceRule } from "../types";
+
+type PriceRuleSetEditorProps = {
+  value: PriceRuleSet;
+  onChange: (next: PriceRuleSet) => void;
+};
+
+const toInt = (v: string): number => Number(v.replace(/[^0-9]/g, "")) || 0;
+
+const PriceRuleSetEditor: React.FC<PriceRuleSetEditorProps> = ({
+  value,
+  onChange,
+}) => {
+  // 編集中のレンジ表。設定側が差し替わったら（読込・リセット）編集中の内容も戻す
+  const [draft, setDraft] = useState(value.rules);
+  const [source, setSource] = useState(value.rules);
+  if (value.rules !== source) {
+    setSource(value.rules);
+    setDraft(value.rules);
+  }
+
+  const errors = validatePriceRules(draft);
+
+  // 重なり・隙間のあるレンジ表は保存も価格計算にも使わせない
+  const setRules = (rules: PriceRule[]) => {
+    setDraft(rules);
+    if (!validatePriceRules(rules).length) onChange({ ...value, rules });
+  };
+
+  const updateRule = (i: number, patch: Partial<PriceRule>) => {
+    const rules = [...draft];
+    rules[i] = { ...rules[i], ...patch };
+    setRules(rules);
+  };
+
+  const addRule = () => {
+    const last = draft[draft.length - 1];
+    const min = last ? (last.max ?? last.min) + 1 : 1;
+    setRules([...draft, { min, multiply: 1.2, plus: 500 }]);
+  };
+
+  const removeRule = (i: number) => setRules(draft.filter((_, j) => j !== i));
+
+  return (
+    <>
+      <div className="settings-label">価格レンジごとの係数・加算</div>
+      {draft.map((r, i) => (
+        <div key={i} className="settings-btn-row" style={{ marginTop: 6 }}>
+          <input
+            className="settings-input"
+            style={{ width: 80 }}
+            value={r.min}
+            onChange={(e) => updateRule(i, { min: toInt(e.target.value) })}
+          />
+          <span>円〜</span>
+          <input
+            className="settings-input"
+            style={{ width: 80 }}
+            placeholder="上限なし"
+            value={r.max ?? ""}
+            onChange={(e) =>
+              updateRule(i, {
+                max: e.target.value.trim() ? toInt(e.target.value) : undefined,
+              })
+            }
+          />
+          <span>円 ×</span>
+          <input
+            className="settings-input"
+            style={{ width: 80 }}
+            value={r.multiply}
+            onChange={(e) =>
+              updateRule(i, {
+                multiply:
+                  Number(e.target.value.replace(/[^0-9.]/g, "")) || 1,
+              })
+            }
+          />
+          <span>＋</span>
+          <input
+            className="settings-input"
+            style={{ width: 80 }}
+            value={r.plus}
+            onChange={(e) => updateRule(i, { plus: toInt(e.target.value) })}
+          />
+          <span>円</span>
+          <button className="btn btn-red" onClick={() => removeRule(i)}>
+            削除
+          </button>
+        </div>
+      ))}
+      <div className="settings-btn-row">
+        <button className="btn btn-blue" onClick={addRule}>
+          レンジ追加
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="result-list result-heading-red" style={{ marginTop: 6 }}>
+          {errors.map((e) => (
+            <li key={e}>{e}</li>
+          ))}
+          <li>
+            直すまでは、直前の正しいレンジ表で価格を計算します（保存もされません）。
+          </li>
+        </ul>
+      )}
+
+      <div className="toggle-row" style={{ marginTop: 8 }}>
+        <div className="toggle-label">端数処理</div>
+        <select
+          className="settings-input"
+          style={{ width: 200 }}
+          value={value.rounding}
+          onChange={(e) =>
+            onChange({ ...value, rounding: e.target.value as RoundingMode })
+          }
+        >
+          {(Object.keys(ROUNDING_LABEL) as RoundingMode[]).map((m) => (
+            <option key={m} value={m}>
+              {ROUNDING_LABEL[m]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="toggle-row">
+        <div className="toggle-label">販売価格の下限（円・0で無効）</div>
+        <input
+          className="settings-input"
+          style={{ width: 120 }}
+          value={value.floorPrice}
+          onChange={(e) =>
+            onChange({ ...value, floorPrice: toInt(e.target.value) })
+          }
+        />
+      </div>
+      <div className="toggle-row">
+        <div className="toggle-label">販売価格の上限（円・0で無効）</div>
+        <input
+          className="settings-input"
+          style={{ width: 120 }}
+          value={value.ceilingPrice}
+          onChange={(e) =>
+            onChange({ ...value, ceilingPrice: toInt(e.target.value) })
+          }
+        />
+      </div>
+    </>
+  );
+};
+
+export default PriceRuleSetEditor;
@@ -0,0 +1,82 @@
+// src/components/ProductExportControl.tsx
+// 商品一覧の CSV 出力（対象範囲と出力列の選択）
+
+import React, { useState } from "react";
+
+import { EXPORT_COLUMNS, type ExportColumnId } from "../productExport";
+
+export type ExportScope = "all" | "filtered" | "selected";
+
+type ProductExportControlProps = {
+  counts: Record<ExportScope, number>;
+  columns: ExportColumnId[];
+  onColumnsChange: (columns: ExportColumnId[]) => void;
+  onExport: (scope: ExportScope) => void;
+};
+
+const SCOPE_LABEL: Record<ExportScope, string> = {
+  all: "全商品",
+  filtered: "検索結果",
+  selected: "選択中",
+};
+
+const ProductExportControl: React.FC<ProductExportControlProps> = ({
+  counts,
+  columns,
+  onColumnsChange,
+  onExport,
+}) => {
+  const [scope, setScope] = useState<ExportScope>("all");
+  const [editing, setEditing] = useState(false);
+
+  // 出力順は EXPORT_COLUMNS の並びに揃える
+  const toggleColumn = (id: ExportColumnId, on: boolean) =>
+    onColumnsChange(
+      EXPORT_COLUMNS.map((c) => c.id).filter((c) =>
+        c === id ? on : columns.includes(c)
+      )
+    );
+
+  return (
+    <>
+      <select
+        className="settings-input"
+        style={{ width: 160 }}
+        value={scope}
+        onChange={(e) => setScope(e.target.value as ExportScope)}
+      >
+        {(Object.keys(SCOPE_LABEL) as ExportScope[]).map((s) => (
+          <option key={s} value={s}>
+            {SCOPE_LABEL[s]}（{counts[s]}件）
+          </option>
+        ))}
+      </select>
+      <button
+        className="btn btn-blue"
+        onClick={() => onExport(scope)}
+        disabled={!counts[scope] || !columns.length}
+      >
+        CSV出力
+      </button>
+      <button className="btn btn-blue" onClick={() => setEditing((v) => !v)}>
+        出力列{editing ? "を閉じる" : "の設定"}
+      </button>
+      {editing && (
+        <div className="settings-btn-row" style={{ width: "100%" }}>
+          {EXPORT_COLUMNS.map((c) => (
+            <label key={c.id}>
+              <input
+                type="checkbox"
+                checked={columns.includes(c.id)}
+                onChange={(e) => toggleColumn(c.id, e.target.checked)}
+              />{" "}
+              {c.label}
+            </label>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ProductExportControl;
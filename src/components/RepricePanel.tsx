@@ -0,0 +1,199 @@
+// src/components/RepricePanel.tsx
+// 価格改定：出品済み商品の現在価格と価格ルール適用後の価格を比べて更新する
+
+import React, { useState } from "react";
+
+import type { UpdatePriceResult } from "../api/qeasy";
+import { formatYen } from "../pricing";
+import type { RepriceCandidate } from "../repricing";
+
+type RepricePanelProps = {
+  candidates: RepriceCandidate[];
+  busy: boolean;
+  results: UpdatePriceResult[] | null;
+  onSubmit: (targets: RepriceCandidate[]) => void;
+  /** 改定しても利益率が下限未満の商品の在庫を0にする */
+  onSuspend: (targets: RepriceCandidate[]) => void;
+  onClose: () => void;
+};
+
+/** 下限未満への値下げは改定しない（今の価格のまま） */
+const isBlocked = (c: RepriceCandidate) => c.lowMargin && c.diff < 0;
+
+const RepricePanel: React.FC<RepricePanelProps> = ({
+  candidates,
+  busy,
+  results,
+  onSubmit,
+  onSuspend,
+  onClose,
+}) => {
+  const [showAll, setShowAll] = useState(false);
+  const [checked, setChecked] = useState<Set<string>>(
+    () => new Set(candidates.filter((c) => c.drifted).map((c) => c.product.asin))
+  );
+
+  // 改定後は候補が作り直される。改定済み（差額なし）や対象外になった商品の選択を外す
+  const [source, setSource] = useState(candidates);
+  if (candidates !== source) {
+    setSource(candidates);
+    const drifted = new Set(
+      candidates.filter((c) => c.drifted).map((c) => c.product.asin)
+    );
+    setChecked((prev) => new Set([...prev].filter((a) => drifted.has(a))));
+  }
+
+  const rows = showAll
+    ? candidates
+    : candidates.filter((c) => c.drifted || c.lowMargin);
+  const chosen = candidates.filter(
+    (c) => !isBlocked(c) && checked.has(c.product.asin)
+  );
+  const toSuspend = candidates.filter(
+    (c) => c.suspend && c.product.qoo10Stock !== 0
+  );
+  const failed = results?.filter((r) => !r.ok) ?? [];
+  const succeeded = results?.filter((r) => r.ok) ?? [];
+
+  const toggle = (asin: string, on: boolean) =>
+    setChecked((prev) => {
+      const next = new Set(prev);
+      if (on) next.add(asin);
+      else next.delete(asin);
+      return next;
+    });
+
+  return (
+    <div className="preview-box">
+      <div className="progress-header">
+        <div className="result-title">
+          価格改定（出品済み {candidates.length}件 ／ 改定対象{" "}
+          {candidates.filter((c) => c.drifted).length}件 ／ 利益率不足{" "}
+          {toSuspend.length}件）
+        </div>
+        <label className="progress-meta">
+          <input
+            type="checkbox"
+            checked={showAll}
+            onChange={(e) => setShowAll(e.target.checked)}
+          />{" "}
+          しきい値未満の商品も表示
+        </label>
+        <button
+          className="btn btn-blue"
+          onClick={() =>
+            setChecked(
+              new Set(
+                candidates.filter((c) => c.drifted).map((c) => c.product.asin)
+              )
+            )
+          }
+          disabled={busy}
+        >
+          改定対象をすべて選択
+        </button>
+        <button
+          className="btn btn-red"
+          onClick={() => onSuspend(toSuspend)}
+          disabled={busy || !toSuspend.length}
+        >
+          利益率不足の{toSuspend.length}件を販売停止
+        </button>
+        <button className="btn btn-pink" onClick={onClose} disabled={busy}>
+          閉じる
+        </button>
+        <button
+          className="btn btn-green"
+          onClick={() => onSubmit(chosen)}
+          disabled={busy || !chosen.length}
+        >
+          {busy ? "価格更新中..." : `選択した${chosen.length}件の価格を更新`}
+        </button>
+      </div>
+
+      {results && (
+        <div className="note">
+          更新成功 {succeeded.length}件 ／ 失敗 {failed.length}件
+          {failed.length > 0 && (
+            <ul className="result-list result-heading-red">
+              {failed.map((r) => (
+                <li key={r.asin}>
+                  {r.asin} - {r.message || "価格更新に失敗しました。"}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="table-card">
+        <table aria-label="価格改定">
+          <thead>
+            <tr>
+              <th></th>
+              <th>ASIN</th>
+              <th>商品名</th>
+              <th>商品コード(Qoo10)</th>
+              <th>現在のQoo10価格</th>
+              <th>改定後価格</th>
+              <th>差額</th>
+              <th>利益率</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((c) => (
+              <tr key={c.product.asin}>
+                <td className="checkbox-cell">
+                  <input
+                    type="checkbox"
+                    checked={!isBlocked(c) && checked.has(c.product.asin)}
+                    disabled={isBlocked(c)}
+                    onChange={(e) => toggle(c.product.asin, e.target.checked)}
+                  />
+                </td>
+                <td className="cell-center">{c.product.asin}</td>
+                <td className="cell-name">{c.product.name}</td>
+                <td className="cell-center">{c.qoo10ItemCode}</td>
+                <td className="cell-right">{formatYen(c.currentPrice)}</td>
+                <td className="cell-right">{formatYen(c.newPrice)}</td>
+                <td
+                  className={
+                    c.diff < 0 ? "cell-right cell-warn" : "cell-right"
+                  }
+                >
+                  {c.diff > 0 ? "+" : c.diff < 0 ? "-" : ""}
+                  {formatYen(Math.abs(c.diff))}（{c.diffRate.toFixed(1)}%）
+                </td>
+                <td
+                  className={
+                    c.lowMargin ? "cell-right cell-warn" : "cell-right"
+                  }
+                >
+                  {c.marginRate != null ? `${c.marginRate.toFixed(1)}%` : "-"}
+                  {isBlocked(c) && (
+                    <div className="note">下限未満への値下げはしません</div>
+                  )}
+                  {c.suspend && (
+                    <div className="note">
+                      {isBlocked(c) ? "今の価格でも" : "改定しても"}
+                      下限未満のため販売停止が必要です
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={8} className="cell-center">
+                  改定が必要な商品はありません。
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RepricePanel;
@@ -0,0 +1,56 @@
+// src/components/RetryFailedControl.tsx
+// 「エラー分を再実行」ボタン（送料コード・カテゴリの差し替え付き）
+
+import React, { useState } from "react";
+
+import type { ListingOverrides } from "../listingPlan";
+
+type RetryFailedControlProps = {
+  count: number;
+  busy: boolean;
+  onRetry: (overrides: ListingOverrides) => void;
+};
+
+const RetryFailedControl: React.FC<RetryFailedControlProps> = ({
+  count,
+  busy,
+  onRetry,
+}) => {
+  const [shippingCode, setShippingCode] = useState("");
+  const [categoryNo, setCategoryNo] = useState("");
+
+  if (count === 0) return null;
+
+  return (
+    <div className="settings-btn-row" style={{ alignItems: "center" }}>
+      <input
+        className="settings-input"
+        style={{ width: 140 }}
+        placeholder="送料コード（変更時のみ）"
+        value={shippingCode}
+        onChange={(e) => setShippingCode(e.target.value.replace(/[^0-9]/g, ""))}
+      />
+      <input
+        className="settings-input"
+        style={{ width: 140 }}
+        placeholder="カテゴリNo（変更時のみ）"
+        value={categoryNo}
+        onChange={(e) => setCategoryNo(e.target.value.replace(/[^0-9]/g, ""))}
+      />
+      <button
+        className="btn btn-green"
+        disabled={busy}
+        onClick={() =>
+          onRetry({
+            shippingCode: shippingCode || undefined,
+            categoryNo: categoryNo ? Number(categoryNo) : undefined,
+          })
+        }
+      >
+        エラー分を再実行（{count}件）
+      </button>
+    </div>
+  );
+};
+
+export default RetryFailedControl;
@@ -0,0 +1,46 @@
+// src/components/RuleTestHits.tsx
+// ルール編集中の「テスト: 現在の商品 N件に該当」（WordRuleEditor・ClaimRuleEditor 共通）
+
+import React from "react";
+
+import type { Product } from "../types";
+
+export type RuleTestHit = {
+  product: Product;
+  /** 照合したタイトル */
+  title: string;
+  /** 削除系のルールで、取り除いた後のタイトル */
+  after?: string;
+};
+
+type RuleTestHitsProps = {
+  /** 入力が空・不正でテストしていないときは null */
+  hits: RuleTestHit[] | null;
+};
+
+/** テスト結果の表示件数 */
+const MAX_TEST_ROWS = 10;
+
+const RuleTestHits: React.FC<RuleTestHitsProps> = ({ hits }) => {
+  if (!hits) return null;
+  return (
+    <div className="note">
+      テスト: 現在の商品 {hits.length}件に該当
+      {hits.length > 0 && (
+        <ul className="result-list">
+          {hits.slice(0, MAX_TEST_ROWS).map((h) => (
+            <li key={h.product.id}>
+              {h.product.asin} {h.title}
+              {h.after !== undefined && ` → ${h.after}`}
+            </li>
+          ))}
+          {hits.length > MAX_TEST_ROWS && (
+            <li>ほか {hits.length - MAX_TEST_ROWS}件</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RuleTestHits;
@@ -0,0 +1,98 @@
+// src/components/StockSyncLog.tsx
+// 在庫同期ログ：販売停止・在庫復帰の変更履歴と CSV 出力
+
+import React, { useState } from "react";
+
+import { downloadCsv } from "../csv";
+import {
+  STOCK_LOG_CSV_HEADER,
+  STOCK_REASON_LABEL,
+  stockLogToCsvRows,
+  type StockLogEntry,
+} from "../stockSync";
+
+type StockSyncLogProps = {
+  log: StockLogEntry[];
+};
+
+const formatDateTime = (iso: string): string =>
+  new Date(iso).toLocaleString("ja-JP");
+
+const StockSyncLog: React.FC<StockSyncLogProps> = ({ log }) => {
+  const [failedOnly, setFailedOnly] = useState(false);
+
+  const rows = failedOnly ? log.filter((e) => !e.ok) : log;
+
+  return (
+    <>
+      <div className="search-row">
+        <label className="progress-meta">
+          <input
+            type="checkbox"
+            checked={failedOnly}
+            onChange={(e) => setFailedOnly(e.target.checked)}
+          />{" "}
+          失敗のみ表示
+        </label>
+        <button
+          className="btn btn-blue"
+          onClick={() =>
+            downloadCsv("qeasy-stock-log.csv", [
+              STOCK_LOG_CSV_HEADER,
+              ...stockLogToCsvRows(rows),
+            ])
+          }
+          disabled={!rows.length}
+        >
+          CSV出力
+        </button>
+      </div>
+
+      <div className="table-card">
+        <table aria-label="在庫同期ログ">
+          <thead>
+            <tr>
+              <th>日時</th>
+              <th>ASIN</th>
+              <th>商品名</th>
+              <th>Qoo10商品コード</th>
+              <th>在庫</th>
+              <th>理由</th>
+              <th>結果</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((e, i) => (
+              <tr key={e.at + ":" + e.asin + ":" + i}>
+                <td className="cell-center">{formatDateTime(e.at)}</td>
+                <td className="cell-center">{e.asin}</td>
+                <td className="cell-name">{e.name}</td>
+                <td className="cell-center">{e.qoo10ItemCode}</td>
+                <td className="cell-center">
+                  {e.from} → {e.to}
+                </td>
+                <td>
+                  {STOCK_REASON_LABEL[e.reason]}
+                  <div className="note">{e.detail}</div>
+                </td>
+                <td className={e.ok ? "cell-center" : "cell-center cell-warn"}>
+                  {e.ok ? "成功" : "失敗"}
+                  {e.message && <div className="note">{e.message}</div>}
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={7} className="cell-center">
+                  在庫同期による変更はまだありません。
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+};
+
+export default StockSyncLog;
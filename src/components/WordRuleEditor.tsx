@@ -0,0 +1,268 @@
+// src/components/WordRuleEditor.tsx
+// 出品不可ASIN・出品不可ワード・商品名削除ワードの編集（照合方法・対象・メモ・期限）
+// 登録前に、入力中のルールが今の商品一覧のどれに当たるかを確認できる
+
+import React, { useMemo, useState } from "react";
+
+import type { Product } from "../types";
+import {
+  findAsinRuleHits,
+  findWordRuleHits,
+  isWordRuleActive,
+  newWordRule,
+  productWordTarget,
+  ruleKeyOf,
+  stripWords,
+  upsertRule,
+  WORD_MATCH_MODE_LABEL,
+  WORD_RULE_SCOPE_LABEL,
+  wordRuleError,
+  type WordMatchMode,
+  type WordRule,
+  type WordRuleScope,
+} from "../wordRules";
+
+import RuleTestHits, { type RuleTestHit } from "./RuleTestHits";
+
+/** asin: ASIN を照合 / word: 出品不可ワード（対象項目を選べる） / erase: 商品名から削除 */
+export type WordRuleKind = "asin" | "word" | "erase";
+
+type WordRuleEditorProps = {
+  title: string;
+  kind: WordRuleKind;
+  rules: WordRule[];
+  products: Product[];
+  onChange: (rules: WordRule[]) => void;
+};
+
+function testRule(
+  kind: WordRuleKind,
+  rule: WordRule,
+  products: Product[]
+): RuleTestHit[] {
+  // テストは期限に関係なく当たり方を見せる
+  const probe = { ...rule, expiresAt: undefined };
+  if (kind === "asin") {
+    return products
+      .filter((p) => findAsinRuleHits([probe], p.asin).length)
+      .map((product) => ({ product, title: product.name }));
+  }
+  if (kind === "word") {
+    return products
+      .filter((p) => findWordRuleHits([probe], productWordTarget(p)).length)
+      .map((product) => ({ product, title: product.name }));
+  }
+  return products
+    .map((product) => ({
+      product,
+      title: product.name,
+      after: stripWords(product.name, [probe]),
+    }))
+    .filter((it) => it.after !== stripWords(it.title, []));
+}
+
+const WordRuleEditor: React.FC<WordRuleEditorProps> = ({
+  title,
+  kind,
+  rules,
+  products,
+  onChange,
+}) => {
+  const [draft, setDraft] = useState<WordRule>(() => newWordRule());
+  // 編集中のルール（ruleKeyOf）。更新するまで一覧には元のまま残す
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [bulk, setBulk] = useState("");
+  const [showBulk, setShowBulk] = useState(false);
+
+  const patchDraft = (patch: Partial<WordRule>) =>
+    setDraft((d) => ({ ...d, ...patch }));
+
+  // 登録済みルールの該当件数（入力中の再描画では数え直さない）
+  const hitCounts = useMemo(
+    () => rules.map((r) => testRule(kind, r, products).length),
+    [kind, rules, products]
+  );
+
+  const draftError = wordRuleError(draft);
+  const draftHits = draft.pattern.trim()
+    ? testRule(kind, { ...draft, pattern: draft.pattern.trim() }, products)
+    : null;
+
+  const resetDraft = () => {
+    setDraft((d) => ({ ...newWordRule(), mode: d.mode, scope: d.scope }));
+    setEditingKey(null);
+  };
+
+  const save = () => {
+    const pattern = draft.pattern.trim();
+    if (!pattern || draftError) return;
+    onChange(upsertRule(rules, { ...draft, pattern }, editingKey ?? undefined));
+    resetDraft();
+  };
+
+  const addBulk = () => {
+    const list = bulk
+      .split(/[\s,\n、，]+/)
+      .map((x) => x.trim())
+      .filter(Boolean);
+    if (!list.length) return;
+    const known = new Set(rules.map((r) => r.pattern));
+    const added = list
+      .filter((t) => !known.has(t))
+      .map((pattern) => ({ ...newWordRule(pattern), note: draft.note }));
+    onChange([...rules, ...added]);
+    setBulk("");
+    setShowBulk(false);
+  };
+
+  // 編集は入力欄に読み込み、「更新」でその位置のルールを置き換える
+  const edit = (i: number) => {
+    setDraft(rules[i]);
+    setEditingKey(ruleKeyOf(rules[i]));
+  };
+
+  const remove = (i: number) => {
+    if (ruleKeyOf(rules[i]) === editingKey) resetDraft();
+    onChange(rules.filter((_, j) => j !== i));
+  };
+
+  return (
+    <div className="settings-card">
+      <div className="settings-subtitle">{title}</div>
+      <div className="settings-btn-row">
+        <input
+          className="settings-input"
+          placeholder={
+            draft.mode === "regex" ? "正規表現（例: ^B0[0-9A-Z]+）" : "単体入力"
+          }
+          value={draft.pattern}
+          onChange={(e) => patchDraft({ pattern: e.target.value })}
+          onKeyDown={(e) => e.key === "Enter" && save()}
+        />
+        <select
+          className="settings-input"
+          style={{ width: 110 }}
+          value={draft.mode}
+          onChange={(e) =>
+            patchDraft({ mode: e.target.value as WordMatchMode })
+          }
+        >
+          {(Object.keys(WORD_MATCH_MODE_LABEL) as WordMatchMode[]).map((m) => (
+            <option key={m} value={m}>
+              {WORD_MATCH_MODE_LABEL[m]}
+            </option>
+          ))}
+        </select>
+        {kind === "word" && (
+          <select
+            className="settings-input"
+            style={{ width: 130 }}
+            value={draft.scope}
+            onChange={(e) =>
+              patchDraft({ scope: e.target.value as WordRuleScope })
+            }
+          >
+            {(Object.keys(WORD_RULE_SCOPE_LABEL) as WordRuleScope[]).map(
+              (s) => (
+                <option key={s} value={s}>
+                  {WORD_RULE_SCOPE_LABEL[s]}
+                </option>
+              )
+            )}
+          </select>
+        )}
+      </div>
+      <div className="settings-btn-row">
+        <input
+          className="settings-input"
+          placeholder="メモ・理由（任意）"
+          value={draft.note}
+          onChange={(e) => patchDraft({ note: e.target.value })}
+        />
+        <input
+          type="date"
+          className="settings-input"
+          style={{ width: 150 }}
+          title="有効期限（この日まで有効。空なら無期限）"
+          value={draft.expiresAt ?? ""}
+          onChange={(e) =>
+            patchDraft({ expiresAt: e.target.value || undefined })
+          }
+        />
+        <button
+          className="btn btn-green"
+          onClick={save}
+          disabled={!draft.pattern.trim() || !!draftError}
+        >
+          {editingKey ? "更新" : "登録"}
+        </button>
+        {editingKey ? (
+          <button className="btn btn-pink" onClick={resetDraft}>
+            キャンセル
+          </button>
+        ) : (
+          <button
+            className="btn btn-pink"
+            onClick={() => setShowBulk((s) => !s)}
+          >
+            一括登録
+          </button>
+        )}
+      </div>
+
+      {draftError && <div className="note cell-warn">{draftError}</div>}
+      <RuleTestHits hits={draftError ? null : draftHits} />
+
+      {showBulk && (
+        <>
+          <textarea
+            className="settings-input"
+            style={{ marginTop: 4, height: 72 }}
+            placeholder="改行・スペース・カンマ区切りで複数入力（部分一致で登録）"
+            value={bulk}
+            onChange={(e) => setBulk(e.target.value)}
+          />
+          <div style={{ marginTop: 4, textAlign: "right" }}>
+            <button className="btn btn-green" onClick={addBulk}>
+              追加
+            </button>
+          </div>
+        </>
+      )}
+
+      {rules.length === 0 && (
+        <div className="note">登録された項目はありません。</div>
+      )}
+      <ul className="result-list">
+        {rules.map((r, i) => {
+          const active = isWordRuleActive(r);
+          const key = ruleKeyOf(r);
+          return (
+            <li key={key}>
+              <span className={active ? undefined : "cell-warn"}>
+                {r.pattern}
+              </span>{" "}
+              <span className="note">
+                [{WORD_MATCH_MODE_LABEL[r.mode]}
+                {kind === "word" && ` / ${WORD_RULE_SCOPE_LABEL[r.scope]}`}]
+                {r.note && ` ${r.note}`}
+                {r.expiresAt &&
+                  ` （${r.expiresAt}まで${active ? "" : "・期限切れ"}）`}
+                {` 該当${hitCounts[i]}件`}
+                {key === editingKey && "（編集中）"}
+              </span>{" "}
+              <button className="btn btn-blue" onClick={() => edit(i)}>
+                編集
+              </button>{" "}
+              <button className="btn btn-red" onClick={() => remove(i)}>
+                削除
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default WordRuleEditor;
@@ -0,0 +1,86 @@
+// src/csv.ts
+// CSV 入出力（RFC 4180 準拠の読込と、Excel で日本語が化けないよう BOM 付きの出力）
+
+const escapeCell = (v: unknown): string => {
+  const s = v == null ? "" : String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export function toCsv(rows: unknown[][]): string {
+  return rows.map((r) => r.map(escapeCell).join(",")).join("\r\n");
+}
+
+export function downloadCsv(filename: string, rows: unknown[][]): void {
+  const blob = new Blob(["\ufeff" + toCsv(rows)], {
+    type: "text/csv;charset=utf-8",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+/** 1行目（引用符の外）で最も多い区切り文字。Keepa の地域設定によりカンマ以外もある */
+export function detectDelimiter(text: string): string {
+  const counts: Record<string, number> = { ",": 0, ";": 0, "\t": 0 };
+  let quoted = false;
+  for (const ch of text) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && (ch === "\n" || ch === "\r")) break;
+    else if (!quoted && ch in counts) counts[ch]++;
+  }
+  return Object.keys(counts).reduce((a, b) => (counts[b] > counts[a] ? b : a));
+}
+
+/**
+ * RFC 4180 の CSV を行×セルに分解する。
+ * - "..." 内のカンマ・改行、"" による引用符のエスケープに対応
+ * - 先頭の BOM は除去、空行は捨てる
+ */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const sep = delimiter ?? detectDelimiter(src);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((c) => c.trim() !== "")) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch !== '"') {
+        cell += ch;
+      } else if (src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === sep) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\r" || ch === "\n") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length) endRow();
+
+  return rows;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+
+import { applyDelist, delistTargets } from "./delist";
+import type { Product } from "./types";
+
+const product = (patch: Partial<Product> = {}): Product => ({
+  id: 1,
+  asin: "B000TEST01",
+  name: "ヘアケア シャンプー 500ml",
+  mainImage: "",
+  amazonPrice: 1000,
+  updatedAt: "",
+  qoo10Id: "1000000001",
+  ...patch,
+});
+
+describe("delistTargets", () => {
+  const products = [
+    product(),
+    product({ id: 2, asin: "B000TEST02", qoo10Id: undefined }),
+    product({ id: 3, asin: "B000TEST03", qoo10Id: "3", qoo10Suspended: true }),
+  ];
+  const all = new Set([1, 2, 3]);
+
+  it("skips products without a Qoo10 item code", () => {
+    expect(
+      delistTargets(products, all, "end").map((t) => t.qoo10ItemCode)
+    ).toEqual(["1000000001", "3"]);
+  });
+
+  it("resumes only suspended products", () => {
+    expect(
+      delistTargets(products, all, "resume").map((t) => t.product.id)
+    ).toEqual([3]);
+  });
+});
+
+describe("applyDelist", () => {
+  it("keeps the ended item code, newest first", () => {
+    const ended = applyDelist(
+      product({ qoo10Price: 1600, endedQoo10Ids: ["900", "1000000001"] }),
+      "end"
+    );
+    expect(ended.qoo10Id).toBeUndefined();
+    expect(ended.qoo10Price).toBeUndefined();
+    expect(ended.endedQoo10Ids).toEqual(["1000000001", "900"]);
+  });
+
+  it("suspends and resumes while keeping the item code", () => {
+    const suspended = applyDelist(product(), "suspend");
+    expect(suspended).toMatchObject({
+      qoo10Id: "1000000001",
+      qoo10Suspended: true,
+    });
+    expect(applyDelist(suspended, "resume").qoo10Suspended).toBeUndefined();
+  });
+});
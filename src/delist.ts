@@ -0,0 +1,55 @@
+// src/delist.ts
+// 「Qoo10から出品停止」：販売終了・一時停止・再開の対象選びと、成功後の商品の更新
+//
+// - 販売終了は商品コードの紐付けを外すが、終了したコードは endedQoo10Ids に残す
+// - 再開は一時停止中の商品だけが対象
+
+import type { DelistMode } from "./api/qeasy";
+import type { Product } from "./types";
+
+export const DELIST_MODE_LABEL: Record<DelistMode, string> = {
+  end: "販売終了",
+  suspend: "一時停止",
+  resume: "販売再開",
+};
+
+export type DelistTarget = {
+  product: Product;
+  qoo10ItemCode: string;
+};
+
+/** 選択中の商品のうち、そのモードで Qoo10 に送れるもの */
+export const delistTargets = (
+  products: Product[],
+  selected: Set<number>,
+  mode: DelistMode
+): DelistTarget[] =>
+  products.flatMap((p) =>
+    selected.has(p.id) && p.qoo10Id && (mode !== "resume" || p.qoo10Suspended)
+      ? [{ product: p, qoo10ItemCode: p.qoo10Id }]
+      : []
+  );
+
+/** Qoo10 側で成功した後の商品 */
+export function applyDelist(product: Product, mode: DelistMode): Product {
+  const code = product.qoo10Id;
+  if (!code) return product;
+  switch (mode) {
+    case "end":
+      return {
+        ...product,
+        qoo10Id: undefined,
+        qoo10Price: undefined,
+        qoo10Stock: undefined,
+        qoo10Suspended: undefined,
+        endedQoo10Ids: [
+          code,
+          ...(product.endedQoo10Ids ?? []).filter((id) => id !== code),
+        ],
+      };
+    case "suspend":
+      return { ...product, qoo10Suspended: true };
+    case "resume":
+      return { ...product, qoo10Suspended: undefined };
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+
+import { applyImportReview, type ImportReviewItem } from "./importReview";
+import type { Product } from "./types";
+
+const product = (patch: Partial<Product> = {}): Product => ({
+  id: 1,
+  asin: "B000TEST01",
+  name: "ヘアケア シャンプー 500ml",
+  mainImage: "",
+  amazonPrice: 1000,
+  updatedAt: "2026-01-01 00:00:00",
+  ...patch,
+});
+
+describe("applyImportReview", () => {
+  const existing = product();
+  const incoming = product({
+    id: 0,
+    amazonPrice: 1200,
+    updatedAt: "2026-01-02 00:00:00",
+  });
+  const items: ImportReviewItem[] = [
+    {
+      asin: "B000TEST01",
+      status: "duplicate",
+      product: { ...existing, amazonPrice: 1200 },
+      existing,
+      incoming,
+      changes: [],
+    },
+  ];
+
+  it("refreshes the product as it is at apply time", () => {
+    // 確認中に出品され、Qoo10 側の情報が付いた
+    const listed = { ...existing, qoo10Id: "1000000001", qoo10Price: 1600 };
+    const [next] = applyImportReview([listed], items, {
+      refreshAsins: new Set(["B000TEST01"]),
+      includeForbidden: false,
+    });
+    expect(next).toMatchObject({
+      id: 1,
+      amazonPrice: 1200,
+      qoo10Id: "1000000001",
+      qoo10Price: 1600,
+    });
+  });
+
+  it("keeps duplicates that were not chosen for refresh", () => {
+    const [next] = applyImportReview([existing], items, {
+      refreshAsins: new Set(),
+      includeForbidden: false,
+    });
+    expect(next).toBe(existing);
+  });
+});
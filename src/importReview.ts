@@ -0,0 +1,205 @@
+// src/importReview.ts
+// 取込内容の確認：新規 / 既存と重複 / Amazon 未取得 / 出品不可 に振り分け、
+// 確定するまで products には反映しない
+
+import type { AmazonItemInfo } from "./api/qeasy";
+import {
+  importedToProduct,
+  needsAmazonLookup,
+  type ImportedRow,
+} from "./keepaImport";
+import {
+  brandBlockRule,
+  noListAsinRule,
+  noListWordRule,
+  type RuleContext,
+} from "./listingRules";
+import { formatYen } from "./pricing";
+import type { Product, SettingsState } from "./types";
+
+export type ImportReviewStatus =
+  | "new" // 一覧に無い ASIN
+  | "duplicate" // 一覧に既にある（情報の更新を選べる）
+  | "not_found" // Amazon 情報が取れず、CSV にも商品名・価格が無い
+  | "forbidden"; // 出品不可ASIN・禁止ワードに該当
+
+export type ImportReviewItem = {
+  asin: string;
+  status: ImportReviewStatus;
+  /** 取り込んだ場合の商品（not_found では undefined） */
+  product?: Product;
+  /** duplicate: 一覧にある商品（確認時点） */
+  existing?: Product;
+  /** duplicate: 取り込んだ内容そのもの（確定時に最新の商品へ重ね直す） */
+  incoming?: Product;
+  /** duplicate: 更新した場合に変わる項目 */
+  changes: string[];
+  /** not_found / forbidden の理由 */
+  reason?: string;
+};
+
+export type ImportReviewInput = {
+  imports: ImportedRow[];
+  infoMap: ReadonlyMap<string, AmazonItemInfo>;
+  /** /amazon/bulk が失敗した ASIN → 理由 */
+  lookupErrors: ReadonlyMap<string, string>;
+  products: Product[];
+  settings: SettingsState;
+  now: string;
+};
+
+/** 既存商品に取込内容を重ねる（id・Qoo10 側の情報は残す） */
+export function refreshedProduct(
+  existing: Product,
+  incoming: Product
+): Product {
+  const hasImage = !!incoming.images?.length;
+  return {
+    ...existing,
+    name: incoming.name,
+    jan: incoming.jan ?? existing.jan,
+    mainImage: hasImage ? incoming.mainImage : existing.mainImage,
+    images: hasImage ? incoming.images : existing.images,
+    amazonPrice: incoming.amazonPrice,
+    inStock: incoming.inStock,
+    sellerCount: incoming.sellerCount ?? existing.sellerCount,
+    salesRank: incoming.salesRank ?? existing.salesRank,
+    brand: incoming.brand ?? existing.brand,
+    updatedAt: incoming.updatedAt,
+  };
+}
+
+function diffProducts(before: Product, after: Product): string[] {
+  const changes: string[] = [];
+  if (before.name !== after.name) changes.push(`商品名: ${after.name}`);
+  if (before.amazonPrice !== after.amazonPrice) {
+    changes.push(
+      `Amazon価格: ${formatYen(before.amazonPrice)} → ${formatYen(
+        after.amazonPrice
+      )}`
+    );
+  }
+  if (before.inStock !== after.inStock) {
+    changes.push(`在庫: ${after.inStock === false ? "在庫なし" : "在庫あり"}`);
+  }
+  if (before.jan !== after.jan) {
+    changes.push(`JAN: ${before.jan || "-"} → ${after.jan || "-"}`);
+  }
+  if (before.sellerCount !== after.sellerCount) {
+    changes.push(
+      `出品者数: ${before.sellerCount ?? "-"} → ${after.sellerCount ?? "-"}`
+    );
+  }
+  if (before.salesRank !== after.salesRank) {
+    changes.push(
+      `ランキング: ${before.salesRank ?? "-"} → ${after.salesRank ?? "-"}`
+    );
+  }
+  if (before.mainImage !== after.mainImage) changes.push("画像");
+  return changes;
+}
+
+/** 出品時と同じ判定で、取り込んでもすぐ除外されるものを見つける */
+function forbiddenReasonOf(
+  product: Product,
+  settings: SettingsState
+): string | undefined {
+  const ctx: RuleContext = {
+    product,
+    info: undefined,
+    settings,
+    existingAsins: new Set(),
+  };
+  for (const rule of [noListAsinRule, noListWordRule, brandBlockRule]) {
+    const verdict = rule.check(ctx);
+    if (verdict.kind !== "pass") return verdict.message;
+  }
+  return undefined;
+}
+
+export function buildImportReview({
+  imports,
+  infoMap,
+  lookupErrors,
+  products,
+  settings,
+  now,
+}: ImportReviewInput): ImportReviewItem[] {
+  const existingOf = new Map(products.map((p) => [p.asin, p]));
+
+  return imports.map((row): ImportReviewItem => {
+    const info = infoMap.get(row.asin);
+    if (!info && needsAmazonLookup(row)) {
+      return {
+        asin: row.asin,
+        status: "not_found",
+        changes: [],
+        reason:
+          lookupErrors.get(row.asin) ??
+          "Amazon情報が返らず、CSVにも商品名・価格がありません。",
+      };
+    }
+
+    // id は確定時に振る
+    const product = importedToProduct(row, info, 0, now);
+    const existing = existingOf.get(row.asin);
+    if (existing) {
+      const refreshed = refreshedProduct(existing, product);
+      return {
+        asin: row.asin,
+        status: "duplicate",
+        product: refreshed,
+        existing,
+        incoming: product,
+        changes: diffProducts(existing, refreshed),
+      };
+    }
+
+    const reason = forbiddenReasonOf(product, settings);
+    return reason
+      ? { asin: row.asin, status: "forbidden", product, changes: [], reason }
+      : { asin: row.asin, status: "new", product, changes: [] };
+  });
+}
+
+export type ImportDecision = {
+  /** 情報を更新する重複 ASIN */
+  refreshAsins: ReadonlySet<string>;
+  /** 出品不可に該当するものも一覧に追加する */
+  includeForbidden: boolean;
+};
+
+/**
+ * 確認結果を products に反映する
+ *
+ * 重複の更新は確認中に変わった項目（出品・在庫同期の結果など）を消さないよう、
+ * 確定時点の商品に取込内容を重ね直す
+ */
+export function applyImportReview(
+  products: Product[],
+  items: ImportReviewItem[],
+  { refreshAsins, includeForbidden }: ImportDecision
+): Product[] {
+  const incomingOf = new Map(
+    items.flatMap((it) =>
+      it.status === "duplicate" && it.incoming && refreshAsins.has(it.asin)
+        ? [[it.asin, it.incoming] as const]
+        : []
+    )
+  );
+  const next = products.map((p) => {
+    const incoming = incomingOf.get(p.asin);
+    return incoming ? refreshedProduct(p, incoming) : p;
+  });
+
+  const used = new Set(next.map((p) => p.asin));
+  let idBase = next.length ? Math.max(...next.map((p) => p.id)) + 1 : 1;
+  for (const it of items) {
+    const add =
+      it.status === "new" || (it.status === "forbidden" && includeForbidden);
+    if (!add || !it.product || used.has(it.asin)) continue;
+    next.push({ ...it.product, id: idBase++ });
+    used.add(it.asin);
+  }
+  return next;
+}
@@ -0,0 +1,218 @@
+// src/keepaImport.ts
+// Keepa 等の CSV → 取込行（列の自動推定と手動マッピング）
+//
+// - ASIN 以外に タイトル・ブランド・価格・JAN/EAN・出品者数・ランキング・画像 を取り込む
+// - タイトルと価格が CSV にあれば /amazon/bulk を呼ばずに商品を作れる
+
+import type { AmazonItemInfo } from "./api/qeasy";
+import type { Product } from "./types";
+
+export type ImportField =
+  | "asin"
+  | "title"
+  | "brand"
+  | "price"
+  | "jan"
+  | "sellerCount"
+  | "salesRank"
+  | "image";
+
+export const IMPORT_FIELD_LABEL: Record<ImportField, string> = {
+  asin: "ASIN",
+  title: "商品名",
+  brand: "ブランド",
+  price: "Amazon価格",
+  jan: "JAN/EAN",
+  sellerCount: "出品者数",
+  salesRank: "ランキング",
+  image: "画像URL",
+};
+
+/** フィールド → 列番号（null は取り込まない） */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export type ImportedRow = {
+  asin: string;
+  title?: string;
+  brand?: string;
+  price?: number;
+  jan?: string;
+  sellerCount?: number;
+  salesRank?: number;
+  image?: string;
+};
+
+// 見出しの候補（小文字・空白除去後に前方一致）。先に書いたものを優先する
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  asin: ["asin"],
+  title: ["title", "タイトル", "商品名"],
+  brand: ["brand", "ブランド", "メーカー", "manufacturer"],
+  price: [
+    "buybox:current",
+    "buybox価格:現在",
+    "カート価格:現在",
+    "amazon:current",
+    "amazon:現在",
+    "new:current",
+    "新品:現在",
+    "price",
+    "価格",
+  ],
+  jan: [
+    "productcodes:ean",
+    "商品コード:ean",
+    "ean",
+    "jan",
+    "productcodes:upc",
+    "upc",
+  ],
+  sellerCount: [
+    "countofretrievedliveoffers:new",
+    "newoffercount:current",
+    "新品出品者数:現在",
+    "出品者数",
+    "sellercount",
+  ],
+  salesRank: [
+    "salesrank:current",
+    "売れ筋ランキング:現在",
+    "ランキング:現在",
+    "salesrank",
+    "ランキング",
+  ],
+  image: ["image", "画像"],
+};
+
+const normalizeHeader = (h: string): string =>
+  h.toLowerCase().replace(/[\s_]/g, "").replace(/：/g, ":");
+
+export const isAsin = (v: string): boolean => /^[A-Z0-9]{10}$/i.test(v.trim());
+
+/**
+ * 見出し行から列の割当を推定する。
+ * 見出しに ASIN 列が無く、1行目の先頭セルが ASIN なら見出し無し（1列目が ASIN）とみなす。
+ */
+export function guessColumnMapping(firstRow: string[]): {
+  mapping: ColumnMapping;
+  hasHeader: boolean;
+} {
+  const headers = firstRow.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  for (const field of Object.keys(HEADER_ALIASES) as ImportField[]) {
+    mapping[field] = null;
+    for (const alias of HEADER_ALIASES[field]) {
+      const idx = headers.findIndex(
+        (h, i) => !used.has(i) && h.startsWith(alias)
+      );
+      if (idx !== -1) {
+        mapping[field] = idx;
+        used.add(idx);
+        break;
+      }
+    }
+  }
+
+  if (mapping.asin === null) {
+    return {
+      mapping: { ...mapping, asin: 0 },
+      hasHeader: !isAsin(firstRow[0] ?? ""),
+    };
+  }
+  return { mapping, hasHeader: true };
+}
+
+/** "¥1,234" / "1,234円" などから数値を取り出す。取れなければ undefined */
+export function parseNumberCell(v: string | undefined): number | undefined {
+  if (!v) return undefined;
+  const digits = v.replace(/[^0-9.]/g, "");
+  if (!digits) return undefined;
+  const n = Number(digits);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// Keepa は画像を「;」区切りのファイル名で出すことがある
+const AMAZON_IMAGE_BASE = "https://m.media-amazon.com/images/I/";
+
+export function parseImageCell(v: string | undefined): string | undefined {
+  const first = v?.split(/[;,\s]+/).find(Boolean);
+  if (!first) return undefined;
+  return /^https?:\/\//.test(first) ? first : AMAZON_IMAGE_BASE + first;
+}
+
+/** JAN/EAN は複数入っていることがあるので、先頭の 8/13 桁を採用 */
+export function parseJanCell(v: string | undefined): string | undefined {
+  return v?.match(/\b(\d{13}|\d{8})\b/)?.[1];
+}
+
+/** マッピングに従って行を取込行に変換する（ASIN が不正な行は捨て、重複は先勝ち） */
+export function rowsToImports(
+  rows: string[][],
+  mapping: ColumnMapping,
+  hasHeader: boolean
+): ImportedRow[] {
+  const cellOf = (row: string[], field: ImportField): string | undefined => {
+    const idx = mapping[field];
+    const v = idx === null ? undefined : row[idx]?.trim();
+    return v || undefined;
+  };
+
+  const seen = new Set<string>();
+  const out: ImportedRow[] = [];
+
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const asin = cellOf(row, "asin")?.toUpperCase();
+    if (!asin || !isAsin(asin) || seen.has(asin)) continue;
+    seen.add(asin);
+
+    const price = parseNumberCell(cellOf(row, "price"));
+    out.push({
+      asin,
+      title: cellOf(row, "title")?.replace(/\s+/g, " "),
+      brand: cellOf(row, "brand"),
+      price: price ? Math.round(price) : undefined,
+      jan: parseJanCell(cellOf(row, "jan")),
+      sellerCount: parseNumberCell(cellOf(row, "sellerCount")),
+      salesRank: parseNumberCell(cellOf(row, "salesRank")),
+      image: parseImageCell(cellOf(row, "image")),
+    });
+  }
+
+  return out;
+}
+
+/** タイトルか価格が欠けていて /amazon/bulk で補う必要がある行 */
+export function needsAmazonLookup(row: ImportedRow): boolean {
+  return !row.title || !row.price;
+}
+
+const NO_IMAGE_URL = "https://via.placeholder.com/120x120.png?text=No+Image";
+
+/**
+ * 取込行 → 商品。/amazon/bulk の結果があればそちらを優先し、
+ * 欠けている項目を CSV の値で補う。
+ */
+export function importedToProduct(
+  row: ImportedRow,
+  info: AmazonItemInfo | undefined,
+  id: number,
+  updatedAt: string
+): Product {
+  const image = info?.image || row.image;
+  const price = info?.price || row.price || 0;
+  return {
+    id,
+    asin: row.asin,
+    name: info?.title || row.title || row.asin,
+    jan: row.jan,
+    brand: info?.brand || row.brand,
+    mainImage: image || NO_IMAGE_URL,
+    images: image ? [image] : [],
+    amazonPrice: price,
+    inStock: !!price,
+    sellerCount: info?.sellerCount ?? row.sellerCount,
+    salesRank: row.salesRank,
+    updatedAt,
+  };
+}
@@ -0,0 +1,144 @@
+// src/listingHistory.ts
+// 出品履歴（実行ごとの設定スナップショットと ASIN 別結果）
+// localStorage に保持しつつ /listing-runs と同期する
+
+import type {
+  ListingResultItem,
+  ListingStatus,
+  SettingsState,
+} from "./types";
+
+export type ListingRun = {
+  id: string;
+  /** ISO 文字列 */
+  startedAt: string;
+  finishedAt: string;
+  cancelled: boolean;
+  /** 実行時点の設定（後から価格ルール等を確認するため） */
+  settings: SettingsState;
+  items: ListingResultItem[];
+};
+
+export const LISTING_STATUS_LABEL: Record<ListingStatus, string> = {
+  success: "成功",
+  exists: "既存",
+  forbidden: "除外",
+  error: "エラー",
+  cancelled: "未送信",
+};
+
+const HISTORY_KEY = "qeasy-listing-runs-v1";
+
+// localStorage の容量対策。古いものはサーバ側にのみ残る
+const MAX_LOCAL_RUNS = 100;
+
+export function loadLocalRuns(): ListingRun[] {
+  try {
+    const saved = localStorage.getItem(HISTORY_KEY);
+    return saved ? (JSON.parse(saved) as ListingRun[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveLocalRuns(runs: ListingRun[]): void {
+  try {
+    localStorage.setItem(
+      HISTORY_KEY,
+      JSON.stringify(runs.slice(0, MAX_LOCAL_RUNS))
+    );
+  } catch {
+    // 容量超過などは無視（サーバ同期が本体）
+  }
+}
+
+/** id で重複を除き、新しい順に並べる */
+export function mergeRuns(...lists: ListingRun[][]): ListingRun[] {
+  const map = new Map<string, ListingRun>();
+  for (const list of lists) {
+    for (const run of list) {
+      if (run?.id && !map.has(run.id)) map.set(run.id, run);
+    }
+  }
+  return Array.from(map.values()).sort((a, b) =>
+    b.startedAt.localeCompare(a.startedAt)
+  );
+}
+
+export function createRun(
+  startedAt: Date,
+  settings: SettingsState,
+  items: ListingResultItem[],
+  cancelled: boolean
+): ListingRun {
+  return {
+    id: `run-${startedAt.getTime()}`,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    cancelled,
+    settings,
+    items,
+  };
+}
+
+export const RUN_CSV_HEADER = [
+  "実行日時",
+  "ASIN",
+  "商品名",
+  "ステータス",
+  "出品価格",
+  "カテゴリNo",
+  "Qoo10商品コード",
+  "メッセージ",
+];
+
+export function runToCsvRows(run: ListingRun): unknown[][] {
+  return run.items.map((it) => [
+    run.startedAt,
+    it.asin,
+    it.name,
+    it.status,
+    it.price ?? "",
+    it.categoryNo ?? "",
+    it.qoo10ItemCode ?? "",
+    it.message,
+  ]);
+}
+
+/** ASIN ごとの直近の出品結果（runs は新しい順） */
+export function latestResultsByAsin(
+  runs: ListingRun[]
+): Map<string, ListingResultItem> {
+  const map = new Map<string, ListingResultItem>();
+  for (const run of runs) {
+    for (const it of run.items) {
+      if (!map.has(it.asin)) map.set(it.asin, it);
+    }
+  }
+  return map;
+}
+
+/** 出品成功の記録がある ASIN（再実行で二重出品しないため） */
+export function succeededAsins(runs: ListingRun[]): Set<string> {
+  return new Set(
+    runs.flatMap((r) =>
+      r.items.filter((it) => it.status === "success").map((it) => it.asin)
+    )
+  );
+}
+
+/** 再実行対象：エラーになった ASIN のうち、どの実行でも成功していないもの */
+export function retryableAsins(
+  items: ListingResultItem[],
+  runs: ListingRun[]
+): string[] {
+  const done = succeededAsins(runs);
+  items.forEach((it) => it.status === "success" && done.add(it.asin));
+  return Array.from(
+    new Set(
+      items
+        .filter((it) => it.status === "error" && it.asin !== "-")
+        .map((it) => it.asin)
+    )
+  ).filter((a) => !done.has(a));
+}
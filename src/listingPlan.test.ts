@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+
+import type { AmazonItemInfo } from "./api/qeasy";
+import { newClaimRule } from "./claimCheck";
+import { planListing, type ListingOverrides } from "./listingPlan";
+import { DEFAULT_PROFIT_SETTINGS } from "./profit";
+import { DEFAULT_CATEGORY_RULES } from "./qoo10Category";
+import type { Product, SettingsState } from "./types";
+
+const settings = (patch: Partial<SettingsState> = {}): SettingsState => ({
+  primeOnly: true,
+  primeShipDaysMax: 3,
+  maxStockPerItem: 2,
+  shippingCode: "645035",
+  rules: [{ min: 1, multiply: 1.2, plus: 400 }],
+  priceRounding: "none",
+  priceFloor: 0,
+  priceCeiling: 0,
+  scopedPriceRules: [],
+  repriceMinDiffYen: 0,
+  repriceMinDiffRate: 0,
+  stockSyncEnabled: true,
+  noListASINs: [],
+  noListWords: [],
+  nameEraseWords: [],
+  brandRules: [],
+  claimRules: [],
+  keepASINsOnDelete: [],
+  categoryMap: {},
+  autoCategoryEnabled: true,
+  categoryRules: DEFAULT_CATEGORY_RULES,
+  rejectedCategorySuggestions: [],
+  profit: DEFAULT_PROFIT_SETTINGS,
+  notifyOnSuccess: false,
+  notifyOnError: false,
+  autoApplyTemplate: false,
+  exportColumns: [],
+  batchChunkSize: 100,
+  batchConcurrency: 1,
+  batchDelayMs: 0,
+  batchMaxRetries: 0,
+  ...patch,
+});
+
+const product: Product = {
+  id: 1,
+  asin: "B000TEST01",
+  name: "ヘアケア シャンプー 500ml",
+  mainImage: "",
+  amazonPrice: 1000,
+  updatedAt: "",
+};
+
+const info: AmazonItemInfo = {
+  asin: "B000TEST01",
+  price: 1000,
+  sellerCount: 3,
+  title: "ヘアケア シャンプー 500ml",
+  isPrime: true,
+  shipDays: 1,
+};
+
+const plan = (s: SettingsState, overrides?: ListingOverrides) =>
+  planListing({
+    targets: [product],
+    infoMap: new Map([[info.asin, info]]),
+    existingAsins: new Set(),
+    amazonFailed: new Map(),
+    existingFailed: new Map(),
+    settings: s,
+    overrides,
+  });
+
+describe("planListing with retry overrides", () => {
+  it("sends the overridden shipping code and category", () => {
+    const { payloads } = plan(settings(), {
+      shippingCode: "700000",
+      categoryNo: 120000012,
+    });
+    expect(payloads).toMatchObject([
+      { shippingCode: "700000", categoryNo: 120000012 },
+    ]);
+  });
+
+  it("checks the margin with the overridden shipping code", () => {
+    const s = settings({
+      profit: {
+        ...DEFAULT_PROFIT_SETTINGS,
+        minMarginRate: 20,
+        shippingCostByCode: { "700000": 300 },
+      },
+    });
+    expect(plan(s).payloads).toHaveLength(1);
+    expect(plan(s, { shippingCode: "700000" }).results).toMatchObject([
+      { status: "forbidden" },
+    ]);
+  });
+
+  it("runs the claim check against the overridden category", () => {
+    const s = settings({
+      claimRules: [{ ...newClaimRule("シャンプー"), categories: ["130000"] }],
+    });
+    expect(plan(s).payloads).toHaveLength(1);
+    expect(plan(s, { categoryNo: 130000 }).results).toMatchObject([
+      { status: "forbidden", claims: ["シャンプー"] },
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+// src/listingPlan.ts
+// 出品前の組み立て（ルール判定 → カテゴリ → タイトル整形・薬機法チェック → 価格 → 在庫）
+// runListing の本番送信とプレビューで同じ処理を通すためにまとめている
+
+import type { AmazonItemInfo, Qoo10ListingPayload } from "./api/qeasy";
+import { explainCategory, type CategoryChoice } from "./categoryChoice";
+import { checkClaims, type ClaimRule } from "./claimCheck";
+import { evaluateListing, listingStatusOf } from "./listingRules";
+import { priceFor } from "./pricing";
+import type { ListingResultItem, Product, SettingsState } from "./types";
+import { stripWords } from "./wordRules";
+
+/** 出品時・在庫復帰時に Qoo10 へ設定する在庫数 */
+export function listingStockOf(settings: SettingsState): number {
+  return settings.maxStockPerItem > 0 ? settings.maxStockPerItem : 1;
+}
+
+/** 再実行時に一括で差し替える項目（未指定なら通常どおり） */
+export type ListingOverrides = {
+  shippingCode?: string;
+  categoryNo?: number;
+};
+
+export type ListingPlanInput = {
+  targets: Product[];
+  infoMap: ReadonlyMap<string, AmazonItemInfo>;
+  existingAsins: ReadonlySet<string>;
+  /** /amazon/bulk のチャンク失敗（ASIN → エラーメッセージ） */
+  amazonFailed: ReadonlyMap<string, string>;
+  /** /qoo10/check-existing のチャンク失敗（ASIN → エラーメッセージ） */
+  existingFailed: ReadonlyMap<string, string>;
+  settings: SettingsState;
+  /**
+   * 再実行時の差し替え。送料コードは設定、カテゴリは商品ごとの指定として扱い、
+   * 価格ルールの選択・薬機法チェック・利益率の判定もその値でやり直す
+   */
+  overrides?: ListingOverrides;
+};
+
+export type ListingPlan = {
+  /** 除外・エラーになった ASIN（この時点で結果確定） */
+  results: ListingResultItem[];
+  /** 出品 API にそのまま渡せる内容 */
+  payloads: Qoo10ListingPayload[];
+  /** payloads の各 ASIN のカテゴリ決定の根拠（プレビュー表示用） */
+  categories: Record<string, CategoryChoice>;
+  /** payloads の各 ASIN で、薬機法チェックによりタイトルから削除した表現 */
+  claims: Record<string, ClaimRule[]>;
+  /** payloads の各 ASIN の Amazon 価格（プレビューで直した価格の利益率チェック用） */
+  amazonPrices: Record<string, number>;
+};
+
+export function planListing({
+  targets,
+  infoMap,
+  existingAsins,
+  amazonFailed,
+  existingFailed,
+  settings: baseSettings,
+  overrides = {},
+}: ListingPlanInput): ListingPlan {
+  const settings = overrides.shippingCode
+    ? { ...baseSettings, shippingCode: overrides.shippingCode }
+    : baseSettings;
+  const results: ListingResultItem[] = [];
+  const payloads: Qoo10ListingPayload[] = [];
+  const categories: Record<string, CategoryChoice> = {};
+  const claims: Record<string, ClaimRule[]> = {};
+  const amazonPrices: Record<string, number> = {};
+
+  for (const target of targets) {
+    const p = overrides.categoryNo
+      ? { ...target, categoryOverride: overrides.categoryNo }
+      : target;
+    const amazonError = amazonFailed.get(p.asin);
+    if (amazonError) {
+      results.push({
+        asin: p.asin,
+        name: p.name,
+        status: "error",
+        message: `Amazon情報を取得できなかったため未送信です。${amazonError}`,
+      });
+      continue;
+    }
+
+    const existingError = existingFailed.get(p.asin);
+    if (existingError) {
+      results.push({
+        asin: p.asin,
+        name: p.name,
+        status: "error",
+        message: `Qoo10既存チェックを実行できなかったため未送信です（重複出品防止）。${existingError}`,
+      });
+      continue;
+    }
+
+    const info = infoMap.get(p.asin);
+    const evaluation = evaluateListing({
+      product: p,
+      info,
+      settings,
+      existingAsins,
+    });
+    if (!evaluation.ok) {
+      const { verdict } = evaluation;
+      results.push({
+        asin: p.asin,
+        name: p.name,
+        status: listingStatusOf(verdict),
+        message: verdict.message,
+        hitWords: verdict.kind === "forbidden" ? verdict.hitWords : undefined,
+        brand: verdict.kind === "forbidden" ? verdict.brand : undefined,
+        claims: verdict.kind === "forbidden" ? verdict.claims : undefined,
+      });
+      continue;
+    }
+    if (!info) continue; // amazonPriceRule で除外済み（型の絞り込み用）
+
+    const category = explainCategory(info, p, settings);
+    const { categoryNo } = category;
+    // 要確認の表現は claimRule で除外済み。ここでは「削除」の表現を取り除く
+    const claim = checkClaims(
+      stripWords(info.title || p.name, settings.nameEraseWords),
+      categoryNo,
+      settings.claimRules
+    );
+    const { title } = claim;
+    const price = priceFor(
+      info.price,
+      settings,
+      categoryNo,
+      info.title || p.name
+    );
+    const stock = listingStockOf(settings);
+
+    payloads.push({
+      asin: p.asin,
+      price,
+      shippingCode: settings.shippingCode,
+      title,
+      imageUrl: info.image,
+      categoryNo,
+      stock,
+      jan: p.jan, // JAN をそのままAPIに渡す
+    });
+    categories[p.asin] = category;
+    amazonPrices[p.asin] = info.price;
+    if (claim.removed.length) claims[p.asin] = claim.removed;
+  }
+
+  return { results, payloads, categories, claims, amazonPrices };
+}
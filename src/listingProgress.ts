@@ -0,0 +1,154 @@
+// src/listingProgress.ts
+// 出品処理（runListing）の進捗状態。UI からは immutable に更新して使う
+
+export type ListingPhase = "amazon" | "existing" | "filter" | "create";
+
+export const LISTING_PHASES: { key: ListingPhase; label: string }[] = [
+  { key: "amazon", label: "Amazon情報取得" },
+  { key: "existing", label: "Qoo10既存チェック" },
+  { key: "filter", label: "出品条件チェック" },
+  { key: "create", label: "Qoo10出品作成" },
+];
+
+export type AsinProgressStatus =
+  | "waiting" // 未処理
+  | "lookup" // Amazon / 既存チェック中
+  | "ready" // 条件を満たし送信待ち
+  | "excluded" // 条件により除外
+  | "submitting" // 出品APIへ送信中
+  | "success"
+  | "error"
+  | "cancelled" // キャンセルにより未送信
+  | "unknown"; // 送信後にキャンセル → Qoo10 側の結果不明
+
+export const ASIN_STATUS_LABEL: Record<AsinProgressStatus, string> = {
+  waiting: "待機中",
+  lookup: "情報取得中",
+  ready: "送信待ち",
+  excluded: "除外",
+  submitting: "送信中",
+  success: "成功",
+  error: "エラー",
+  cancelled: "未送信（キャンセル）",
+  unknown: "結果不明（送信後キャンセル）",
+};
+
+export type PhaseProgress = { done: number; total: number };
+
+export type ListingProgress = {
+  startedAt: number;
+  /** 最後に進捗が動いた時刻（ETA 計算用） */
+  updatedAt: number;
+  phase: ListingPhase;
+  phases: Record<ListingPhase, PhaseProgress>;
+  asinStatus: Record<string, AsinProgressStatus>;
+  cancelRequested: boolean;
+  finished: boolean;
+};
+
+export function createListingProgress(
+  asins: string[],
+  now = Date.now()
+): ListingProgress {
+  const total = asins.length;
+  return {
+    startedAt: now,
+    updatedAt: now,
+    phase: "amazon",
+    phases: {
+      amazon: { done: 0, total },
+      existing: { done: 0, total },
+      filter: { done: 0, total },
+      // 出品件数は条件チェック後に確定する。それまでは最大値で見積もる
+      create: { done: 0, total },
+    },
+    asinStatus: Object.fromEntries(
+      asins.map((a) => [a, "waiting" as AsinProgressStatus])
+    ),
+    cancelRequested: false,
+    finished: false,
+  };
+}
+
+/** 指定 ASIN のステータスを更新（終了済みステータスは上書きしない） */
+export function setAsinStatus(
+  progress: ListingProgress,
+  asins: string[],
+  status: AsinProgressStatus,
+  now = Date.now()
+): ListingProgress {
+  const FINAL: AsinProgressStatus[] = [
+    "excluded",
+    "success",
+    "error",
+    "cancelled",
+    "unknown",
+  ];
+  const asinStatus = { ...progress.asinStatus };
+  for (const a of asins) {
+    const cur = asinStatus[a];
+    if (cur && FINAL.includes(cur)) continue;
+    asinStatus[a] = status;
+  }
+  return { ...progress, asinStatus, updatedAt: now };
+}
+
+export function advancePhase(
+  progress: ListingProgress,
+  phase: ListingPhase,
+  doneDelta: number,
+  now = Date.now()
+): ListingProgress {
+  const cur = progress.phases[phase];
+  return {
+    ...progress,
+    phase,
+    updatedAt: now,
+    phases: {
+      ...progress.phases,
+      [phase]: { ...cur, done: Math.min(cur.total, cur.done + doneDelta) },
+    },
+  };
+}
+
+export function setPhaseTotal(
+  progress: ListingProgress,
+  phase: ListingPhase,
+  total: number
+): ListingProgress {
+  return {
+    ...progress,
+    phases: { ...progress.phases, [phase]: { done: 0, total } },
+  };
+}
+
+/**
+ * 経過時間(ms)。実行中は now（画面のタイマー）で数え、終了後は最後の更新で止める。
+ */
+export function elapsedMs(progress: ListingProgress, now = Date.now()): number {
+  const end = progress.finished ? progress.updatedAt : now;
+  return Math.max(0, end - progress.startedAt);
+}
+
+/**
+ * 残り時間の見積もり(ms)。
+ * 条件チェックはローカル処理なので API を叩くフェーズの件数だけで按分する。
+ * 進捗が止まっている間も now に合わせて見積もりを伸ばす。
+ */
+export function estimateRemainingMs(
+  progress: ListingProgress,
+  now = Date.now()
+): number | null {
+  const { amazon, existing, create } = progress.phases;
+  const done = amazon.done + existing.done + create.done;
+  const total = amazon.total + existing.total + create.total;
+  if (progress.finished || done === 0 || total === 0) return null;
+  return Math.max(0, (elapsedMs(progress, now) / done) * (total - done));
+}
+
+export function formatDuration(ms: number): string {
+  const sec = Math.ceil(ms / 1000);
+  if (sec < 60) return `${sec}秒`;
+  const min = Math.floor(sec / 60);
+  return `${min}分${sec % 60}秒`;
+}
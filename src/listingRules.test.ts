@@ -0,0 +1,371 @@
+import { describe, expect, it } from "vitest";
+
+import type { AmazonItemInfo, Qoo10ListingPayload } from "./api/qeasy";
+import {
+  amazonPriceRule,
+  brandBlockRule,
+  categoryReviewRule,
+  claimRule,
+  editedPriceProblems,
+  evaluateListing,
+  existsOnQoo10Rule,
+  LISTING_RULES,
+  listingStatusOf,
+  marginRule,
+  noListAsinRule,
+  noListWordRule,
+  primeRule,
+  priceRule,
+  sellerCountRule,
+  type ListingRule,
+  type RuleContext,
+} from "./listingRules";
+import { newClaimRule } from "./claimCheck";
+import { DEFAULT_PROFIT_SETTINGS } from "./profit";
+import { DEFAULT_CATEGORY_RULES } from "./qoo10Category";
+import type { Product, SettingsState } from "./types";
+import { newWordRule } from "./wordRules";
+
+const settings = (patch: Partial<SettingsState> = {}): SettingsState => ({
+  primeOnly: true,
+  primeShipDaysMax: 3,
+  maxStockPerItem: 2,
+  shippingCode: "645035",
+  rules: [{ min: 1, multiply: 1.2, plus: 400 }],
+  priceRounding: "none",
+  priceFloor: 0,
+  priceCeiling: 0,
+  scopedPriceRules: [],
+  repriceMinDiffYen: 0,
+  repriceMinDiffRate: 0,
+  stockSyncEnabled: true,
+  noListASINs: [],
+  noListWords: [],
+  nameEraseWords: [],
+  brandRules: [],
+  claimRules: [],
+  keepASINsOnDelete: [],
+  categoryMap: {},
+  autoCategoryEnabled: true,
+  categoryRules: DEFAULT_CATEGORY_RULES,
+  rejectedCategorySuggestions: [],
+  profit: DEFAULT_PROFIT_SETTINGS,
+  notifyOnSuccess: false,
+  notifyOnError: false,
+  autoApplyTemplate: false,
+  exportColumns: [],
+  batchChunkSize: 100,
+  batchConcurrency: 1,
+  batchDelayMs: 0,
+  batchMaxRetries: 0,
+  ...patch,
+});
+
+const product = (patch: Partial<Product> = {}): Product => ({
+  id: 1,
+  asin: "B000TEST01",
+  name: "ヘアケア シャンプー 500ml",
+  mainImage: "",
+  amazonPrice: 1000,
+  updatedAt: "",
+  ...patch,
+});
+
+const info = (patch: Partial<AmazonItemInfo> = {}): AmazonItemInfo => ({
+  asin: "B000TEST01",
+  price: 1000,
+  sellerCount: 3,
+  title: "ヘアケア シャンプー 500ml",
+  isPrime: true,
+  shipDays: 1,
+  ...patch,
+});
+
+const ctx = (patch: Partial<RuleContext> = {}): RuleContext => ({
+  product: product(),
+  info: info(),
+  settings: settings(),
+  existingAsins: new Set(),
+  ...patch,
+});
+
+const codeOf = (rule: ListingRule, c: RuleContext) => {
+  const verdict = rule.check(c);
+  return verdict.kind === "pass" ? "pass" : `${verdict.kind}:${verdict.code}`;
+};
+
+describe("listing rules", () => {
+  it("passes a product that satisfies every rule", () => {
+    for (const rule of LISTING_RULES) {
+      expect(codeOf(rule, ctx()), rule.id).toBe("pass");
+    }
+    expect(evaluateListing(ctx())).toEqual({ ok: true });
+  });
+
+  it("amazonPriceRule: errors without Amazon info or price", () => {
+    expect(codeOf(amazonPriceRule, ctx({ info: undefined }))).toBe(
+      "error:no_amazon_price"
+    );
+    expect(codeOf(amazonPriceRule, ctx({ info: info({ price: 0 }) }))).toBe(
+      "error:no_amazon_price"
+    );
+  });
+
+  it("primeRule: excludes non-Prime and slow shipping only when primeOnly", () => {
+    expect(codeOf(primeRule, ctx({ info: info({ isPrime: false }) }))).toBe(
+      "forbidden:not_prime"
+    );
+    expect(codeOf(primeRule, ctx({ info: info({ shipDays: 5 }) }))).toBe(
+      "forbidden:not_prime"
+    );
+    expect(
+      codeOf(
+        primeRule,
+        ctx({
+          info: info({ isPrime: false }),
+          settings: settings({ primeOnly: false }),
+        })
+      )
+    ).toBe("pass");
+  });
+
+  it("brandBlockRule: excludes blocked brands and reports the brand", () => {
+    const c = ctx({
+      info: info({ brand: "ACME" }),
+      settings: settings({
+        brandRules: [{ brand: "ACME", list: "block", reason: "" }],
+      }),
+    });
+    const verdict = brandBlockRule.check(c);
+    expect(verdict).toMatchObject({
+      kind: "forbidden",
+      code: "blocked_brand",
+      brand: "ACME",
+    });
+  });
+
+  it("sellerCountRule: excludes single sellers unless the brand is allowed", () => {
+    const single = info({ sellerCount: 1, brand: "ACME" });
+    expect(codeOf(sellerCountRule, ctx({ info: single }))).toBe(
+      "forbidden:single_seller"
+    );
+    expect(
+      codeOf(
+        sellerCountRule,
+        ctx({
+          info: single,
+          settings: settings({
+            brandRules: [{ brand: "ACME", list: "allow", reason: "" }],
+          }),
+        })
+      )
+    ).toBe("pass");
+  });
+
+  it("noListAsinRule: excludes registered ASINs", () => {
+    const c = ctx({
+      settings: settings({ noListASINs: [newWordRule("B000TEST01")] }),
+    });
+    expect(codeOf(noListAsinRule, c)).toBe("forbidden:no_list_asin");
+  });
+
+  it("noListWordRule: excludes NG words and lists the hit words", () => {
+    const c = ctx({
+      settings: settings({ noListWords: [newWordRule("シャンプー")] }),
+    });
+    expect(noListWordRule.check(c)).toMatchObject({
+      kind: "forbidden",
+      code: "no_list_word",
+      hitWords: ["シャンプー"],
+    });
+  });
+
+  it("noListWordRule: matches brand-scoped words against the Amazon brand", () => {
+    const c = ctx({
+      info: info({ brand: "ACME" }),
+      settings: settings({
+        noListWords: [{ ...newWordRule("ACME"), scope: "brand" }],
+      }),
+    });
+    expect(codeOf(noListWordRule, c)).toBe("forbidden:no_list_word");
+    expect(codeOf(noListWordRule, { ...c, info: info() })).toBe("pass");
+  });
+
+  it("existsOnQoo10Rule: excludes ASINs already on Qoo10", () => {
+    const c = ctx({ existingAsins: new Set(["B000TEST01"]) });
+    expect(codeOf(existsOnQoo10Rule, c)).toBe("forbidden:exists_on_qoo10");
+  });
+
+  it("categoryReviewRule: excludes titles whose category is unknown", () => {
+    const c = ctx({
+      product: product({ name: "ZZZ 999" }),
+      info: info({ title: "ZZZ 999" }),
+    });
+    expect(codeOf(categoryReviewRule, c)).toBe(
+      "forbidden:category_needs_review"
+    );
+  });
+
+  it("categoryReviewRule: excludes low-confidence guesses", () => {
+    const c = ctx({
+      product: product({ name: "青汁 パック" }),
+      info: info({ title: "青汁 パック" }),
+      settings: settings({
+        categoryRules: {
+          mainRules: [
+            { code: "130000", label: "", keywords: ["青汁"], requireAny: [] },
+          ],
+          beautyRules: [{ code: "120000012", label: "", keywords: ["パック"] }],
+        },
+      }),
+    });
+    expect(codeOf(categoryReviewRule, c)).toBe(
+      "forbidden:category_needs_review"
+    );
+  });
+
+  it("claimRule: excludes flagged claims and reports them", () => {
+    const c = ctx({
+      info: info({ title: "ヘアケア シャンプー 発毛 500ml" }),
+      settings: settings({ claimRules: [newClaimRule("発毛")] }),
+    });
+    expect(claimRule.check(c)).toMatchObject({
+      kind: "forbidden",
+      code: "regulated_claim",
+      claims: ["発毛"],
+    });
+  });
+
+  it("claimRule: passes claims that are removed from the title", () => {
+    const c = ctx({
+      info: info({ title: "最強 ヘアケア シャンプー 500ml" }),
+      settings: settings({
+        claimRules: [{ ...newClaimRule("最強"), action: "remove" }],
+      }),
+    });
+    expect(codeOf(claimRule, c)).toBe("pass");
+  });
+
+  it("claimRule: checks the title after the erase words", () => {
+    const c = ctx({
+      info: info({ title: "ヘアケア シャンプー 発毛 500ml" }),
+      settings: settings({
+        claimRules: [newClaimRule("発毛")],
+        nameEraseWords: [newWordRule("発毛")],
+      }),
+    });
+    expect(codeOf(claimRule, c)).toBe("pass");
+  });
+
+  it("priceRule: errors when the price rules produce no price", () => {
+    const c = ctx({ info: info({ price: 0 }) });
+    expect(codeOf(priceRule, c)).toBe("error:invalid_price");
+  });
+
+  it("marginRule: excludes prices below the margin floor", () => {
+    const c = ctx({
+      settings: settings({
+        profit: { ...DEFAULT_PROFIT_SETTINGS, minMarginRate: 50 },
+      }),
+    });
+    expect(codeOf(marginRule, c)).toBe("forbidden:low_margin");
+  });
+});
+
+describe("evaluateListing", () => {
+  it("evaluates cheap and decisive checks first", () => {
+    expect(LISTING_RULES.map((r) => r.id)).toEqual([
+      "amazon-price",
+      "prime",
+      "brand-block",
+      "seller-count",
+      "no-list-asin",
+      "no-list-word",
+      "exists-on-qoo10",
+      "category-review",
+      "regulated-claim",
+      "price",
+      "margin",
+    ]);
+  });
+
+  it("returns the first rule that does not pass, in LISTING_RULES order", () => {
+    const c = ctx({
+      info: info({ isPrime: false, sellerCount: 1 }),
+      existingAsins: new Set(["B000TEST01"]),
+    });
+    expect(evaluateListing(c)).toMatchObject({
+      ok: false,
+      ruleId: primeRule.id,
+    });
+  });
+
+  it("checks the Amazon price before everything else", () => {
+    const c = ctx({
+      info: undefined,
+      existingAsins: new Set(["B000TEST01"]),
+    });
+    expect(evaluateListing(c)).toMatchObject({
+      ok: false,
+      ruleId: amazonPriceRule.id,
+    });
+  });
+
+  it("evaluates a custom rule list in the given order", () => {
+    const c = ctx({
+      info: info({ sellerCount: 1 }),
+      existingAsins: new Set(["B000TEST01"]),
+    });
+    expect(
+      evaluateListing(c, [existsOnQoo10Rule, sellerCountRule])
+    ).toMatchObject({ ok: false, ruleId: existsOnQoo10Rule.id });
+    expect(
+      evaluateListing(c, [sellerCountRule, existsOnQoo10Rule])
+    ).toMatchObject({ ok: false, ruleId: sellerCountRule.id });
+  });
+});
+
+describe("listingStatusOf", () => {
+  it("maps verdicts to result statuses", () => {
+    expect(
+      listingStatusOf({ kind: "error", code: "invalid_price", message: "" })
+    ).toBe("error");
+    expect(
+      listingStatusOf({
+        kind: "forbidden",
+        code: "exists_on_qoo10",
+        message: "",
+      })
+    ).toBe("exists");
+    expect(
+      listingStatusOf({ kind: "forbidden", code: "not_prime", message: "" })
+    ).toBe("forbidden");
+  });
+});
+
+describe("editedPriceProblems", () => {
+  const payload = (price: number): Qoo10ListingPayload => ({
+    asin: "B000TEST01",
+    price,
+    shippingCode: "645035",
+    title: "ヘアケア シャンプー 500ml",
+  });
+
+  it("accepts a price inside the rules", () => {
+    expect(editedPriceProblems(payload(1600), 1000, settings())).toEqual([]);
+  });
+
+  it("rejects prices outside the floor and ceiling", () => {
+    const s = settings({ priceFloor: 1000, priceCeiling: 2000 });
+    expect(editedPriceProblems(payload(900), 500, s)).toHaveLength(1);
+    expect(editedPriceProblems(payload(2100), 500, s)).toHaveLength(1);
+  });
+
+  it("rejects a hand-edited price below the margin floor", () => {
+    const s = settings({
+      profit: { ...DEFAULT_PROFIT_SETTINGS, minMarginRate: 20 },
+    });
+    expect(editedPriceProblems(payload(1100), 1000, s)).toHaveLength(1);
+    expect(editedPriceProblems(payload(1600), 1000, s)).toEqual([]);
+  });
+});
@@ -0,0 +1,387 @@
+// src/listingRules.ts
+// 出品可否の判定ルール（React に依存しない純粋関数）
+//
+// - ルールは LISTING_RULES の順に評価し、最初に pass 以外を返したものを採用
+// - 新しい除外条件はここにルールを1つ足すだけで runListing に反映される
+
+import type { AmazonItemInfo, Qoo10ListingPayload } from "./api/qeasy";
+import { findBlockedBrand, isAllowedBrand, resolveBrand } from "./brand";
+import {
+  chooseCategory,
+  describeCategoryChoice,
+  explainCategory,
+} from "./categoryChoice";
+import { checkClaims, describeClaimRule } from "./claimCheck";
+import { formatYen, priceFor, selectRuleSet } from "./pricing";
+import { estimateProfit } from "./profit";
+import type { ListingStatus, Product, SettingsState } from "./types";
+import {
+  describeWordRule,
+  findAsinRuleHits,
+  findWordRuleHits,
+  productWordTarget,
+  stripWords,
+} from "./wordRules";
+
+export type RuleReasonCode =
+  | "no_amazon_price" // Amazon 価格が取れない
+  | "not_prime" // Prime 条件を満たさない
+  | "single_seller" // 出品者1人以下（知財リスク）
+  | "blocked_brand" // 出品禁止ブランド（知財リスク）
+  | "no_list_asin" // 出品不可ASIN
+  | "no_list_word" // 禁止ワード
+  | "exists_on_qoo10" // Qoo10 に既に存在
+  | "category_needs_review" // カテゴリ自動推定が受け皿・低信頼度
+  | "regulated_claim" // 薬機法上問題となるおそれのある表現（要確認）
+  | "invalid_price" // 価格ルール適用後の価格が不正
+  | "low_margin"; // 利益率が下限未満
+
+export type RuleVerdict =
+  | { kind: "pass" }
+  | {
+      kind: "forbidden";
+      code: RuleReasonCode;
+      message: string;
+      hitWords?: string[];
+      brand?: string;
+      /** 要確認になった薬機法チェックの表現 */
+      claims?: string[];
+    }
+  | { kind: "error"; code: RuleReasonCode; message: string };
+
+export type RuleContext = {
+  product: Product;
+  /** /amazon/bulk の結果。取得できなかった場合は undefined */
+  info: AmazonItemInfo | undefined;
+  settings: SettingsState;
+  /** /qoo10/check-existing で見つかった ASIN */
+  existingAsins: ReadonlySet<string>;
+};
+
+export type ListingRule = {
+  id: string;
+  label: string;
+  check: (ctx: RuleContext) => RuleVerdict;
+};
+
+export type ListingEvaluation =
+  | { ok: true }
+  | { ok: false; ruleId: string; verdict: Exclude<RuleVerdict, { kind: "pass" }> };
+
+const PASS: RuleVerdict = { kind: "pass" };
+
+export const amazonPriceRule: ListingRule = {
+  id: "amazon-price",
+  label: "Amazon価格取得",
+  check: ({ info }) =>
+    !info || !info.price
+      ? {
+          kind: "error",
+          code: "no_amazon_price",
+          message: "Amazon価格が取得できませんでした。",
+        }
+      : PASS,
+};
+
+export const primeRule: ListingRule = {
+  id: "prime",
+  label: "Prime条件",
+  check: ({ info, settings }) => {
+    if (!settings.primeOnly || !info) return PASS;
+    if (
+      info.isPrime === false ||
+      (info.shipDays != null && info.shipDays > settings.primeShipDaysMax)
+    ) {
+      return {
+        kind: "forbidden",
+        code: "not_prime",
+        message: `Prime条件を満たさないため除外（出荷まで ${
+          info.shipDays ?? "-"
+        }日）`,
+      };
+    }
+    return PASS;
+  },
+};
+
+/** 設定の出品禁止ブランド。出品者数に関係なく除外する */
+export const brandBlockRule: ListingRule = {
+  id: "brand-block",
+  label: "出品禁止ブランド",
+  check: ({ product, info, settings }) => {
+    const brand = resolveBrand(info, product);
+    const hit = findBlockedBrand(
+      settings.brandRules,
+      brand,
+      info?.title || product.name
+    );
+    if (!hit) return PASS;
+    return {
+      kind: "forbidden",
+      code: "blocked_brand",
+      message: `出品禁止ブランド「${hit.brand}」に該当するため除外しました。${
+        hit.reason ? `（${hit.reason}）` : ""
+      }`,
+      brand: hit.brand,
+    };
+  },
+};
+
+/** 出品者1人以下は除外（固定ルール。許可ブランドは対象外） */
+export const sellerCountRule: ListingRule = {
+  id: "seller-count",
+  label: "出品者数",
+  check: ({ product, info, settings }) =>
+    info &&
+    info.sellerCount != null &&
+    info.sellerCount <= 1 &&
+    !isAllowedBrand(settings.brandRules, resolveBrand(info, product))
+      ? {
+          kind: "forbidden",
+          code: "single_seller",
+          message: `出品者が1人のみのため除外しました。（${info.sellerCount}人）`,
+        }
+      : PASS,
+};
+
+export const noListAsinRule: ListingRule = {
+  id: "no-list-asin",
+  label: "出品不可ASIN",
+  check: ({ product, settings }) => {
+    const [hit] = findAsinRuleHits(settings.noListASINs, product.asin);
+    if (!hit) return PASS;
+    return {
+      kind: "forbidden",
+      code: "no_list_asin",
+      message: `出品不可ASINに登録されています。${
+        hit.note ? `（${hit.note}）` : ""
+      }`,
+    };
+  },
+};
+
+export const noListWordRule: ListingRule = {
+  id: "no-list-word",
+  label: "禁止ワード",
+  check: ({ product, info, settings }) => {
+    const hits = findWordRuleHits(
+      settings.noListWords,
+      productWordTarget(product, resolveBrand(info, product))
+    );
+    if (!hits.length) return PASS;
+    return {
+      kind: "forbidden",
+      code: "no_list_word",
+      message: `禁止ワード(${hits
+        .map(describeWordRule)
+        .join(", ")})が含まれているため除外しました。`,
+      hitWords: hits.map((r) => r.pattern),
+    };
+  },
+};
+
+export const existsOnQoo10Rule: ListingRule = {
+  id: "exists-on-qoo10",
+  label: "Qoo10既存",
+  check: ({ product, existingAsins }) =>
+    existingAsins.has(product.asin)
+      ? {
+          kind: "forbidden",
+          code: "exists_on_qoo10",
+          message: "Qoo10に同一ASINの商品が既に存在します。",
+        }
+      : PASS,
+};
+
+export const categoryReviewRule: ListingRule = {
+  id: "category-review",
+  label: "カテゴリ要確認",
+  check: ({ product, info, settings }) => {
+    const choice = explainCategory(info, product, settings);
+    if (!choice.needsReview) return PASS;
+    const uncoded = choice.decision?.mainMatch?.code === "";
+    return {
+      kind: "forbidden",
+      code: "category_needs_review",
+      message: uncoded
+        ? `カテゴリNoが未設定の分類に当たったため除外しました（${describeCategoryChoice(
+            choice
+          )}）。キーワード表でカテゴリNoを設定するか、商品ごとにカテゴリを指定してください。`
+        : choice.categoryNo === undefined
+          ? "カテゴリを自動推定できなかったため除外しました。カテゴリマップにキーワードを追加してください。"
+          : `カテゴリの自動推定が割れているため除外しました（${describeCategoryChoice(
+              choice
+            )}）。商品ごとにカテゴリを指定するか、カテゴリマップにキーワードを追加してください。`,
+    };
+  },
+};
+
+/**
+ * 薬機法チェックの「要確認」に当たれば除外。Amazon のタイトルはこちらで直せないので、
+ * 出品するには辞書の対応を「削除して出品」にするか対象カテゴリを見直す
+ */
+export const claimRule: ListingRule = {
+  id: "regulated-claim",
+  label: "薬機法チェック",
+  check: ({ product, info, settings }) => {
+    const { flagged } = checkClaims(
+      stripWords(info?.title || product.name, settings.nameEraseWords),
+      explainCategory(info, product, settings).categoryNo,
+      settings.claimRules
+    );
+    if (!flagged.length) return PASS;
+    return {
+      kind: "forbidden",
+      code: "regulated_claim",
+      message: `薬機法上問題となるおそれのある表現を含むため除外しました（${flagged
+        .map(describeClaimRule)
+        .join(
+          "、"
+        )}）。出品する場合は、設定の薬機法チェックでこの表現を「削除して出品」にするか、対象カテゴリを見直してください。`,
+      claims: flagged.map((r) => r.pattern),
+    };
+  },
+};
+
+export const priceRule: ListingRule = {
+  id: "price",
+  label: "価格ルール",
+  check: ({ product, info, settings }) => {
+    const price = priceFor(
+      info?.price ?? 0,
+      settings,
+      chooseCategory(info, product, settings),
+      info?.title || product.name
+    );
+    return !price || price <= 0
+      ? {
+          kind: "error",
+          code: "invalid_price",
+          message: "価格ルール適用後の価格が不正のため除外しました。",
+        }
+      : PASS;
+  },
+};
+
+/**
+ * 利益率が下限未満なら「下限(x%)未満」の説明と試算を返す
+ * （下限が未設定・試算できないときは undefined）
+ */
+function lowMarginOf(
+  price: number,
+  amazonPrice: number,
+  categoryNo: number | undefined,
+  shippingCode: string,
+  settings: SettingsState
+): { floor: number; detail: string } | undefined {
+  const floor = settings.profit.minMarginRate;
+  if (!floor) return undefined;
+  const est = estimateProfit(
+    price,
+    amazonPrice,
+    categoryNo,
+    shippingCode,
+    settings.profit
+  );
+  if (!est || est.marginRate >= floor) return undefined;
+  return {
+    floor,
+    detail: `（試算 ${est.marginRate.toFixed(1)}%、粗利 ${est.profit}円）`,
+  };
+}
+
+export const marginRule: ListingRule = {
+  id: "margin",
+  label: "最低利益率",
+  check: ({ product, info, settings }) => {
+    if (!info) return PASS;
+    const categoryNo = chooseCategory(info, product, settings);
+    const price = priceFor(
+      info.price,
+      settings,
+      categoryNo,
+      info.title || product.name
+    );
+    const low = lowMarginOf(
+      price,
+      info.price,
+      categoryNo,
+      settings.shippingCode,
+      settings
+    );
+    if (!low) return PASS;
+    return {
+      kind: "forbidden",
+      code: "low_margin",
+      message: `利益率が下限(${low.floor}%)未満のため除外しました。${low.detail}`,
+    };
+  },
+};
+
+/** 評価順。安いチェック・決定的な除外ほど前に置く */
+export const LISTING_RULES: ListingRule[] = [
+  amazonPriceRule,
+  primeRule,
+  brandBlockRule,
+  sellerCountRule,
+  noListAsinRule,
+  noListWordRule,
+  existsOnQoo10Rule,
+  categoryReviewRule,
+  claimRule,
+  priceRule,
+  marginRule,
+];
+
+export function evaluateListing(
+  ctx: RuleContext,
+  rules: ListingRule[] = LISTING_RULES
+): ListingEvaluation {
+  for (const rule of rules) {
+    const verdict = rule.check(ctx);
+    if (verdict.kind !== "pass") {
+      return { ok: false, ruleId: rule.id, verdict };
+    }
+  }
+  return { ok: true };
+}
+
+/**
+ * プレビューで手直しした出品内容の価格チェック。
+ * 価格ルールの下限・上限と最低利益率を、直した価格・カテゴリで見直す（問題が無ければ空配列）。
+ */
+export function editedPriceProblems(
+  payload: Qoo10ListingPayload,
+  amazonPrice: number,
+  settings: SettingsState
+): string[] {
+  const { price, categoryNo } = payload;
+  if (!(price > 0)) return ["価格が不正です。"];
+  const problems: string[] = [];
+  const set = selectRuleSet(settings, categoryNo, payload.title);
+  if (set.floorPrice > 0 && price < set.floorPrice) {
+    problems.push(`価格ルールの下限(${formatYen(set.floorPrice)})未満です。`);
+  }
+  if (set.ceilingPrice > 0 && price > set.ceilingPrice) {
+    problems.push(
+      `価格ルールの上限(${formatYen(set.ceilingPrice)})を超えています。`
+    );
+  }
+  const low = lowMarginOf(
+    price,
+    amazonPrice,
+    categoryNo,
+    payload.shippingCode,
+    settings
+  );
+  if (low) problems.push(`利益率が下限(${low.floor}%)未満です。${low.detail}`);
+  return problems;
+}
+
+/** 判定結果 → 出品結果一覧のステータス */
+export function listingStatusOf(
+  verdict: Exclude<RuleVerdict, { kind: "pass" }>
+): ListingStatus {
+  if (verdict.kind === "error") return "error";
+  return verdict.code === "exists_on_qoo10" ? "exists" : "forbidden";
+}
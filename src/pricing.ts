@@ -0,0 +1,166 @@
+// src/pricing.ts
+// Amazon 価格 → Qoo10 販売価格の計算
+
+import { normalizeText } from "./textNormalize";
+import type { PriceRule, SettingsState } from "./types";
+
+export type RoundingMode =
+  | "none" // 1円単位で四捨五入
+  | "up10" // 10円単位で切り上げ
+  | "up100" // 100円単位で切り上げ
+  | "end80" // 下2桁を 80 に（切り上げ方向）
+  | "end90"; // 下2桁を 90 に（切り上げ方向）
+
+export const ROUNDING_LABEL: Record<RoundingMode, string> = {
+  none: "1円単位",
+  up10: "10円単位で切り上げ",
+  up100: "100円単位で切り上げ",
+  end80: "末尾80円",
+  end90: "末尾90円",
+};
+
+/** 価格レンジ表＋端数処理＋下限/上限価格 */
+export type PriceRuleSet = {
+  rules: PriceRule[];
+  rounding: RoundingMode;
+  /** 販売価格の下限（0 で無効） */
+  floorPrice: number;
+  /** 販売価格の上限（0 で無効） */
+  ceilingPrice: number;
+};
+
+/** カテゴリNo（前方一致）やキーワードで対象を絞ったルール */
+export type ScopedPriceRuleSet = PriceRuleSet & {
+  id: string;
+  name: string;
+  categoryPrefix: string;
+  keyword: string;
+};
+
+export const formatYen = (v: number): string =>
+  "¥" + Math.round(v).toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+
+/** 価格レンジに合うルールで「価格 × 係数 ＋ 加算」。該当なしならそのまま */
+export const applyRule = (price: number, rules: PriceRule[]): number => {
+  if (!price || price <= 0) return 0;
+  const r = rules.find((rr) =>
+    rr.max != null ? price >= rr.min && price <= rr.max : price >= rr.min
+  );
+  const result = r ? price * r.multiply + r.plus : price;
+  return Math.max(1, Math.round(result));
+};
+
+export const roundPrice = (price: number, mode: RoundingMode): number => {
+  const v = Math.round(price);
+  switch (mode) {
+    case "none":
+      return v;
+    case "up10":
+      return Math.ceil(v / 10) * 10;
+    case "up100":
+      return Math.ceil(v / 100) * 100;
+    case "end80":
+    case "end90": {
+      const ending = mode === "end80" ? 80 : 90;
+      const base = Math.floor(v / 100) * 100 + ending;
+      return base >= v ? base : base + 100;
+    }
+  }
+};
+
+export const applyRuleSet = (price: number, set: PriceRuleSet): number => {
+  const raw = applyRule(price, set.rules);
+  if (!raw) return 0;
+  let v = roundPrice(raw, set.rounding);
+  if (set.floorPrice > 0) v = Math.max(v, set.floorPrice);
+  if (set.ceilingPrice > 0) v = Math.min(v, set.ceilingPrice);
+  return v;
+};
+
+export const defaultRuleSetOf = (settings: SettingsState): PriceRuleSet => ({
+  rules: settings.rules,
+  rounding: settings.priceRounding,
+  floorPrice: settings.priceFloor,
+  ceilingPrice: settings.priceCeiling,
+});
+
+/** カテゴリ・キーワード指定のルールを上から順に照合し、無ければ既定ルール */
+export const selectRuleSet = (
+  settings: SettingsState,
+  categoryNo: number | undefined,
+  title: string
+): PriceRuleSet & { name: string } => {
+  const normalizedTitle = normalizeText(title);
+  for (const set of settings.scopedPriceRules) {
+    if (!set.categoryPrefix && !set.keyword) continue;
+    if (
+      set.categoryPrefix &&
+      !(categoryNo != null && String(categoryNo).startsWith(set.categoryPrefix))
+    ) {
+      continue;
+    }
+    if (set.keyword && !normalizedTitle.includes(normalizeText(set.keyword))) {
+      continue;
+    }
+    return set;
+  }
+  return { ...defaultRuleSetOf(settings), name: "既定" };
+};
+
+/** 出品価格（ルール選択 → 係数・加算 → 端数処理 → 下限/上限） */
+export const priceFor = (
+  amazonPrice: number,
+  settings: SettingsState,
+  categoryNo: number | undefined,
+  title: string
+): number =>
+  applyRuleSet(amazonPrice, selectRuleSet(settings, categoryNo, title));
+
+/**
+ * 価格レンジの重なり・隙間チェック（価格は整数円）。
+ * 問題が無ければ空配列。
+ */
+export const validatePriceRules = (rules: PriceRule[]): string[] => {
+  const errors: string[] = [];
+  if (!rules.length) return ["価格レンジが1つもありません。"];
+
+  const sorted = [...rules].sort((a, b) => a.min - b.min);
+  sorted.forEach((r) => {
+    if (r.max != null && r.max < r.min) {
+      errors.push(`${r.min}円〜${r.max}円: 上限が下限より小さくなっています。`);
+    }
+  });
+
+  if (sorted[0].min > 1) {
+    errors.push(`1円〜${sorted[0].min - 1}円 に該当するレンジがありません。`);
+  }
+
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1];
+    const cur = sorted[i];
+    if (prev.max == null) {
+      errors.push(
+        `${prev.min}円〜上限なし のレンジが ${cur.min}円〜 と重なっています。`
+      );
+      continue;
+    }
+    if (cur.min <= prev.max) {
+      errors.push(
+        `${prev.min}円〜${prev.max}円 と ${cur.min}円〜${
+          cur.max ?? "上限なし"
+        } が重なっています。`
+      );
+    } else if (cur.min > prev.max + 1) {
+      errors.push(
+        `${prev.max + 1}円〜${cur.min - 1}円 に該当するレンジがありません。`
+      );
+    }
+  }
+
+  const last = sorted[sorted.length - 1];
+  if (last.max != null) {
+    errors.push(`${last.max + 1}円以上 に該当するレンジがありません。`);
+  }
+
+  return errors;
+};
@@ -0,0 +1,221 @@
+// src/productExport.ts
+// 商品一覧・出品結果の CSV 出力（列は設定で選択、Qoo10 価格等は出力時点の設定で計算）
+
+import { chooseCategory } from "./categoryChoice";
+import { LISTING_STATUS_LABEL } from "./listingHistory";
+import { priceFor } from "./pricing";
+import { estimateProfit } from "./profit";
+import type { ListingResultItem, Product, SettingsState } from "./types";
+
+export type ExportColumnId =
+  | "asin"
+  | "name"
+  | "jan"
+  | "amazonPrice"
+  | "inStock"
+  | "qoo10Price"
+  | "categoryNo"
+  | "profit"
+  | "marginRate"
+  | "qoo10ItemCode"
+  | "listedPrice"
+  | "qoo10State"
+  | "listingStatus"
+  | "message"
+  | "sellerCount"
+  | "salesRank"
+  | "updatedAt"
+  | "amazonUrl";
+
+/** 1行分。商品一覧の出力では result、出品結果の出力では product が無いことがある */
+export type ExportRow = {
+  /** products: 商品一覧の出力 / results: 出品結果の出力 */
+  source: "products" | "results";
+  asin: string;
+  product?: Product;
+  result?: ListingResultItem;
+};
+
+type Computed = {
+  price: number;
+  categoryNo: number | undefined;
+};
+
+type ExportColumn = {
+  id: ExportColumnId;
+  label: string;
+  value: (row: ExportRow, c: Computed, settings: SettingsState) => unknown;
+};
+
+const qoo10StateOf = (p: Product | undefined): string => {
+  if (!p?.qoo10Id) return "未出品";
+  if (p.qoo10Suspended) return "出品停止中";
+  if (p.qoo10Stock === 0) return "販売停止中（在庫0）";
+  return "出品中";
+};
+
+const profitOf = (row: ExportRow, c: Computed, settings: SettingsState) =>
+  row.product && c.price
+    ? estimateProfit(
+        c.price,
+        row.product.amazonPrice,
+        c.categoryNo,
+        settings.shippingCode,
+        settings.profit
+      )
+    : null;
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { id: "asin", label: "ASIN", value: (r) => r.asin },
+  {
+    id: "name",
+    label: "商品名",
+    value: (r) => r.product?.name ?? r.result?.name ?? "",
+  },
+  { id: "jan", label: "JAN", value: (r) => r.product?.jan ?? "" },
+  {
+    id: "amazonPrice",
+    label: "Amazon価格",
+    value: (r) => r.product?.amazonPrice || "",
+  },
+  {
+    id: "inStock",
+    label: "Amazon在庫",
+    value: (r) =>
+      !r.product ? "" : r.product.inStock === false ? "在庫なし" : "在庫あり",
+  },
+  { id: "qoo10Price", label: "Qoo10価格", value: (_, c) => c.price || "" },
+  {
+    id: "categoryNo",
+    label: "カテゴリNo",
+    value: (_, c) => c.categoryNo ?? "",
+  },
+  {
+    id: "profit",
+    label: "粗利(試算)",
+    value: (r, c, s) => profitOf(r, c, s)?.profit ?? "",
+  },
+  {
+    id: "marginRate",
+    label: "利益率(%)",
+    value: (r, c, s) => profitOf(r, c, s)?.marginRate.toFixed(1) ?? "",
+  },
+  {
+    id: "qoo10ItemCode",
+    label: "Qoo10商品コード",
+    value: (r) => r.result?.qoo10ItemCode ?? r.product?.qoo10Id ?? "",
+  },
+  {
+    id: "listedPrice",
+    label: "Qoo10出品中価格",
+    value: (r) => r.product?.qoo10Price ?? "",
+  },
+  {
+    id: "qoo10State",
+    label: "Qoo10状態",
+    value: (r) => qoo10StateOf(r.product),
+  },
+  {
+    id: "listingStatus",
+    label: "出品結果",
+    value: (r) => (r.result ? LISTING_STATUS_LABEL[r.result.status] : ""),
+  },
+  { id: "message", label: "メッセージ", value: (r) => r.result?.message ?? "" },
+  {
+    id: "sellerCount",
+    label: "出品者数",
+    value: (r) => r.product?.sellerCount ?? "",
+  },
+  {
+    id: "salesRank",
+    label: "ランキング",
+    value: (r) => r.product?.salesRank ?? "",
+  },
+  {
+    id: "updatedAt",
+    label: "更新日時",
+    value: (r) => r.product?.updatedAt ?? "",
+  },
+  {
+    id: "amazonUrl",
+    label: "AmazonURL",
+    value: (r) => `https://www.amazon.co.jp/dp/${r.asin}`,
+  },
+];
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumnId[] = [
+  "asin",
+  "name",
+  "jan",
+  "amazonPrice",
+  "qoo10Price",
+  "categoryNo",
+  "qoo10ItemCode",
+  "qoo10State",
+  "listingStatus",
+  "message",
+];
+
+/**
+ * 出品結果の出力では送信した価格・カテゴリを、商品一覧の出力では現在の設定で
+ * 計算した値を使う（直近の出品結果は出品結果・メッセージ列にだけ使う）。
+ * Amazon 在庫なしの商品は価格を出さない（一覧の「在庫なし」表示と同じ扱い）。
+ */
+function computedOf(row: ExportRow, settings: SettingsState): Computed {
+  const p = row.product;
+  const sent = row.source === "results" ? row.result : undefined;
+  const categoryNo =
+    sent?.categoryNo ??
+    (p ? chooseCategory(undefined, p, settings) : undefined);
+  const price =
+    sent?.price ??
+    (p && p.inStock !== false
+      ? priceFor(p.amazonPrice, settings, categoryNo, p.name)
+      : 0);
+  return { price, categoryNo };
+}
+
+/** 見出し行つきの CSV 行。columns の順で出力する */
+export function exportRowsToCsv(
+  rows: ExportRow[],
+  columns: ExportColumnId[],
+  settings: SettingsState
+): unknown[][] {
+  const cols = columns
+    .map((id) => EXPORT_COLUMNS.find((c) => c.id === id))
+    .filter((c): c is ExportColumn => !!c);
+  return [
+    cols.map((c) => c.label),
+    ...rows.map((r) => {
+      const computed = computedOf(r, settings);
+      return cols.map((c) => c.value(r, computed, settings));
+    }),
+  ];
+}
+
+/** 商品一覧の出力用：各 ASIN の直近の出品結果を付ける */
+export function productExportRows(
+  products: Product[],
+  latestResults: ReadonlyMap<string, ListingResultItem>
+): ExportRow[] {
+  return products.map((p) => ({
+    source: "products",
+    asin: p.asin,
+    product: p,
+    result: latestResults.get(p.asin),
+  }));
+}
+
+/** 出品結果の出力用：一覧にある商品の情報も付ける */
+export function resultExportRows(
+  results: ListingResultItem[],
+  products: Product[]
+): ExportRow[] {
+  const productOf = new Map(products.map((p) => [p.asin, p]));
+  return results.map((r) => ({
+    source: "results",
+    asin: r.asin,
+    product: productOf.get(r.asin),
+    result: r,
+  }));
+}
@@ -0,0 +1,81 @@
+// src/profit.ts
+// Qoo10 販売時の粗利試算（手数料・ポイント負担・送料を差し引く）
+
+export type ProfitSettings = {
+  /** Qoo10 販売手数料(%)。カテゴリ別指定が無い場合に使う */
+  defaultCommissionRate: number;
+  /** カテゴリNo（前方一致）→ 販売手数料(%) */
+  commissionByCategory: Record<string, number>;
+  /** 決済手数料(%) */
+  paymentFeeRate: number;
+  /** クーポン・ポイントのショップ負担(%) */
+  pointBurdenRate: number;
+  /** 送料コード → 実際に負担する送料(円) */
+  shippingCostByCode: Record<string, number>;
+  /** 送料コード別の指定が無い場合の送料(円) */
+  defaultShippingCost: number;
+  /** この利益率(%)未満なら出品しない。0 で無効 */
+  minMarginRate: number;
+};
+
+export const DEFAULT_PROFIT_SETTINGS: ProfitSettings = {
+  defaultCommissionRate: 10,
+  commissionByCategory: {},
+  paymentFeeRate: 0,
+  pointBurdenRate: 1,
+  shippingCostByCode: {},
+  defaultShippingCost: 0,
+  minMarginRate: 0,
+};
+
+export type ProfitEstimate = {
+  /** 販売手数料＋決済手数料＋ポイント負担 */
+  fees: number;
+  shippingCost: number;
+  profit: number;
+  /** 販売価格に対する利益率(%) */
+  marginRate: number;
+};
+
+/** カテゴリNo に最も長く前方一致する指定を採用 */
+export function commissionRateOf(
+  categoryNo: number | undefined,
+  settings: ProfitSettings
+): number {
+  if (categoryNo == null) return settings.defaultCommissionRate;
+  const code = String(categoryNo);
+  let best: { len: number; rate: number } | null = null;
+  for (const [prefix, rate] of Object.entries(settings.commissionByCategory)) {
+    if (!prefix || !code.startsWith(prefix)) continue;
+    if (!best || prefix.length > best.len) {
+      best = { len: prefix.length, rate };
+    }
+  }
+  return best ? best.rate : settings.defaultCommissionRate;
+}
+
+export function estimateProfit(
+  sellPrice: number,
+  costPrice: number,
+  categoryNo: number | undefined,
+  shippingCode: string,
+  settings: ProfitSettings
+): ProfitEstimate | null {
+  if (!sellPrice || sellPrice <= 0 || !costPrice || costPrice <= 0) {
+    return null;
+  }
+  const rate =
+    commissionRateOf(categoryNo, settings) +
+    settings.paymentFeeRate +
+    settings.pointBurdenRate;
+  const fees = Math.round((sellPrice * rate) / 100);
+  const shippingCost =
+    settings.shippingCostByCode[shippingCode] ?? settings.defaultShippingCost;
+  const profit = sellPrice - costPrice - fees - shippingCost;
+  return {
+    fees,
+    shippingCost,
+    profit,
+    marginRate: (profit / sellPrice) * 100,
+  };
+}
@@ -0,0 +1,62 @@
+// src/qoo10Catalogue.ts
+// 自動推定で使う Qoo10 カテゴリの一覧（大分類 → SecondSubCat）
+//
+// - qoo10Category.ts の既定キーワード表はここにあるコードだけを使う
+// - QSM のカテゴリ表が変わったらここを直す（個別の上書きは設定画面のキーワード表で）
+// - QSM で確認したコードだけを載せる（日用品のカミソリ、ビューティの細分け、サプリ）
+// - 食品・飲料、ホーム・キッチン、ベビー、ペット、スマホ・PC周辺、ファッションは
+//   キーワード表で分類までは行うが、カテゴリNoは確認できるまで載せていない。
+//   これらに当たった商品はビューティに流さず判定不能（要確認）として出品を止める。
+//   カテゴリNoを確認したら、ここに追加してキーワード表の code を埋める
+
+export type Qoo10SubCategory = {
+  code: string;
+  label: string;
+};
+
+export type Qoo10CategoryGroup = {
+  code: string;
+  label: string;
+  subs: Qoo10SubCategory[];
+};
+
+export const QOO10_CATEGORY_CATALOGUE: Qoo10CategoryGroup[] = [
+  {
+    code: "100000",
+    label: "日用品雑貨",
+    subs: [{ code: "100000018", label: "カミソリ・シェービング" }],
+  },
+  {
+    code: "120000",
+    label: "ビューティ",
+    subs: [
+      { code: "120000012", label: "スキンケア" },
+      { code: "120000013", label: "ベースメイク" },
+      { code: "120000014", label: "ポイントメイク" },
+      { code: "120000017", label: "UVケア" },
+      { code: "120000018", label: "ボディ・ハンド・フットケア" },
+      { code: "120000020", label: "ヘアケア" },
+      { code: "120000021", label: "ネイル" },
+      { code: "120000022", label: "香水・フレグランス" },
+      { code: "120000033", label: "美容・健康家電" },
+    ],
+  },
+  {
+    code: "130000",
+    label: "健康食品・サプリ",
+    subs: [{ code: "130000", label: "サプリ・健康食品" }],
+  },
+];
+
+/** コード → 「大分類 ＞ 小分類」の表示名。一覧に無いコードは undefined */
+export function catalogueLabelOf(code: string): string | undefined {
+  for (const group of QOO10_CATEGORY_CATALOGUE) {
+    const sub = group.subs.find((s) => s.code === code);
+    if (sub) {
+      return sub.label === group.label
+        ? group.label
+        : `${group.label} ＞ ${sub.label}`;
+    }
+  }
+  return undefined;
+}
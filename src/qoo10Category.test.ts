@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+
+import { catalogueLabelOf } from "./qoo10Catalogue";
+import {
+  categoryRuleOverridesOf,
+  classifyQoo10Category,
+  DEFAULT_CATEGORY_RULES,
+  UNKNOWN_CATEGORY,
+  type CategoryRules,
+  withCategoryRuleOverrides,
+} from "./qoo10Category";
+
+const RULES: CategoryRules = {
+  mainRules: [
+    {
+      code: "130000",
+      label: "サプリ",
+      keywords: ["サプリメント", "青汁"],
+      requireAny: [],
+    },
+    {
+      code: "900000001",
+      label: "飲料",
+      keywords: ["ドリンク", "茶"],
+      requireAny: [],
+    },
+  ],
+  beautyRules: [
+    { code: "120000012", label: "スキンケア", keywords: ["化粧水", "パック"] },
+  ],
+};
+
+describe("classifyQoo10Category confidence", () => {
+  it("is high for a long keyword with no other category hit", () => {
+    const d = classifyQoo10Category("ビタミン サプリメント 60粒", RULES);
+    expect(d).toMatchObject({ main: "130000", confidence: "high" });
+    expect(d.conflictMatch).toBeUndefined();
+  });
+
+  it("is medium for a short keyword alone", () => {
+    expect(classifyQoo10Category("大麦若葉 青汁 30包", RULES)).toMatchObject({
+      main: "130000",
+      confidence: "medium",
+    });
+  });
+
+  it("is medium for a long keyword that also hits another category", () => {
+    expect(
+      classifyQoo10Category("サプリメント ドリンク 10本", RULES)
+    ).toMatchObject({ main: "130000", confidence: "medium" });
+  });
+
+  it("is low for a short keyword that also hits another category", () => {
+    const d = classifyQoo10Category("青汁 パック 30袋", RULES);
+    expect(d).toMatchObject({
+      main: "130000",
+      confidence: "low",
+      conflictMatch: { code: "120000012", keyword: "パック" },
+    });
+  });
+
+  it("is low when nothing matches", () => {
+    expect(classifyQoo10Category("ZZZ 999", RULES)).toEqual({
+      main: UNKNOWN_CATEGORY,
+      confidence: "low",
+    });
+  });
+});
+
+describe("classifyQoo10Category with the default rules", () => {
+  // 食品・ホームの語（成分・香り・色名）を含むコスメ
+  it.each([
+    ["コーヒースクラブ ボディ", "120000018"],
+    ["オリーブオイル 配合 ヘアオイル", "120000020"],
+    ["毛穴撫子 お米のマスク", "120000012"],
+    ["紅茶の香り ボディミスト", "120000022"],
+    ["リップ チョコレート 色", "120000014"],
+  ])("classifies %s as beauty", (title, sub) => {
+    expect(classifyQoo10Category(title)).toMatchObject({
+      main: "120000",
+      beautySecondSubCat: sub,
+    });
+  });
+
+  it("stops groups without a confirmed category number as unknown", () => {
+    const d = classifyQoo10Category("ステンレス フライパン 26cm");
+    expect(d).toMatchObject({
+      main: UNKNOWN_CATEGORY,
+      confidence: "low",
+      mainMatch: { code: "", label: "調理器具" },
+    });
+  });
+
+  it("uses only category numbers from the catalogue", () => {
+    const codes = [
+      ...DEFAULT_CATEGORY_RULES.mainRules,
+      ...DEFAULT_CATEGORY_RULES.beautyRules,
+    ]
+      .map((r) => r.code)
+      .filter(Boolean);
+    for (const code of codes) {
+      expect(catalogueLabelOf(code), code).toBeDefined();
+    }
+  });
+});
+
+describe("category rule overrides", () => {
+  const { mainRules, beautyRules } = DEFAULT_CATEGORY_RULES;
+
+  it("stores only the rule whose category number was filled in", () => {
+    const at = mainRules.findIndex((r) => !r.code);
+    const filled = { ...mainRules[at], code: "100000018" };
+    const rules = {
+      mainRules: mainRules.map((r, i) => (i === at ? filled : r)),
+      beautyRules,
+    };
+    const overrides = categoryRuleOverridesOf(rules);
+    expect(overrides.mainRules).toEqual({
+      changed: [{ key: filled.id, rule: filled }],
+      removed: [],
+    });
+    expect(withCategoryRuleOverrides(overrides)).toEqual(rules);
+  });
+
+  it("matches a table saved as a whole to the default rules by label", () => {
+    const legacy = {
+      mainRules: mainRules.map((r) => ({ ...r, id: undefined })),
+      beautyRules: beautyRules.map((r) => ({ ...r, id: undefined })),
+    };
+    expect(withCategoryRuleOverrides(legacy)).toEqual(DEFAULT_CATEGORY_RULES);
+  });
+});
@@ -1,83 +1,99 @@
 // qoo10Category.ts みたいな名前で保存して使う想定
+//
+// キーワード表はデータ（DEFAULT_CATEGORY_RULES）として持ち、
+// 設定画面で追加・並べ替えした表（SettingsState.categoryRules）で上書きできる
+// 保存するのは既定の表からの変更分だけ（categoryRuleOverridesOf）
+// 既定の表のコードは qoo10Catalogue.ts の一覧に合わせてある
+
+import { catalogueLabelOf } from "./qoo10Catalogue";
+import {
+  applyRuleOverrides,
+  ruleOverridesOf,
+  toRuleOverrides,
+  type RuleOverrides,
+} from "./ruleOverrides";
+import { normalizeText } from "./textNormalize";
 
 // ==============================
 // 型定義
 // ==============================
 
-export type MainCategoryCode =
-  | "120000"    // ビューティ（化粧品／基礎化粧／メイク）
-  | "130000"    // サプリ・健康食品
-  | "120000033" // 美容・健康家電（ドライヤー・ヘアアイロン・美顔器等）
-  | "100000018"; // 日用品雑貨（カミソリ等）
-
-export type BeautyCatCode =
-  | "120000012" // スキンケア
-  | "120000013" // ベースメイク
-  | "120000014" // ポイントメイク
-  | "120000017" // UVケア（日焼け止め）
-  | "120000018" // ボディ・ハンド・フットケア
-  | "120000020" // ヘアケア
-  | "120000021" // ネイル
-  | "120000022"; // 香水・フレグランス
+/**
+ * メインカテゴリ判定の1行。上から順に照合し、最初に当たったものを採用。
+ * code が空のルールは、当たっても判定不能（カテゴリNo未設定）として扱う
+ */
+export type MainCategoryRule = {
+  /** 既定の表のルールを見分ける固定のID（変更分の保存用。code・label は設定画面で変わる） */
+  id?: string;
+  code: string;
+  label: string;
+  /** いずれかを含めば該当 */
+  keywords: string[];
+  /** 空でなければ、これらのいずれかも含むときだけ該当（例: カミソリ＋電動 → 美容家電） */
+  requireAny: string[];
+  /** ビューティ細分けに当たらなかったときだけ判定する（食品・ホーム等） */
+  afterBeauty?: boolean;
+};
+
+/** ビューティ内細分け（SecondSubCat）の1行。上ほど優先 */
+export type SubCategoryRule = {
+  /** MainCategoryRule.id と同じ */
+  id?: string;
+  code: string;
+  label: string;
+  keywords: string[];
+};
+
+export type CategoryRules = {
+  mainRules: MainCategoryRule[];
+  beautyRules: SubCategoryRule[];
+};
+
+/** 判定の根拠：当たったルールとキーワード */
+export type CategoryRuleMatch = {
+  code: string;
+  label: string;
+  keyword: string;
+  /** requireAny の条件で当たった語（条件なしのルールでは undefined） */
+  requiredWord?: string;
+};
+
+/**
+ * high: 長めのキーワード（または requireAny の条件つき）で当たり、ほかのカテゴリには当たらない
+ * medium: 短い・汎用的な語だけで当たった、またはほかのカテゴリのキーワードにも当たる
+ * low: 短い語だけで当たり、ほかのカテゴリにも当たる（判定が割れている）か、
+ *      どれにも当たらず判定できなかった（unknown）。どちらも出品せずに手動確認する
+ */
+export type CategoryConfidence = "high" | "medium" | "low";
 
 export interface Qoo10CategoryDecision {
-  main: MainCategoryCode;
-  beautySecondSubCat?: BeautyCatCode; // main が "120000" のときだけ使用
+  /** 判定できなかったときは UNKNOWN_CATEGORY（出品しない） */
+  main: string;
+  beautySecondSubCat?: string; // main が BEAUTY_MAIN_CODE のときだけ使用
+  mainMatch?: CategoryRuleMatch;
+  subMatch?: CategoryRuleMatch;
+  /** ほかのカテゴリのルールにも当たったときの1件（信頼度を下げた理由） */
+  conflictMatch?: CategoryRuleMatch;
+  confidence: CategoryConfidence;
 }
 
-// ==============================
-// サプリ判定（メインカテゴリ 130000）
-// ==============================
+export const CATEGORY_CONFIDENCE_LABEL: Record<CategoryConfidence, string> = {
+  high: "高",
+  medium: "中",
+  low: "低",
+};
 
-const SUPPLEMENT_KEYWORDS: string[] = [
-  "サプリメント",
-  "サプリ",
-  "健康食品",
-  "機能性表示食品",
-  "プロテイン",
-  "ホエイプロテイン",
-  "ソイプロテイン",
-  "青汁",
-  "酵素",
-  "乳酸菌",
-  "オメガ3",
-  "EPA",
-  "DHA",
-  "ダイエットサプリ",
-  "美容サプリ",
-];
+/** ビューティ（化粧品・メイク・UV等）。細分けのキーワードに当たったときだけ */
+export const BEAUTY_MAIN_CODE = "120000";
 
-function isSupplement(title: string): boolean {
-  return SUPPLEMENT_KEYWORDS.some((kw) => title.includes(kw));
-}
+/** どのキーワードにも当たらなかった判定。ビューティ等に寄せず要確認にする */
+export const UNKNOWN_CATEGORY = "unknown";
 
 // ==============================
-// 美容家電判定（メインカテゴリ 120000033）
+// 既定のキーワード表
 // ==============================
 
-// ドライヤー・ヘアアイロン・美顔器など
-const BEAUTY_APPLIANCE_KEYWORDS: string[] = [
-  // ドライヤー系
-  "ドライヤー",
-  "ヘアドライヤー",
-  "ヘアードライヤー",
-
-  // ヘアアイロン系
-  "ヘアアイロン",
-  "ストレートアイロン",
-  "カールアイロン",
-  "2WAYアイロン",
-  "2WAY ヘアアイロン",
-  "コテ",
-
-  // 美顔器系
-  "美顔器",
-  "フェイススチーマー",
-  "イオンスチーマー",
-  "スチーマー",
-];
-
-// 電化製品っぽさのヒント
+// 電化製品っぽさのヒント（カミソリを美容家電と日用品に分ける）
 const ELECTRIC_HINTS: string[] = [
   "電動",
   "電気",
@@ -87,10 +103,6 @@ const ELECTRIC_HINTS: string[] = [
   "防水",
 ];
 
-// ==============================
-// カミソリ（日用品雑貨 100000018）判定
-// ==============================
-
 const RAZOR_KEYWORDS: string[] = [
   "カミソリ",
   "髭剃り",
@@ -100,291 +112,1017 @@ const RAZOR_KEYWORDS: string[] = [
   "シェイバー",
 ];
 
-const DAILY_RAZOR_HINTS: string[] = [
-  "替刃",
-  "替え刃",
-  "ホルダー(刃付き",
-  "剃刀",
-];
+export const DEFAULT_CATEGORY_RULES: CategoryRules = {
+  mainRules: [
+    {
+      id: "supplement",
+      code: "130000",
+      label: "サプリ・健康食品",
+      keywords: [
+        "サプリメント",
+        "サプリ",
+        "健康食品",
+        "機能性表示食品",
+        "プロテイン",
+        "ホエイプロテイン",
+        "ソイプロテイン",
+        "青汁",
+        "酵素",
+        "乳酸菌",
+        "オメガ3",
+        "EPA",
+        "DHA",
+        "ダイエットサプリ",
+        "美容サプリ",
+      ],
+      requireAny: [],
+    },
+    {
+      // ドライヤー・ヘアアイロン・美顔器など
+      id: "beauty-appliance",
+      code: "120000033",
+      label: "美容・健康家電",
+      keywords: [
+        // ドライヤー系
+        "ドライヤー",
+        "ヘアドライヤー",
+        "ヘアードライヤー",
 
-function isBeautyAppliance(title: string): boolean {
-  // まずは明示的な家電ワード
-  if (BEAUTY_APPLIANCE_KEYWORDS.some((kw) => title.includes(kw))) {
-    return true;
-  }
+        // ヘアアイロン系
+        "ヘアアイロン",
+        "ストレートアイロン",
+        "カールアイロン",
+        "2WAYアイロン",
+        "2WAY ヘアアイロン",
+        "コテ",
 
-  // 電動シェーバー・電動脱毛器などを家電扱いしたいケース
-  if (
-    RAZOR_KEYWORDS.some((kw) => title.includes(kw)) &&
-    ELECTRIC_HINTS.some((kw) => title.includes(kw))
-  ) {
-    return true;
-  }
+        // 美顔器系
+        "美顔器",
+        "フェイススチーマー",
+        "イオンスチーマー",
+        "スチーマー",
+      ],
+      requireAny: [],
+    },
+    {
+      // 電動シェーバー・電動脱毛器などは家電扱い
+      id: "electric-shaver",
+      code: "120000033",
+      label: "美容・健康家電（電動シェーバー等）",
+      keywords: RAZOR_KEYWORDS,
+      requireAny: ELECTRIC_HINTS,
+    },
+    {
+      // 電動っぽさが無いカミソリ・替刃は日用品
+      id: "razor",
+      code: "100000018",
+      label: "日用品雑貨（カミソリ等）",
+      keywords: RAZOR_KEYWORDS,
+      requireAny: [],
+    },
 
-  // 将来的に ReFa / KINUJO などのブランド名で拾いたければここに追加
-  return false;
-}
+    // ここから下の大分類は QSM のカテゴリNoを確認できていないので code を空にしてある。
+    // 当たった商品は判定不能（要確認）として止め、確認できたらキーワード表で埋める
+    // afterBeauty: 美容の語（成分・香り・色名）と重なりやすいので、ビューティ細分けの後に判定
+
+    // ベビー・キッズ
+    {
+      id: "diaper",
+      code: "",
+      label: "おむつ・おしりふき",
+      keywords: [
+        "おむつ",
+        "オムツ",
+        "紙パンツ",
+        "おしりふき",
+        "パンツタイプ",
+      ],
+      requireAny: [],
+    },
+    {
+      id: "baby-food",
+      code: "",
+      label: "ミルク・ベビーフード",
+      keywords: [
+        "粉ミルク",
+        "液体ミルク",
+        "キューブミルク",
+        "離乳食",
+        "ベビーフード",
+      ],
+      requireAny: [],
+    },
+    {
+      id: "baby-care",
+      code: "",
+      label: "授乳・ベビーケア",
+      keywords: [
+        "哺乳瓶",
+        "哺乳びん",
+        "授乳",
+        "ベビー用",
+        "赤ちゃん用",
+        "新生児",
+      ],
+      requireAny: [],
+    },
+    {
+      id: "toy",
+      code: "",
+      label: "おもちゃ・知育",
+      keywords: [
+        "おもちゃ",
+        "知育",
+        "ぬいぐるみ",
+        "積み木",
+        "ブロック玩具",
+        "パズル",
+      ],
+      requireAny: [],
+    },
+
+    // ペット用品 ※「ペットボトル」に当たらないよう「ペット」単体は使わない
+    {
+      id: "dog-food",
+      code: "",
+      label: "ドッグフード・おやつ",
+      keywords: [
+        "ドッグフード",
+        "犬用",
+        "愛犬",
+        "小型犬",
+        "ドッグ用",
+      ],
+      requireAny: [],
+    },
+    {
+      id: "cat-food",
+      code: "",
+      label: "キャットフード・おやつ",
+      keywords: [
+        "キャットフード",
+        "猫用",
+        "愛猫",
+        "ねこ用",
+        "キャット用",
+      ],
+      requireAny: [],
+    },
+    {
+      id: "pet-care",
+      code: "",
+      label: "ペットケア・トイレ用品",
+      keywords: [
+        "ペットフード",
+        "ペット用",
+        "ペットシーツ",
+        "ペットシート",
+        "猫砂",
+        "ペットボトル給水",
+      ],
+      requireAny: [],
+    },
+
+    // 日用品雑貨 ※「マウスウォッシュ」を PC 周辺の「マウス」より先に拾う
+    {
+      id: "laundry-cleaning",
+      code: "",
+      label: "洗濯・掃除用品",
+      keywords: [
+        "洗濯洗剤",
+        "洗剤",
+        "柔軟剤",
+        "漂白剤",
+        "掃除用",
+        "ゴミ袋",
+        "消臭剤",
+        "芳香剤",
+      ],
+      requireAny: [],
+    },
+    {
+      id: "tissue-toilet",
+      code: "",
+      label: "ティッシュ・トイレ用品",
+      keywords: [
+        "ティッシュ",
+        "トイレットペーパー",
+        "キッチンペーパー",
+        "トイレクリーナー",
+      ],
+      requireAny: [],
+    },
+    {
+      id: "oral-care",
+      code: "",
+      label: "オーラルケア",
+      keywords: [
+        "歯ブラシ",
+        "歯磨き粉",
+        "歯みがき",
+        "ハミガキ",
+        "マウスウォッシュ",
+        "デンタルフロス",
+        "歯間ブラシ",
+      ],
+      requireAny: [],
+    },
+
+    // スマホ・PC周辺機器
+    {
+      id: "phone-case",
+      code: "",
+      label: "スマホケース・保護フィルム",
+      keywords: [
+        "スマホケース",
+        "iPhoneケース",
+        "iPhone ケース",
+        "手帳型ケース",
+        "保護フィルム",
+        "ガラスフィルム",
+        "スマホリング",
+        "スマホスタンド",
+      ],
+      requireAny: [],
+    },
+    {
+      id: "charger-cable",
+      code: "",
+      label: "充電器・ケーブル",
+      keywords: [
+        "充電器",
+        "充電ケーブル",
+        "USBケーブル",
+        "Lightningケーブル",
+        "ライトニングケーブル",
+        "Type-Cケーブル",
+        "モバイルバッテリー",
+        "ACアダプター",
+        "ワイヤレス充電",
+      ],
+      requireAny: [],
+    },
+    {
+      id: "earphone",
+      code: "",
+      label: "イヤホン・ヘッドホン",
+      keywords: [
+        "イヤホン",
+        "イヤフォン",
+        "ヘッドホン",
+        "ヘッドフォン",
+        "Bluetoothスピーカー",
+      ],
+      requireAny: [],
+    },
+    {
+      id: "pc-accessory",
+      code: "",
+      label: "PC周辺機器・記録メディア",
+      keywords: [
+        "ワイヤレスマウス",
+        "ゲーミングマウス",
+        "マウスパッド",
+        "キーボード",
+        "USBメモリ",
+        "SDカード",
+        "microSD",
+        "HDMI",
+        "USBハブ",
+        "Webカメラ",
+      ],
+      requireAny: [],
+    },
+
+    // ホーム・キッチン ※「コーヒーメーカー」「フリーザーバッグ」を食品・バッグより先に拾う
+    {
+      id: "cookware",
+      code: "",
+      label: "調理器具",
+      keywords: [
+        "フライパン",
+        "片手鍋",
+        "両手鍋",
+        "圧力鍋",
+        "土鍋",
+        "包丁",
+        "まな板",
+        "キッチンツール",
+        "おたま",
+        "フライ返し",
+        "電気ケトル",
+        "コーヒーメーカー",
+        "ミキサー",
+        "ブレンダー",
+      ],
+      requireAny: [],
+      afterBeauty: true,
+    },
+    {
+      id: "tableware",
+      code: "",
+      label: "食器・カトラリー",
+      keywords: [
+        "食器",
+        "マグカップ",
+        "ワイングラス",
+        "茶碗",
+        "お椀",
+        "カトラリー",
+        "箸",
+      ],
+      requireAny: [],
+      afterBeauty: true,
+    },
+    {
+      id: "food-container",
+      code: "",
+      label: "保存容器・水筒",
+      keywords: [
+        "保存容器",
+        "タッパー",
+        "密閉容器",
+        "フリーザーバッグ",
+        "ジップロック",
+        "水筒",
+        "タンブラー",
+        "マグボトル",
+        "弁当箱",
+      ],
+      requireAny: [],
+      afterBeauty: true,
+    },
+    {
+      id: "storage",
+      code: "",
+      label: "収納用品",
+      keywords: [
+        "収納ボックス",
+        "収納ケース",
+        "収納ラック",
+        "ハンガー",
+        "ファイルボックス",
+      ],
+      requireAny: [],
+      afterBeauty: true,
+    },
+    {
+      id: "bedding-interior",
+      code: "",
+      label: "寝具・インテリア",
+      keywords: [
+        "枕",
+        "掛け布団",
+        "敷布団",
+        "毛布",
+        "カーテン",
+        "ラグマット",
+        "クッションカバー",
+        "ブランケット",
+      ],
+      requireAny: [],
+      afterBeauty: true,
+    },
+
+    // 食品・飲料
+    {
+      id: "drink",
+      code: "",
+      label: "飲料・水",
+      keywords: [
+        "ミネラルウォーター",
+        "天然水",
+        "炭酸水",
+        "ジュース",
+        "清涼飲料",
+        "スポーツドリンク",
+        "エナジードリンク",
+      ],
+      requireAny: [],
+      afterBeauty: true,
+    },
+    {
+      id: "coffee-tea",
+      code: "",
+      label: "コーヒー・お茶",
+      keywords: [
+        "コーヒー",
+        "珈琲",
+        "ドリップバッグ",
+        "緑茶",
+        "紅茶",
+        "麦茶",
+        "ほうじ茶",
+        "ティーバッグ",
+      ],
+      requireAny: [],
+      afterBeauty: true,
+    },
+    {
+      id: "sweets",
+      code: "",
+      label: "お菓子・スイーツ",
+      keywords: [
+        "お菓子",
+        "チョコレート",
+        "クッキー",
+        "スナック菓子",
+        "ポテトチップス",
+        "グミ",
+        "キャンディ",
+        "せんべい",
+        "ビスケット",
+      ],
+      requireAny: [],
+      afterBeauty: true,
+    },
+    {
+      id: "seasoning",
+      code: "",
+      label: "調味料・食用油",
+      keywords: [
+        "調味料",
+        "醤油",
+        "しょうゆ",
+        "味噌",
+        "ドレッシング",
+        "マヨネーズ",
+        "オリーブオイル",
+        "ごま油",
+        "食用油",
+      ],
+      requireAny: [],
+      afterBeauty: true,
+    },
+    {
+      id: "instant-food",
+      code: "",
+      label: "インスタント・レトルト",
+      keywords: [
+        "カップ麺",
+        "カップラーメン",
+        "インスタント",
+        "レトルト",
+        "即席",
+        "スープ",
+      ],
+      requireAny: [],
+      afterBeauty: true,
+    },
+    {
+      id: "rice-noodle-bread",
+      code: "",
+      label: "米・麺・パン",
+      keywords: [
+        "お米",
+        "無洗米",
+        "精米",
+        "パスタ",
+        "うどん",
+        "蕎麦",
+        "乾麺",
+        "ラーメン",
+        "食パン",
+      ],
+      requireAny: [],
+      afterBeauty: true,
+    },
+
+    // ファッション ※「バッグ」は「ティーバッグ」等より後
+    {
+      id: "bag-wallet",
+      code: "",
+      label: "バッグ・財布",
+      keywords: [
+        "バッグ",
+        "リュック",
+        "財布",
+        "ポーチ",
+        "キーケース",
+        "パスケース",
+      ],
+      requireAny: [],
+      afterBeauty: true,
+    },
+    {
+      id: "accessory-watch",
+      code: "",
+      label: "アクセサリー・時計",
+      keywords: [
+        "ネックレス",
+        "ピアス",
+        "イヤリング",
+        "ブレスレット",
+        "指輪",
+        "腕時計",
+        "サングラス",
+        "ヘアクリップ",
+      ],
+      requireAny: [],
+      afterBeauty: true,
+    },
+    {
+      id: "clothing",
+      code: "",
+      label: "衣類・下着",
+      keywords: [
+        "Tシャツ",
+        "パーカー",
+        "靴下",
+        "ソックス",
+        "下着",
+        "ブラジャー",
+        "レギンス",
+        "パジャマ",
+        "ジャケット",
+      ],
+      requireAny: [],
+      afterBeauty: true,
+    },
+    {
+      id: "shoes",
+      code: "",
+      label: "靴",
+      keywords: [
+        "スニーカー",
+        "サンダル",
+        "ブーツ",
+        "パンプス",
+        "スリッパ",
+        "インソール",
+      ],
+      requireAny: [],
+      afterBeauty: true,
+    },
+  ],
+
+  // 「より限定的・優先したい」カテゴリほど上に置く
+  beautyRules: [
+    // 1. UVケアを最優先
+    {
+      id: "uv-care",
+      code: "120000017",
+      label: "UVケア",
+      keywords: [
+        "日焼け止め",
+        "UVケア",
+        "UVカット",
+        "サンスクリーン",
+        "サンブロック",
+        "サンプロテクター",
+        "サンクッション",
+        "UVクリーム",
+        "UVミルク",
+        "UVジェル",
+      ],
+    },
+
+    // 2. ベースメイク
+    {
+      id: "base-makeup",
+      code: "120000013",
+      label: "ベースメイク",
+      keywords: [
+        "ファンデーション",
+        "クッションファンデ",
+        "クッションファンデーション",
+        "リキッドファンデ",
+        "パウダーファンデ",
+        "BBクリーム",
+        "CCクリーム",
+        "化粧下地",
+        "メイク下地",
+        "プライマー",
+        "コンシーラー",
+        "フェイスパウダー",
+        "ルースパウダー",
+        "プレストパウダー",
+        "トーンアップベース",
+        "トーンアップクリーム",
+      ],
+    },
+
+    // 3. ポイントメイク
+    {
+      id: "point-makeup",
+      code: "120000014",
+      label: "ポイントメイク",
+      keywords: [
+        "アイシャドウ",
+        "アイグロス",
+        "アイライナー",
+        "ジェルライナー",
+        "ペンシルライナー",
+        "マスカラ",
+        "チーク",
+        "ブラッシュ",
+        "ハイライト",
+        "シェーディング",
+        "コントゥア",
+        "リップ",
+        "口紅",
+        "グロス",
+        "ティント",
+        "リップオイル",
+        "リップバーム",
+        "アイブロウ",
+        "眉マスカラ",
+        "ブロウ",
+      ],
+    },
+
+    // 4. ヘアケア
+    {
+      id: "hair-care",
+      code: "120000020",
+      label: "ヘアケア",
+      keywords: [
+        "シャンプー",
+        "コンディショナー",
+        "トリートメント",
+        "ヘアマスク",
+        "ヘアパック",
+        "ヘアオイル",
+        "ヘアミスト",
+        "ヘアエッセンス",
+        "ヘアスプレー",
+        "ヘアワックス",
+        "スタイリング",
+        "スタイリングジェル",
+        "育毛剤",
+        "スカルプ",
+        "頭皮ケア",
+        "ヘアカラー",
+        "白髪染め",
+        "ヘナ",
+      ],
+    },
+
+    // 5. ネイル
+    {
+      id: "nail",
+      code: "120000021",
+      label: "ネイル",
+      keywords: [
+        "ネイル",
+        "マニキュア",
+        "ジェルネイル",
+        "トップコート",
+        "ベースコート",
+        "ネイルポリッシュ",
+        "ネイルカラー",
+        "ネイルオイル",
+        "キューティクルオイル",
+      ],
+    },
+
+    // 6. 香水・フレグランス
+    {
+      id: "fragrance",
+      code: "120000022",
+      label: "香水・フレグランス",
+      keywords: [
+        "香水",
+        "フレグランス",
+        "オードトワレ",
+        "オードパルファム",
+        "オーデコロン",
+        "ボディミスト",
+        "ヘアミスト",
+        "パルファム",
+      ],
+    },
 
-function isDailyRazor(title: string): boolean {
-  if (!RAZOR_KEYWORDS.some((kw) => title.includes(kw))) return false;
+    // 7. ボディ・ハンド・フットケア
+    {
+      id: "body-care",
+      code: "120000018",
+      label: "ボディ・ハンド・フットケア",
+      keywords: [
+        "ボディクリーム",
+        "ボディミルク",
+        "ボディローション",
+        "ボディジェル",
+        "ボディオイル",
+        "ボディソープ",
+        "ボディウォッシュ",
+        "シャワージェル",
+        "ハンドクリーム",
+        "ハンドジェル",
+        "ハンドローション",
+        "フットクリーム",
+        "フットケア",
+        "ボディスクラブ",
+        "ボディスクラップ",
+        "バスソルト",
+        "入浴剤",
+        "バスボム",
+        "デオドラント",
+        "制汗",
+        "ボディバター",
+        "ボディミスト",
+        // 「コーヒースクラブ ボディ」のように分かち書きされたもの（スキンケアより先に拾う）
+        "ボディ",
+      ],
+    },
 
-  // 電動っぽさが無く、替刃・ホルダー・剃刀系なら日用品扱い
-  if (!ELECTRIC_HINTS.some((kw) => title.includes(kw))) return true;
-  if (DAILY_RAZOR_HINTS.some((kw) => title.includes(kw))) return true;
+    // 8. スキンケア
+    {
+      id: "skin-care",
+      code: "120000012",
+      label: "スキンケア",
+      keywords: [
+        "化粧水",
+        "ローション",
+        "トナー",
+        "乳液",
+        "エマルジョン",
+        "美容液",
+        "セラム",
+        "エッセンス",
+        "アンプル",
+        "クリーム",
+        "ジェルクリーム",
+        "ジェル",
+        "オールインワンジェル",
+        "オールインワンゲル",
+        "クレンジング",
+        "クレンジングオイル",
+        "クレンジングバーム",
+        "クレンジングジェル",
+        "クレンジングミルク",
+        "洗顔",
+        "洗顔フォーム",
+        "フォームクレンザー",
+        "シートマスク",
+        "フェイスマスク",
+        "マスク",
+        "パック",
+        "スリーピングマスク",
+        "スリーピングパック",
+        "ピーリング",
+        "スクラブ",
+        "角質ケア",
+        "CICA",
+        "シカ",
+        "美白美容液",
+        "毛穴ケア",
+      ],
+    },
+  ],
+};
 
-  return false;
+export type CategoryRuleOverrides = {
+  mainRules: RuleOverrides<MainCategoryRule>;
+  beautyRules: RuleOverrides<SubCategoryRule>;
+};
+
+type KeyedRule = { id?: string; code: string; label: string };
+
+// code は空のルールが多く、埋めると別のルールになってしまうので ID で見分ける
+// （ID の無い、設定画面で追加したルールは label）
+const categoryRuleKey = (rule: KeyedRule) => rule.id ?? `label:${rule.label}`;
+
+/** 以前の表全体の保存には ID が無いので、label が同じ既定のルールの ID を付ける */
+function withDefaultIds<T extends KeyedRule>(
+  saved: RuleOverrides<T> | T[] | undefined,
+  defaults: T[]
+): RuleOverrides<T> | T[] | undefined {
+  if (!Array.isArray(saved)) return saved;
+  return saved.map((rule) => {
+    if (rule.id) return rule;
+    const d = defaults.find((x) => x.label === rule.label);
+    return d?.id ? { ...rule, id: d.id } : rule;
+  });
+}
+
+/** 保存用：既定の表からの変更分 */
+export const categoryRuleOverridesOf = (
+  rules: CategoryRules
+): CategoryRuleOverrides => ({
+  mainRules: ruleOverridesOf(
+    DEFAULT_CATEGORY_RULES.mainRules,
+    rules.mainRules,
+    categoryRuleKey
+  ),
+  beautyRules: ruleOverridesOf(
+    DEFAULT_CATEGORY_RULES.beautyRules,
+    rules.beautyRules,
+    categoryRuleKey
+  ),
+});
+
+/** 読み込み時：最新の既定の表に変更分を重ねる（以前の表全体の保存にも対応） */
+export function withCategoryRuleOverrides(
+  saved: CategoryRuleOverrides | CategoryRules | undefined
+): CategoryRules {
+  const { mainRules, beautyRules } = DEFAULT_CATEGORY_RULES;
+  return {
+    mainRules: applyRuleOverrides(
+      mainRules,
+      toRuleOverrides(
+        withDefaultIds(saved?.mainRules, mainRules),
+        mainRules,
+        categoryRuleKey
+      ),
+      categoryRuleKey
+    ),
+    beautyRules: applyRuleOverrides(
+      beautyRules,
+      toRuleOverrides(
+        withDefaultIds(saved?.beautyRules, beautyRules),
+        beautyRules,
+        categoryRuleKey
+      ),
+      categoryRuleKey
+    ),
+  };
 }
 
 // ==============================
 // メインカテゴリ判定
 // ==============================
 
-export function getMainCategoryCode(
-  titleRaw: string | null | undefined
-): MainCategoryCode {
-  const title = titleRaw ?? "";
+// 一覧表示のたびに全商品 × 全キーワードを照合するので、キーワード側の正規化は使い回す
+const keywordCache = new Map<string, string>();
+const normalizedKeyword = (kw: string): string => {
+  let n = keywordCache.get(kw);
+  if (n === undefined) {
+    n = normalizeText(kw);
+    keywordCache.set(kw, n);
+  }
+  return n;
+};
 
-  if (isSupplement(title)) return "130000";
-  if (isBeautyAppliance(title)) return "120000033";
-  if (isDailyRazor(title)) return "100000018";
+/**
+ * title は normalizeText 済みのもの。キーワードも正規化して比べるので、
+ * 全角半角・ひらがなカタカナ・大文字小文字の違いを表に並べる必要はない
+ */
+const findKeyword = (title: string, words: string[]): string | undefined =>
+  words.find((kw) => {
+    const n = normalizedKeyword(kw);
+    return !!n && title.includes(n);
+  });
 
-  // 残りはビューティ（化粧品・メイク・UV等）
-  return "120000";
+/** この文字数以下のキーワードだけで当たった判定は信頼度を下げる */
+const SHORT_KEYWORD_LENGTH = 3;
+
+/** 1行分の照合（title は normalizeText 済み） */
+const matchRule = (
+  title: string,
+  rule: MainCategoryRule | SubCategoryRule
+): CategoryRuleMatch | undefined => {
+  const keyword = findKeyword(title, rule.keywords);
+  if (!keyword) return undefined;
+  const { code, label } = rule;
+  if (!("requireAny" in rule) || !rule.requireAny.length) {
+    return { code, label, keyword };
+  }
+  const requiredWord = findKeyword(title, rule.requireAny);
+  return requiredWord ? { code, label, keyword, requiredWord } : undefined;
+};
+
+/**
+ * 当たったメインカテゴリのルール。どれにも当たらなければ undefined。
+ * afterBeauty を指定すると、ビューティ細分けの後に判定するルールだけを見る
+ */
+export function matchMainCategory(
+  titleRaw: string | null | undefined,
+  rules: CategoryRules = DEFAULT_CATEGORY_RULES,
+  afterBeauty = false
+): CategoryRuleMatch | undefined {
+  const title = normalizeText(titleRaw);
+  for (const rule of rules.mainRules) {
+    if (!!rule.afterBeauty !== afterBeauty) continue;
+    const match = matchRule(title, rule);
+    if (match) return match;
+  }
+  return undefined;
+}
+
+export function getMainCategoryCode(
+  titleRaw: string | null | undefined,
+  rules: CategoryRules = DEFAULT_CATEGORY_RULES
+): string {
+  return classifyQoo10Category(titleRaw, rules).main;
 }
 
 // ==============================
 // ビューティ内細分け（SecondSubCat）
 // ==============================
 
-type BeautyRule = { code: BeautyCatCode; keywords: string[] };
-
-// 「より限定的・優先したい」カテゴリほど上に置く
-const BEAUTY_RULES: BeautyRule[] = [
-  // 1. UVケアを最優先
-  {
-    code: "120000017", // UVケア
-    keywords: [
-      "日焼け止め",
-      "UVケア",
-      "UVカット",
-      "サンスクリーン",
-      "サンブロック",
-      "サンプロテクター",
-      "サンクッション",
-      "UVクリーム",
-      "UVミルク",
-      "UVジェル",
-    ],
-  },
-
-  // 2. ベースメイク
-  {
-    code: "120000013",
-    keywords: [
-      "ファンデーション",
-      "クッションファンデ",
-      "クッションファンデーション",
-      "リキッドファンデ",
-      "パウダーファンデ",
-      "BBクリーム",
-      "CCクリーム",
-      "化粧下地",
-      "メイク下地",
-      "プライマー",
-      "コンシーラー",
-      "フェイスパウダー",
-      "ルースパウダー",
-      "プレストパウダー",
-      "トーンアップベース",
-      "トーンアップクリーム",
-    ],
-  },
-
-  // 3. ポイントメイク
-  {
-    code: "120000014",
-    keywords: [
-      "アイシャドウ",
-      "アイグロス",
-      "アイライナー",
-      "ジェルライナー",
-      "ペンシルライナー",
-      "マスカラ",
-      "チーク",
-      "ブラッシュ",
-      "ハイライト",
-      "シェーディング",
-      "コントゥア",
-      "リップ",
-      "口紅",
-      "グロス",
-      "ティント",
-      "リップオイル",
-      "リップバーム",
-      "アイブロウ",
-      "眉マスカラ",
-      "ブロウ",
-    ],
-  },
-
-  // 4. ヘアケア
-  {
-    code: "120000020",
-    keywords: [
-      "シャンプー",
-      "ｼｬﾝﾌﾟｰ",
-      "コンディショナー",
-      "トリートメント",
-      "ヘアマスク",
-      "ヘアパック",
-      "ヘアオイル",
-      "ヘアミスト",
-      "ヘアエッセンス",
-      "ヘアスプレー",
-      "ヘアワックス",
-      "スタイリング",
-      "スタイリングジェル",
-      "育毛剤",
-      "スカルプ",
-      "頭皮ケア",
-      "ヘアカラー",
-      "白髪染め",
-      "ヘナ",
-    ],
-  },
-
-  // 5. ネイル
-  {
-    code: "120000021",
-    keywords: [
-      "ネイル",
-      "マニキュア",
-      "ジェルネイル",
-      "トップコート",
-      "ベースコート",
-      "ネイルポリッシュ",
-      "ネイルカラー",
-      "ネイルオイル",
-      "キューティクルオイル",
-    ],
-  },
-
-  // 6. 香水・フレグランス
-  {
-    code: "120000022",
-    keywords: [
-      "香水",
-      "フレグランス",
-      "オードトワレ",
-      "オードパルファム",
-      "オーデコロン",
-      "ボディミスト",
-      "ヘアミスト",
-      "パルファム",
-    ],
-  },
-
-  // 7. ボディ・ハンド・フットケア
-  {
-    code: "120000018",
-    keywords: [
-      "ボディクリーム",
-      "ボディミルク",
-      "ボディローション",
-      "ボディジェル",
-      "ボディオイル",
-      "ボディソープ",
-      "ボディウォッシュ",
-      "シャワージェル",
-      "ハンドクリーム",
-      "ハンドジェル",
-      "ハンドローション",
-      "フットクリーム",
-      "フットケア",
-      "ボディスクラブ",
-      "ボディスクラップ",
-      "バスソルト",
-      "入浴剤",
-      "バスボム",
-      "デオドラント",
-      "制汗",
-      "ボディバター",
-      "ボディミスト",
-    ],
-  },
-
-  // 8. スキンケア（最後の受け皿）
-  {
-    code: "120000012",
-    keywords: [
-      "化粧水",
-      "ローション",
-      "トナー",
-      "乳液",
-      "エマルジョン",
-      "美容液",
-      "セラム",
-      "エッセンス",
-      "アンプル",
-      "クリーム",
-      "ジェルクリーム",
-      "ジェル",
-      "オールインワンジェル",
-      "オールインワンゲル",
-      "クレンジング",
-      "クレンジングオイル",
-      "クレンジングバーム",
-      "クレンジングジェル",
-      "クレンジングミルク",
-      "洗顔",
-      "洗顔フォーム",
-      "フォームクレンザー",
-      "シートマスク",
-      "フェイスマスク",
-      "マスク",
-      "パック",
-      "スリーピングマスク",
-      "スリーピングパック",
-      "ピーリング",
-      "スクラブ",
-      "角質ケア",
-      "CICA",
-      "シカ",
-      "美白美容液",
-      "毛穴ケア",
-    ],
-  },
-];
-
-export function getBeautySecondSubCat(title: string): BeautyCatCode {
-  for (const rule of BEAUTY_RULES) {
-    for (const kw of rule.keywords) {
-      if (title.includes(kw)) {
-        return rule.code;
-      }
-    }
+/** 当たったビューティ細分けのルール。どれにも当たらなければ undefined */
+export function matchBeautySubCategory(
+  title: string,
+  rules: CategoryRules = DEFAULT_CATEGORY_RULES
+): CategoryRuleMatch | undefined {
+  const normalized = normalizeText(title);
+  for (const rule of rules.beautyRules) {
+    if (!rule.code) continue;
+    const match = matchRule(normalized, rule);
+    if (match) return match;
   }
+  return undefined;
+}
 
-  // どれにも当てはまらなければ、とりあえずスキンケア扱い
-  return "120000012";
+export function getBeautySecondSubCat(
+  title: string,
+  rules: CategoryRules = DEFAULT_CATEGORY_RULES
+): string | undefined {
+  return matchBeautySubCategory(title, rules)?.code;
 }
 
 // ==============================
 // 総合判定関数（これだけ呼べばOK）
 // ==============================
 
+/**
+ * 採用したルールと別のカテゴリのルールにも当たるか（判定が割れていないかの確認）。
+ * カテゴリNo未設定の大分類に当たった場合も、別のカテゴリとして数える
+ */
+function findConflict(
+  title: string | null | undefined,
+  rules: CategoryRules,
+  code: string
+): CategoryRuleMatch | undefined {
+  const normalized = normalizeText(title);
+  const coded = rules.beautyRules.filter((r) => r.code);
+  for (const rule of [...rules.mainRules, ...coded]) {
+    if (rule.code === code) continue;
+    const match = matchRule(normalized, rule);
+    if (match) return match;
+  }
+  return undefined;
+}
+
+function confidenceOf(
+  match: CategoryRuleMatch,
+  conflict: CategoryRuleMatch | undefined
+): CategoryConfidence {
+  const short =
+    match.keyword.length <= SHORT_KEYWORD_LENGTH && !match.requiredWord;
+  if (short && conflict) return "low";
+  return short || conflict ? "medium" : "high";
+}
+
+function mainDecision(
+  title: string | null | undefined,
+  rules: CategoryRules,
+  mainMatch: CategoryRuleMatch
+): Qoo10CategoryDecision {
+  // カテゴリNo未設定の大分類：根拠は残したうえで判定不能にする
+  if (!mainMatch.code) {
+    return { main: UNKNOWN_CATEGORY, mainMatch, confidence: "low" };
+  }
+  const conflictMatch = findConflict(title, rules, mainMatch.code);
+  return {
+    main: mainMatch.code,
+    mainMatch,
+    conflictMatch,
+    confidence: confidenceOf(mainMatch, conflictMatch),
+  };
+}
+
 export function classifyQoo10Category(
-  title: string | null | undefined
+  title: string | null | undefined,
+  rules: CategoryRules = DEFAULT_CATEGORY_RULES
 ): Qoo10CategoryDecision {
-  const main = getMainCategoryCode(title);
+  // サプリ／家電／日用品などはメインカテゴリだけ
+  const mainMatch = matchMainCategory(title, rules);
+  if (mainMatch) return mainDecision(title, rules, mainMatch);
 
-  if (main === "120000") {
-    const sub = getBeautySecondSubCat(title ?? "");
-    return { main, beautySecondSubCat: sub };
+  // 次にビューティの細分け、それにも当たらなければ食品・ホーム等、どれも無ければ判定不能
+  const subMatch = matchBeautySubCategory(title ?? "", rules);
+  if (!subMatch) {
+    const lateMatch = matchMainCategory(title, rules, true);
+    return lateMatch
+      ? mainDecision(title, rules, lateMatch)
+      : { main: UNKNOWN_CATEGORY, confidence: "low" };
   }
+  const conflictMatch = findConflict(title, rules, subMatch.code);
+  return {
+    main: BEAUTY_MAIN_CODE,
+    beautySecondSubCat: subMatch.code,
+    subMatch,
+    conflictMatch,
+    confidence: confidenceOf(subMatch, conflictMatch),
+  };
+}
 
-  // サプリ／家電／日用品はメインカテゴリだけ
-  return { main };
+/** 判定根拠の短い説明（一覧・プレビュー表示用） */
+export function describeCategoryDecision(d: Qoo10CategoryDecision): string {
+  const match = d.subMatch ?? d.mainMatch;
+  if (!match) return "該当キーワードなし";
+  const labelOf = (m: CategoryRuleMatch) =>
+    (m.label || catalogueLabelOf(m.code) || m.code) +
+    (m.code ? "" : "（カテゴリNo未設定）");
+  const words = match.requiredWord
+    ? `「${match.keyword}」+「${match.requiredWord}」`
+    : `「${match.keyword}」`;
+  const conflict = d.conflictMatch
+    ? `（「${d.conflictMatch.keyword}」で${labelOf(d.conflictMatch)}にも該当）`
+    : "";
+  return `${labelOf(match)}：${words}${conflict}`;
 }
 
 /*
@@ -394,9 +1132,17 @@ const title = "SALONIA ストレートヘアアイロン 24mm";
 const cat = classifyQoo10Category(title);
 // cat.main === "120000033" （美容家電）
 // cat.beautySecondSubCat は undefined
+// cat.mainMatch.keyword === "ヘアアイロン", cat.confidence === "high"
 
 const title2 = "VT CICA デイリースージングマスク 30枚入";
 const cat2 = classifyQoo10Category(title2);
 // cat2.main === "120000"
 // cat2.beautySecondSubCat === "120000012" （スキンケア）
+
+const cat3 = classifyQoo10Category("ステンレス フライパン 26cm");
+// cat3.main === UNKNOWN_CATEGORY（調理器具に当たるが、カテゴリNo未設定なので要確認）
+// cat3.mainMatch.label === "調理器具"
+
+// 短い語だけで当たり、ほかのカテゴリにも当たる（conflictMatch あり）と confidence === "low"
+// どのキーワードにも当たらなければ main === UNKNOWN_CATEGORY, confidence === "low"
 */
@@ -0,0 +1,55 @@
+// src/qsmExport.ts
+// Qoo10 QSM「商品一括登録」用ファイル（API が使えないときの手動登録経路）
+//
+// - 出品 API と同じ Qoo10ListingPayload から作るので、除外・価格・カテゴリ判定は共通
+// - 列名は QSM の一括登録テンプレートに合わせる。使わない列は空欄で出力する
+
+import type { Qoo10ListingPayload } from "./api/qeasy";
+
+type QsmColumn = {
+  header: string;
+  value: (p: Qoo10ListingPayload) => unknown;
+};
+
+const QSM_COLUMNS: QsmColumn[] = [
+  { header: "item_number", value: () => "" }, // 新規登録は空欄（Qoo10 が採番）
+  { header: "seller_unique_item_id", value: (p) => p.asin },
+  { header: "category_number", value: (p) => p.categoryNo ?? "" },
+  { header: "brand_number", value: () => "" },
+  { header: "item_name", value: (p) => p.title },
+  { header: "item_promotion_name", value: () => "" },
+  { header: "item_status_Y/N/D", value: () => "Y" },
+  { header: "end_date", value: () => "" },
+  { header: "price_yen", value: (p) => p.price },
+  { header: "retail_price_yen", value: () => "" },
+  { header: "quantity", value: (p) => p.stock ?? "" },
+  { header: "option_info", value: () => "" },
+  { header: "additional_option_info", value: () => "" },
+  { header: "image_main_url", value: (p) => p.imageUrl ?? "" },
+  { header: "image_other_url", value: () => "" },
+  { header: "item_description", value: (p) => p.title },
+  { header: "Shipping_number", value: (p) => p.shippingCode },
+  { header: "item_condition_type", value: () => 1 }, // 1 = 新品
+  { header: "external_product_type", value: (p) => (p.jan ? "JAN" : "") },
+  { header: "external_product_id", value: (p) => p.jan ?? "" },
+];
+
+/** 見出し行つきの一括登録シート */
+export function payloadsToQsmRows(
+  payloads: Qoo10ListingPayload[]
+): unknown[][] {
+  return [
+    QSM_COLUMNS.map((c) => c.header),
+    ...payloads.map((p) => QSM_COLUMNS.map((c) => c.value(p))),
+  ];
+}
+
+/** 一括登録でエラーになりやすい項目（QSM ではカテゴリ・画像が必須） */
+export function qsmProblemsOf(payload: Qoo10ListingPayload): string[] {
+  const problems: string[] = [];
+  if (!payload.title.trim()) problems.push("商品名が空です");
+  if (!(payload.price > 0)) problems.push("価格が不正です");
+  if (!payload.categoryNo) problems.push("カテゴリNoが未設定です");
+  if (!payload.imageUrl) problems.push("画像URLがありません");
+  return problems;
+}
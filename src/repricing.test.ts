@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_PROFIT_SETTINGS } from "./profit";
+import { DEFAULT_CATEGORY_RULES } from "./qoo10Category";
+import { findRepriceCandidates } from "./repricing";
+import { planStockChanges } from "./stockSync";
+import type { Product, SettingsState } from "./types";
+
+const settings = (patch: Partial<SettingsState> = {}): SettingsState => ({
+  primeOnly: true,
+  primeShipDaysMax: 3,
+  maxStockPerItem: 2,
+  shippingCode: "645035",
+  rules: [{ min: 1, multiply: 1.2, plus: 400 }],
+  priceRounding: "none",
+  priceFloor: 0,
+  priceCeiling: 0,
+  scopedPriceRules: [],
+  repriceMinDiffYen: 0,
+  repriceMinDiffRate: 0,
+  stockSyncEnabled: true,
+  noListASINs: [],
+  noListWords: [],
+  nameEraseWords: [],
+  brandRules: [],
+  claimRules: [],
+  keepASINsOnDelete: [],
+  categoryMap: {},
+  autoCategoryEnabled: true,
+  categoryRules: DEFAULT_CATEGORY_RULES,
+  rejectedCategorySuggestions: [],
+  // 手数料 10% + ポイント 1%
+  profit: { ...DEFAULT_PROFIT_SETTINGS, minMarginRate: 20 },
+  notifyOnSuccess: false,
+  notifyOnError: false,
+  autoApplyTemplate: false,
+  exportColumns: [],
+  batchChunkSize: 100,
+  batchConcurrency: 1,
+  batchDelayMs: 0,
+  batchMaxRetries: 0,
+  ...patch,
+});
+
+const product = (patch: Partial<Product> = {}): Product => ({
+  id: 1,
+  asin: "B000TEST01",
+  name: "ヘアケア シャンプー 500ml",
+  mainImage: "",
+  amazonPrice: 1000,
+  updatedAt: "",
+  qoo10Id: "1000000001",
+  qoo10Price: 1500,
+  ...patch,
+});
+
+const candidateOf = (p: Product, s = settings()) => {
+  const [c] = findRepriceCandidates([p], [], s);
+  return {
+    newPrice: c.newPrice,
+    drifted: c.drifted,
+    lowMargin: c.lowMargin,
+    suspend: c.suspend,
+  };
+};
+
+// 1.0倍 + 100円：Amazon 1000円 → 1100円（利益率は下限未満）
+const thin = settings({ rules: [{ min: 1, multiply: 1, plus: 100 }] });
+
+describe("findRepriceCandidates", () => {
+  it("reprices a drift that keeps the margin", () => {
+    expect(candidateOf(product())).toEqual({
+      newPrice: 1600,
+      drifted: true,
+      lowMargin: false,
+      suspend: false,
+    });
+  });
+
+  it("raises the price even when the margin is still short, and suspends it", () => {
+    // Amazon 2000円 → 2800円（利益率 17.6%）
+    expect(
+      candidateOf(product({ amazonPrice: 2000, qoo10Price: 2500 }))
+    ).toEqual({
+      newPrice: 2800,
+      drifted: true,
+      lowMargin: true,
+      suspend: true,
+    });
+  });
+
+  it("does not lower the price below the margin floor", () => {
+    expect(candidateOf(product({ qoo10Price: 2000 }), thin)).toEqual({
+      newPrice: 1100,
+      drifted: false,
+      lowMargin: true,
+      suspend: false,
+    });
+  });
+
+  it("suspends when the current price also misses the floor", () => {
+    expect(candidateOf(product({ qoo10Price: 1150 }), thin)).toMatchObject({
+      drifted: false,
+      suspend: true,
+    });
+  });
+});
+
+describe("planStockChanges with the margin floor", () => {
+  it("stops items whose margin stays short after repricing", () => {
+    const p = product({ amazonPrice: 2000, qoo10Price: 2500, qoo10Stock: 2 });
+    const infos = new Map([
+      [
+        p.asin,
+        {
+          asin: p.asin,
+          price: 2000,
+          sellerCount: 3,
+          isPrime: true,
+          shipDays: 1,
+        },
+      ],
+    ]);
+    expect(
+      planStockChanges([p], infos, settings()).map((c) => c.reason)
+    ).toEqual(["low_margin"]);
+    expect(
+      planStockChanges([{ ...p, qoo10Stock: 0 }], infos, settings())
+    ).toEqual([]);
+  });
+});
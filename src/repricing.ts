@@ -0,0 +1,144 @@
+// src/repricing.ts
+// 出品済み商品の価格改定候補（現在の価格ルール適用結果 vs 最後に出品した価格）
+
+import { chooseCategory } from "./categoryChoice";
+import type { ListingRun } from "./listingHistory";
+import { priceFor } from "./pricing";
+import { estimateProfit } from "./profit";
+import type { Product, SettingsState } from "./types";
+
+export type RepriceCandidate = {
+  product: Product;
+  qoo10ItemCode: string;
+  /** 最後に出品・改定した価格 */
+  currentPrice: number;
+  /** 現在の Amazon 価格に価格ルールを適用した価格 */
+  newPrice: number;
+  diff: number;
+  /** currentPrice に対する差額の割合(%) */
+  diffRate: number;
+  /** しきい値を超えて改定対象になるか（下限未満への値下げは false） */
+  drifted: boolean;
+  /** 改定後価格での利益率(%)。試算できなければ undefined */
+  marginRate?: number;
+  /** 改定後価格の利益率が最低利益率(profit.minMarginRate)未満 */
+  lowMargin: boolean;
+  /** 改定しても（値下げを止めても）利益率が下限未満のまま。在庫を0にして販売を止める */
+  suspend: boolean;
+};
+
+/** 商品・Qoo10 商品コードを除いた改定の判定 */
+export type RepricePlan = Omit<RepriceCandidate, "product" | "qoo10ItemCode">;
+
+/** 出品履歴から ASIN ごとの最新の成功価格を引く（qoo10Price 導入前の出品分用） */
+export function lastListedPrices(runs: ListingRun[]): Map<string, number> {
+  const map = new Map<string, number>();
+  // runs は新しい順
+  for (const run of runs) {
+    for (const it of run.items) {
+      if (it.status === "success" && it.price && !map.has(it.asin)) {
+        map.set(it.asin, it.price);
+      }
+    }
+  }
+  return map;
+}
+
+export function isDrifted(
+  diff: number,
+  diffRate: number,
+  settings: SettingsState
+): boolean {
+  if (diff === 0) return false;
+  if (
+    settings.repriceMinDiffYen > 0 &&
+    Math.abs(diff) < settings.repriceMinDiffYen
+  ) {
+    return false;
+  }
+  if (
+    settings.repriceMinDiffRate > 0 &&
+    Math.abs(diffRate) < settings.repriceMinDiffRate
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Amazon 価格 amazonPrice のときの改定内容（価格ルールで価格が決まらなければ undefined）。
+ * 出品時の最低利益率（marginRule）と同じ基準で、下限未満になる値下げはしない。
+ * 値上げしても下限に届かない（Amazon の仕入れ値が上がりすぎた）商品や、
+ * 値下げを止めた今の価格でも下限未満の商品は suspend にする。
+ */
+export function planReprice(
+  p: Product,
+  amazonPrice: number,
+  currentPrice: number,
+  settings: SettingsState
+): RepricePlan | undefined {
+  const categoryNo = chooseCategory(undefined, p, settings);
+  const newPrice = priceFor(amazonPrice, settings, categoryNo, p.name);
+  if (!newPrice) return undefined;
+
+  const floor = settings.profit.minMarginRate;
+  const marginAt = (price: number) =>
+    estimateProfit(
+      price,
+      amazonPrice,
+      categoryNo,
+      settings.shippingCode,
+      settings.profit
+    )?.marginRate;
+  const belowFloor = (rate: number | undefined) =>
+    !!floor && rate !== undefined && rate < floor;
+
+  const marginRate = marginAt(newPrice);
+  const lowMargin = belowFloor(marginRate);
+  const diff = newPrice - currentPrice;
+  const diffRate = (diff / currentPrice) * 100;
+  const drifted =
+    isDrifted(diff, diffRate, settings) && !(lowMargin && diff < 0);
+  const suspend =
+    lowMargin && belowFloor(drifted ? marginRate : marginAt(currentPrice));
+  return {
+    currentPrice,
+    newPrice,
+    diff,
+    diffRate,
+    drifted,
+    marginRate,
+    lowMargin,
+    suspend,
+  };
+}
+
+/**
+ * Qoo10 商品コードがあり、在庫があり、価格が分かる商品を対象に改定候補を作る。
+ * 在庫切れ商品は在庫同期側で扱い、出品停止中の商品は改定しない。
+ */
+export function findRepriceCandidates(
+  products: Product[],
+  runs: ListingRun[],
+  settings: SettingsState
+): RepriceCandidate[] {
+  const fromHistory = lastListedPrices(runs);
+  const candidates: RepriceCandidate[] = [];
+
+  for (const p of products) {
+    if (!p.qoo10Id || p.qoo10Suspended) continue;
+    if (p.inStock === false || !p.amazonPrice) continue;
+    const currentPrice = p.qoo10Price ?? fromHistory.get(p.asin);
+    if (!currentPrice) continue;
+
+    const plan = planReprice(p, p.amazonPrice, currentPrice, settings);
+    if (!plan) continue;
+    candidates.push({
+      product: p,
+      qoo10ItemCode: p.qoo10Id,
+      ...plan,
+    });
+  }
+
+  return candidates;
+}
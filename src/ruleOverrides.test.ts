@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  applyRuleOverrides,
+  ruleOverridesOf,
+  toRuleOverrides,
+} from "./ruleOverrides";
+
+type Rule = { code: string; words: string[] };
+
+const keyOf = (r: Rule) => r.code;
+const rule = (code: string, ...words: string[]): Rule => ({ code, words });
+
+const DEFAULTS = [rule("A", "a"), rule("B", "b"), rule("C", "c")];
+
+describe("ruleOverridesOf", () => {
+  it("stores nothing for the default table", () => {
+    expect(ruleOverridesOf(DEFAULTS, DEFAULTS, keyOf)).toEqual({
+      changed: [],
+      removed: [],
+    });
+  });
+
+  it("stores only changed, added and removed rules", () => {
+    const edited = [rule("A", "a", "x"), rule("C", "c"), rule("D", "d")];
+    expect(ruleOverridesOf(DEFAULTS, edited, keyOf)).toEqual({
+      changed: [
+        { key: "A", rule: rule("A", "a", "x") },
+        { key: "D", rule: rule("D", "d") },
+      ],
+      removed: ["B"],
+    });
+  });
+
+  it("round-trips edits, additions and reordering", () => {
+    const edited = [rule("D", "d"), rule("C", "c"), rule("A", "a", "x")];
+    const overrides = ruleOverridesOf(DEFAULTS, edited, keyOf);
+    expect(overrides.order).toEqual(["D", "C", "A"]);
+    expect(applyRuleOverrides(DEFAULTS, overrides, keyOf)).toEqual(edited);
+  });
+
+  it("tells rules with the same key apart by position", () => {
+    const dup = [rule("A", "a"), rule("A", "b")];
+    const edited = [rule("A", "a"), rule("A", "b", "x")];
+    const overrides = ruleOverridesOf(dup, edited, keyOf);
+    expect(overrides.changed.map((c) => c.key)).toEqual(["A#1"]);
+    expect(applyRuleOverrides(dup, overrides, keyOf)).toEqual(edited);
+  });
+});
+
+describe("rules keyed by a stable id", () => {
+  type IdRule = { id: string; code: string; words: string[] };
+  const idOf = (r: IdRule) => r.id;
+  const uncoded = [
+    { id: "x", code: "", words: ["x"] },
+    { id: "y", code: "", words: ["y"] },
+    { id: "z", code: "", words: ["z"] },
+  ];
+
+  it("stores only the rule whose code was filled in", () => {
+    const edited = uncoded.map((r, i) => (i === 0 ? { ...r, code: "1" } : r));
+    const overrides = ruleOverridesOf(uncoded, edited, idOf);
+    expect(overrides).toEqual({
+      changed: [{ key: "x", rule: edited[0] }],
+      removed: [],
+    });
+    const newDefaults = uncoded.map((r) =>
+      r.id === "z" ? { ...r, words: ["z", "z2"] } : r
+    );
+    expect(applyRuleOverrides(newDefaults, overrides, idOf)).toEqual([
+      edited[0],
+      uncoded[1],
+      newDefaults[2],
+    ]);
+  });
+});
+
+describe("applyRuleOverrides", () => {
+  it("picks up rules and keywords added to the defaults later", () => {
+    const overrides = ruleOverridesOf(
+      DEFAULTS,
+      [rule("C", "c"), rule("A", "a", "x")],
+      keyOf
+    );
+    const newDefaults = [
+      rule("A", "a"),
+      rule("B", "b"),
+      rule("N", "n"),
+      rule("C", "c", "c2"),
+    ];
+    expect(applyRuleOverrides(newDefaults, overrides, keyOf)).toEqual([
+      rule("C", "c", "c2"),
+      rule("A", "a", "x"),
+      rule("N", "n"),
+    ]);
+    const reordered = ruleOverridesOf(
+      DEFAULTS,
+      [rule("B", "b"), rule("A", "a"), rule("C", "c")],
+      keyOf
+    );
+    expect(
+      applyRuleOverrides(newDefaults, reordered, keyOf).map(keyOf)
+    ).toEqual(["B", "N", "A", "C"]);
+  });
+});
+
+describe("toRuleOverrides", () => {
+  it("keeps only the differences of a table saved as a whole", () => {
+    const legacy = [rule("A", "a", "x"), rule("B", "b")];
+    expect(toRuleOverrides(legacy, DEFAULTS, keyOf)).toEqual({
+      changed: [{ key: "A", rule: rule("A", "a", "x") }],
+      removed: [],
+    });
+  });
+});
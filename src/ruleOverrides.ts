@@ -0,0 +1,125 @@
+// src/ruleOverrides.ts
+// 既定の表（カテゴリ推定のキーワード表・薬機法チェックの辞書）に対するユーザーの変更分
+//
+// 表全体を保存すると、既定の表を直しても既存ユーザーに届かないので、
+// 保存するのは「変えた・足したルール」「消したルール」「並べ替えた順」だけにし、
+// 読み込み時に最新の既定の表へ重ねる
+
+export type RuleOverrides<T> = {
+  /** 既定と内容が違うルールと、追加したルール */
+  changed: { key: string; rule: T }[];
+  /** 既定から削除したルールのキー */
+  removed: string[];
+  /** 並べ替えたときだけ、全ルールのキーの順 */
+  order?: string[];
+};
+
+export const NO_RULE_OVERRIDES: RuleOverrides<never> = {
+  changed: [],
+  removed: [],
+};
+
+type Keyed<T> = { key: string; rule: T };
+
+/** 同じキーのルールが複数あれば2つ目以降に #n を付けて区別する */
+function keyed<T>(rules: T[], keyOf: (rule: T) => string): Keyed<T>[] {
+  const seen = new Map<string, number>();
+  return rules.map((rule) => {
+    const base = keyOf(rule);
+    const n = seen.get(base) ?? 0;
+    seen.set(base, n + 1);
+    return { key: n ? `${base}#${n}` : base, rule };
+  });
+}
+
+const sameRule = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/** order に無いキー（後から既定に増えたルール）は、既定の表で直前にあるルールの後ろに置く */
+function reorder<T>(
+  merged: Keyed<T>[],
+  order: string[],
+  defaultKeys: string[]
+): Keyed<T>[] {
+  const byKey = new Map(merged.map((k) => [k.key, k]));
+  const result = order.flatMap((key) => {
+    const k = byKey.get(key);
+    return k ? [k] : [];
+  });
+  const placed = new Set(result.map((k) => k.key));
+  for (const k of merged) {
+    if (placed.has(k.key)) continue;
+    const before = defaultKeys.slice(0, defaultKeys.indexOf(k.key));
+    const anchor = before.reverse().find((key) => placed.has(key));
+    const at = anchor ? result.findIndex((x) => x.key === anchor) + 1 : 0;
+    result.splice(at, 0, k);
+    placed.add(k.key);
+  }
+  return result;
+}
+
+/** 既定の表に変更分を重ねる */
+export function applyRuleOverrides<T>(
+  defaults: T[],
+  overrides: RuleOverrides<T>,
+  keyOf: (rule: T) => string
+): T[] {
+  const changedOf = new Map(overrides.changed.map((c) => [c.key, c.rule]));
+  const removed = new Set(overrides.removed);
+  const base = keyed(defaults, keyOf);
+  const merged: Keyed<T>[] = [
+    ...base
+      .filter((k) => !removed.has(k.key))
+      .map((k) => ({ key: k.key, rule: changedOf.get(k.key) ?? k.rule })),
+    ...overrides.changed.filter((c) => !base.some((k) => k.key === c.key)),
+  ];
+  const ordered = overrides.order
+    ? reorder(
+        merged,
+        overrides.order,
+        base.map((k) => k.key)
+      )
+    : merged;
+  return ordered.map((k) => k.rule);
+}
+
+/** 今の表と既定の表の差分（保存用） */
+export function ruleOverridesOf<T>(
+  defaults: T[],
+  rules: T[],
+  keyOf: (rule: T) => string
+): RuleOverrides<T> {
+  const base = keyed(defaults, keyOf);
+  const current = keyed(rules, keyOf);
+  const defaultOf = new Map(base.map((k) => [k.key, k.rule]));
+  const currentKeys = new Set(current.map((k) => k.key));
+  const overrides: RuleOverrides<T> = {
+    changed: current.filter((k) => {
+      const d = defaultOf.get(k.key);
+      return d === undefined || !sameRule(d, k.rule);
+    }),
+    removed: base.filter((k) => !currentKeys.has(k.key)).map((k) => k.key),
+  };
+  const unordered = keyed(
+    applyRuleOverrides(defaults, overrides, keyOf),
+    keyOf
+  );
+  const moved = unordered.some((k, i) => k.key !== current[i]?.key);
+  return moved ? { ...overrides, order: current.map((k) => k.key) } : overrides;
+}
+
+/**
+ * 保存されていた値を変更分として読む。
+ * 以前は表全体を保存していたので、その場合は既定と違うルールだけを引き継ぐ
+ * （既定に無い並び・削除は、後から増えた既定のルールを消さないよう引き継がない）
+ */
+export function toRuleOverrides<T>(
+  saved: RuleOverrides<T> | T[] | undefined,
+  defaults: T[],
+  keyOf: (rule: T) => string
+): RuleOverrides<T> {
+  if (!saved) return NO_RULE_OVERRIDES;
+  if (!Array.isArray(saved)) return saved;
+  const { changed } = ruleOverridesOf(defaults, saved, keyOf);
+  return { changed, removed: [] };
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+
+import type { AmazonItemInfo, QeasyItem } from "./api/qeasy";
+import { DEFAULT_PROFIT_SETTINGS } from "./profit";
+import { DEFAULT_CATEGORY_RULES } from "./qoo10Category";
+import { infoMapFromItems, planStockChanges } from "./stockSync";
+import type { Product, SettingsState } from "./types";
+
+const settings = (patch: Partial<SettingsState> = {}): SettingsState => ({
+  primeOnly: true,
+  primeShipDaysMax: 3,
+  maxStockPerItem: 2,
+  shippingCode: "645035",
+  rules: [{ min: 1, multiply: 1.2, plus: 400 }],
+  priceRounding: "none",
+  priceFloor: 0,
+  priceCeiling: 0,
+  scopedPriceRules: [],
+  repriceMinDiffYen: 0,
+  repriceMinDiffRate: 0,
+  stockSyncEnabled: true,
+  noListASINs: [],
+  noListWords: [],
+  nameEraseWords: [],
+  brandRules: [],
+  claimRules: [],
+  keepASINsOnDelete: [],
+  categoryMap: {},
+  autoCategoryEnabled: true,
+  categoryRules: DEFAULT_CATEGORY_RULES,
+  rejectedCategorySuggestions: [],
+  profit: DEFAULT_PROFIT_SETTINGS,
+  notifyOnSuccess: false,
+  notifyOnError: false,
+  autoApplyTemplate: false,
+  exportColumns: [],
+  batchChunkSize: 100,
+  batchConcurrency: 1,
+  batchDelayMs: 0,
+  batchMaxRetries: 0,
+  ...patch,
+});
+
+const product = (patch: Partial<Product> = {}): Product => ({
+  id: 1,
+  asin: "B000TEST01",
+  name: "ヘアケア シャンプー 500ml",
+  mainImage: "",
+  amazonPrice: 1000,
+  updatedAt: "",
+  qoo10Id: "1000000001",
+  ...patch,
+});
+
+const info = (patch: Partial<AmazonItemInfo> = {}): AmazonItemInfo => ({
+  asin: "B000TEST01",
+  price: 1000,
+  sellerCount: 3,
+  isPrime: true,
+  shipDays: 1,
+  ...patch,
+});
+
+const item = (patch: Partial<QeasyItem> = {}): QeasyItem => ({
+  asin: "B000TEST01",
+  name: "ヘアケア シャンプー 500ml",
+  amazonPrice: 1000,
+  inStock: true,
+  sellerCount: 3,
+  ...patch,
+});
+
+const plan = (
+  p: Product,
+  infos: ReadonlyMap<string, AmazonItemInfo>,
+  s = settings()
+) => planStockChanges([p], infos, s).map((c) => `${c.reason}:${c.to}`);
+
+describe("planStockChanges", () => {
+  it("stops items that lost Prime and restocks them when it is back", () => {
+    const listed = product({ qoo10Stock: 2 });
+    expect(
+      plan(listed, new Map([["B000TEST01", info({ isPrime: false })]]))
+    ).toEqual(["not_prime:0"]);
+    const stopped = product({ qoo10Stock: 0 });
+    expect(plan(stopped, new Map([["B000TEST01", info()]]))).toEqual([
+      "restocked:2",
+    ]);
+  });
+
+  it("leaves items without Amazon info unchanged", () => {
+    expect(plan(product({ qoo10Stock: 0 }), new Map())).toEqual([]);
+  });
+});
+
+describe("refresh path (infoMapFromItems)", () => {
+  it("does not restock a stopped item without knowing its Prime status", () => {
+    const stopped = product({ qoo10Stock: 0 });
+    expect(plan(stopped, infoMapFromItems([item()]))).toEqual([]);
+    expect(
+      plan(stopped, infoMapFromItems([item()]), settings({ primeOnly: false }))
+    ).toEqual(["restocked:2"]);
+  });
+
+  it("still stops items that went out of stock or down to one seller", () => {
+    const listed = product({ qoo10Stock: 2 });
+    expect(plan(listed, infoMapFromItems([item({ inStock: false })]))).toEqual([
+      "out_of_stock:0",
+    ]);
+    expect(plan(listed, infoMapFromItems([item({ sellerCount: 1 })]))).toEqual([
+      "single_seller:0",
+    ]);
+  });
+});
@@ -0,0 +1,267 @@
+// src/stockSync.ts
+// 在庫同期：Amazon 側で出品条件を外れた出品済み商品の Qoo10 在庫を 0 にし、
+// 条件を満たすようになったら在庫上限数へ戻す（変更はすべてログに残す）
+
+import type { AmazonItemInfo, QeasyItem, UpdateStockResult } from "./api/qeasy";
+import { listingStockOf } from "./listingPlan";
+import { primeRule, sellerCountRule, type RuleContext } from "./listingRules";
+import {
+  planReprice,
+  type RepriceCandidate,
+  type RepricePlan,
+} from "./repricing";
+import type { Product, SettingsState } from "./types";
+
+export type StockChangeReason =
+  | "out_of_stock" // Amazon 在庫切れ（価格が取れない）
+  | "not_prime" // Prime 条件を満たさなくなった
+  | "single_seller" // 出品者数がしきい値以下
+  | "low_margin" // 価格を改定しても利益率が下限未満
+  | "restocked"; // 条件を満たすようになったので在庫を戻す
+
+export const STOCK_REASON_LABEL: Record<StockChangeReason, string> = {
+  out_of_stock: "Amazon在庫切れ",
+  not_prime: "Prime条件外",
+  single_seller: "出品者数不足",
+  low_margin: "利益率不足",
+  restocked: "在庫復帰",
+};
+
+export type StockChange = {
+  product: Product;
+  qoo10ItemCode: string;
+  from: number;
+  to: number;
+  reason: StockChangeReason;
+  /** 画面・ログ用の詳細（ルールのメッセージ） */
+  detail: string;
+};
+
+export type StockLogEntry = {
+  /** ISO 文字列 */
+  at: string;
+  asin: string;
+  name: string;
+  qoo10ItemCode: string;
+  from: number;
+  to: number;
+  reason: StockChangeReason;
+  detail: string;
+  ok: boolean;
+  message?: string;
+};
+
+/** Amazon の状態から停止すべき理由を返す（問題なければ null） */
+function suspendReasonOf(
+  product: Product,
+  info: AmazonItemInfo,
+  settings: SettingsState
+): { reason: StockChangeReason; detail: string } | null {
+  if (!info.price) {
+    return {
+      reason: "out_of_stock",
+      detail: "Amazonで在庫切れ（価格が取得できません）",
+    };
+  }
+  // 出品時と同じ判定を使う（existingAsins はここでは無関係）
+  const ctx: RuleContext = {
+    product,
+    info,
+    settings,
+    existingAsins: new Set(),
+  };
+  for (const rule of [primeRule, sellerCountRule]) {
+    const verdict = rule.check(ctx);
+    if (verdict.kind === "forbidden") {
+      return {
+        reason: verdict.code === "not_prime" ? "not_prime" : "single_seller",
+        detail: verdict.message,
+      };
+    }
+  }
+  // 価格改定と同じ判定。Qoo10 の価格が分からない商品は見ない
+  const plan =
+    product.qoo10Price &&
+    planReprice(product, info.price, product.qoo10Price, settings);
+  if (plan && plan.suspend) {
+    return { reason: "low_margin", detail: lowMarginDetail(plan, settings) };
+  }
+  return null;
+}
+
+const lowMarginDetail = (plan: RepricePlan, settings: SettingsState) =>
+  `価格を改定しても利益率が下限(${settings.profit.minMarginRate}%)未満です${
+    plan.marginRate != null ? `（試算 ${plan.marginRate.toFixed(1)}%）` : ""
+  }`;
+
+/** 価格改定の画面から、改定しても利益率が下限未満の商品を販売停止する */
+export function lowMarginStockChanges(
+  candidates: RepriceCandidate[],
+  settings: SettingsState
+): StockChange[] {
+  const listedStock = listingStockOf(settings);
+  return candidates.flatMap((c) => {
+    const current = c.product.qoo10Stock ?? listedStock;
+    if (!c.suspend || current === 0) return [];
+    return [
+      {
+        product: c.product,
+        qoo10ItemCode: c.qoo10ItemCode,
+        from: current,
+        to: 0,
+        reason: "low_margin" as const,
+        detail: lowMarginDetail(c, settings),
+      },
+    ];
+  });
+}
+
+/** Prime 条件が有効なのに Prime・出荷日数が分からない（最新化の一覧から作った情報） */
+const primeUnknown = (info: AmazonItemInfo, settings: SettingsState) =>
+  settings.primeOnly && info.isPrime === undefined && info.shipDays == null;
+
+/**
+ * 出品済み（qoo10Id あり）の商品について必要な在庫変更を求める。
+ * Amazon 情報が取れなかった ASIN は状態が分からないので変更しない。
+ * Prime 条件が分からないときは、Prime 条件外で止めた商品かもしれないので在庫を戻さない。
+ * qoo10Stock が未記録の商品は出品時の在庫数で販売中とみなす。
+ */
+export function planStockChanges(
+  products: Product[],
+  infoMap: ReadonlyMap<string, AmazonItemInfo>,
+  settings: SettingsState
+): StockChange[] {
+  const listedStock = listingStockOf(settings);
+  const changes: StockChange[] = [];
+
+  for (const p of products) {
+    // 手動で出品停止した商品は在庫を戻さない
+    if (!p.qoo10Id || p.qoo10Suspended) continue;
+    const info = infoMap.get(p.asin);
+    if (!info) continue;
+
+    const current = p.qoo10Stock ?? listedStock;
+    const suspend = suspendReasonOf(p, info, settings);
+
+    if (suspend && current > 0) {
+      changes.push({
+        product: p,
+        qoo10ItemCode: p.qoo10Id,
+        from: current,
+        to: 0,
+        ...suspend,
+      });
+    } else if (!suspend && current === 0 && !primeUnknown(info, settings)) {
+      changes.push({
+        product: p,
+        qoo10ItemCode: p.qoo10Id,
+        from: 0,
+        to: listedStock,
+        reason: "restocked",
+        detail: "Amazonの在庫・出品条件が回復しました",
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * /items/refresh で最新化した商品一覧を在庫同期の判定材料にする（Amazon への再取得を省く）。
+ * 出品者数が分からない商品は状態が分からないので入れない（＝変更しない）。
+ * 一覧には Prime・出荷日数が無いため、この経路では Prime 条件での停止はできず、
+ * Prime 条件が有効なら在庫の復帰もしない（「在庫同期」ボタンでは /amazon/bulk から判定する）。
+ */
+export function infoMapFromItems(
+  items: QeasyItem[]
+): Map<string, AmazonItemInfo> {
+  const map = new Map<string, AmazonItemInfo>();
+  for (const it of items) {
+    if (!it.asin || it.sellerCount == null) continue;
+    map.set(it.asin, {
+      asin: it.asin,
+      price: it.inStock === false ? 0 : (it.amazonPrice ?? 0),
+      sellerCount: it.sellerCount,
+      title: it.name,
+      brand: it.brand,
+    });
+  }
+  return map;
+}
+
+export function toLogEntries(
+  changes: StockChange[],
+  results: UpdateStockResult[],
+  at: Date
+): StockLogEntry[] {
+  const resultOf = new Map(results.map((r) => [r.asin, r]));
+  return changes.map((c) => {
+    const r = resultOf.get(c.product.asin);
+    return {
+      at: at.toISOString(),
+      asin: c.product.asin,
+      name: c.product.name,
+      qoo10ItemCode: c.qoo10ItemCode,
+      from: c.from,
+      to: c.to,
+      reason: c.reason,
+      detail: c.detail,
+      ok: !!r?.ok,
+      message: r ? r.message : "在庫更新の結果が返りませんでした。",
+    };
+  });
+}
+
+const STOCK_LOG_KEY = "qeasy-stock-log-v1";
+
+// localStorage の容量対策。古いものから捨てる
+const MAX_STOCK_LOG = 1000;
+
+export function loadStockLog(): StockLogEntry[] {
+  try {
+    const saved = localStorage.getItem(STOCK_LOG_KEY);
+    return saved ? (JSON.parse(saved) as StockLogEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** 新しい順に保持する */
+export function saveStockLog(log: StockLogEntry[]): void {
+  try {
+    localStorage.setItem(
+      STOCK_LOG_KEY,
+      JSON.stringify(log.slice(0, MAX_STOCK_LOG))
+    );
+  } catch {
+    // 容量超過などは無視
+  }
+}
+
+export const STOCK_LOG_CSV_HEADER = [
+  "日時",
+  "ASIN",
+  "商品名",
+  "Qoo10商品コード",
+  "変更前在庫",
+  "変更後在庫",
+  "理由",
+  "詳細",
+  "結果",
+  "メッセージ",
+];
+
+export function stockLogToCsvRows(log: StockLogEntry[]): unknown[][] {
+  return log.map((e) => [
+    e.at,
+    e.asin,
+    e.name,
+    e.qoo10ItemCode,
+    e.from,
+    e.to,
+    STOCK_REASON_LABEL[e.reason],
+    e.detail,
+    e.ok ? "成功" : "失敗",
+    e.message ?? "",
+  ]);
+}
@@ -0,0 +1,37 @@
+// src/textNormalize.ts
+// キーワード照合用の日本語テキスト正規化
+//
+// - カテゴリ推定・カテゴリマップ・禁止ワード・価格ルールのキーワード・商品検索で共通に使う
+// - 表示用ではない（タイトルの書き換えには使わない）
+
+// NFKC で揃わないダッシュ・マイナス類（半角の長音ｰは NFKC でーになる）
+const DASHES = /[‐‑‒–—―−]/g;
+// 照合の邪魔になるだけの記号
+const NOISE_SYMBOLS = /[™®©★☆◆◇■□●○※♪]/g;
+
+/** ひらがな → カタカナ（「しゃんぷー」と「シャンプー」を同じ扱いにする） */
+const toKatakana = (s: string): string =>
+  s.replace(/[ぁ-ゖ]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) + 0x60));
+
+/**
+ * 照合用に正規化する。
+ * - NFKC（全角英数・半角カナ・互換文字を揃える）
+ * - ひらがなをカタカナに
+ * - 英字は小文字に
+ * - ダッシュ類の統一、装飾記号の除去、空白の連続を1つに
+ */
+export function normalizeText(text: string | null | undefined): string {
+  // ™ は NFKC で TM になるので先に落とす
+  const cleaned = (text ?? "").replace(NOISE_SYMBOLS, " ").normalize("NFKC");
+  return toKatakana(cleaned)
+    .toLowerCase()
+    .replace(DASHES, "-")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** text に keyword が含まれるか（両方を正規化して比較。空のキーワードは一致しない） */
+export function includesNormalized(text: string, keyword: string): boolean {
+  const kw = normalizeText(keyword);
+  return !!kw && normalizeText(text).includes(kw);
+}
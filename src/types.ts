@@ -0,0 +1,124 @@
+// src/types.ts
+// 画面・出品ロジックで共通に使う型
+
+import type { BrandRule } from "./brand";
+import type { ClaimRule } from "./claimCheck";
+import type { RoundingMode, ScopedPriceRuleSet } from "./pricing";
+import type { ExportColumnId } from "./productExport";
+import type { CategoryRules } from "./qoo10Category";
+import type { ProfitSettings } from "./profit";
+import type { WordRule } from "./wordRules";
+
+export type PriceRule = {
+  min: number;
+  max?: number;
+  multiply: number;
+  plus: number;
+};
+
+export type CategoryMap = Record<string, number>;
+
+export type Product = {
+  id: number;
+  asin: string;
+  name: string;
+  jan?: string;
+  qoo10Id?: string;
+  /** Qoo10 に最後に出品・改定した販売価格 */
+  qoo10Price?: number;
+  /** Qoo10 に最後に設定した在庫数（0 = 在庫同期で販売停止中） */
+  qoo10Stock?: number;
+  /** 「Qoo10から出品停止」で一時停止中（在庫同期・価格改定の対象外） */
+  qoo10Suspended?: boolean;
+  /** 販売終了した Qoo10 商品コード（新しい順。終了後の問い合わせ・照合用） */
+  endedQoo10Ids?: string[];
+  mainImage: string;
+  images?: string[];
+  amazonPrice: number;
+  inStock?: boolean;
+  /** CSV 取込・Amazon 情報取得時点の出品者数 */
+  sellerCount?: number;
+  /** CSV 取込時点の売れ筋ランキング */
+  salesRank?: number;
+  /** 商品ごとに手動で指定したカテゴリNo（カテゴリマップ・自動推定より優先） */
+  categoryOverride?: number;
+  /** Amazon 情報・CSV 取込で得たブランド */
+  brand?: string;
+  updatedAt: string;
+};
+
+export type SettingsState = {
+  primeOnly: boolean;
+  primeShipDaysMax: number;
+  maxStockPerItem: number;
+
+  shippingCode: string;
+  rules: PriceRule[];
+  priceRounding: RoundingMode;
+  priceFloor: number;
+  priceCeiling: number;
+  /** カテゴリ・キーワード別の価格ルール（上から順に照合） */
+  scopedPriceRules: ScopedPriceRuleSet[];
+  /** 価格改定: 差額がこの金額(円)未満なら見送る（0 で無効） */
+  repriceMinDiffYen: number;
+  /** 価格改定: 差額がこの割合(%)未満なら見送る（0 で無効） */
+  repriceMinDiffRate: number;
+
+  /** 最新情報更新のたびに Qoo10 在庫を Amazon 側の状態に合わせる */
+  stockSyncEnabled: boolean;
+
+  /** 出品不可ASIN・出品不可ワード・商品名削除ワード（照合方法・メモ・期限つき） */
+  noListASINs: WordRule[];
+  noListWords: WordRule[];
+  nameEraseWords: WordRule[];
+  /** 出品禁止・許可ブランド（知財リスク対策） */
+  brandRules: BrandRule[];
+  /** 薬機法チェックの辞書（削除ワード適用後のタイトルに、カテゴリ別に適用） */
+  claimRules: ClaimRule[];
+  keepASINsOnDelete: string[];
+
+  categoryMap: CategoryMap;
+  autoCategoryEnabled: boolean;
+  /** 自動推定のキーワード表（既定は DEFAULT_CATEGORY_RULES。保存は既定からの変更分だけ） */
+  categoryRules: CategoryRules;
+  /** 却下したキーワード候補（categorySuggestionKey の値） */
+  rejectedCategorySuggestions: string[];
+
+  profit: ProfitSettings;
+
+  notifyOnSuccess: boolean;
+  notifyOnError: boolean;
+  autoApplyTemplate: boolean;
+
+  /** 商品一覧・出品結果の CSV 出力列（出力順） */
+  exportColumns: ExportColumnId[];
+
+  // API 分割送信（/amazon/bulk・/qoo10/check-existing・/qoo10/create-listings）
+  batchChunkSize: number;
+  batchConcurrency: number;
+  batchDelayMs: number;
+  batchMaxRetries: number;
+};
+
+export type ListingStatus =
+  | "success"
+  | "exists"
+  | "forbidden"
+  | "error"
+  | "cancelled"; // キャンセルにより未送信
+
+export type ListingResultItem = {
+  asin: string;
+  name: string;
+  status: ListingStatus;
+  message: string;
+  hitWords?: string[];
+  /** 出品禁止ブランドで除外したときのブランド */
+  brand?: string;
+  /** 薬機法チェックで削除した表現、または除外の理由になった表現 */
+  claims?: string[];
+  qoo10ItemCode?: string;
+  /** 送信した出品価格・カテゴリ（履歴・再出品用） */
+  price?: number;
+  categoryNo?: number;
+};
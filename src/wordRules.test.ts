@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import type { Product } from "./types";
+import {
+  findWordRuleHits,
+  newWordRule,
+  productWordTarget,
+  ruleKeyOf,
+  upsertRule,
+  type WordRule,
+} from "./wordRules";
+
+const rule = (pattern: string, patch: Partial<WordRule> = {}): WordRule => ({
+  ...newWordRule(pattern),
+  ...patch,
+});
+
+const product = (patch: Partial<Product> = {}): Product => ({
+  id: 1,
+  asin: "B000TEST01",
+  name: "ACME 互換 インクカートリッジ",
+  mainImage: "",
+  amazonPrice: 1000,
+  updatedAt: "",
+  ...patch,
+});
+
+const patterns = (rules: WordRule[]) => rules.map((r) => r.pattern);
+
+describe("upsertRule", () => {
+  const rules = [rule("A"), rule("B"), rule("C")];
+
+  it("adds a new rule at the top", () => {
+    expect(patterns(upsertRule(rules, rule("D")))).toEqual([
+      "D",
+      "A",
+      "B",
+      "C",
+    ]);
+  });
+
+  it("replaces an existing rule with the same key instead of duplicating it", () => {
+    const next = upsertRule(rules, rule("B", { note: "更新" }));
+    expect(patterns(next)).toEqual(["B", "A", "C"]);
+    expect(next[0].note).toBe("更新");
+  });
+
+  it("updates the edited rule in place", () => {
+    const next = upsertRule(rules, rule("B2"), ruleKeyOf(rules[1]));
+    expect(patterns(next)).toEqual(["A", "B2", "C"]);
+  });
+
+  it("drops another rule that the edit now duplicates", () => {
+    const next = upsertRule(rules, rule("C"), ruleKeyOf(rules[0]));
+    expect(patterns(next)).toEqual(["C", "B"]);
+  });
+
+  it("adds the rule when the edited rule is gone", () => {
+    const next = upsertRule(rules, rule("D"), ruleKeyOf(rule("X")));
+    expect(patterns(next)).toEqual(["D", "A", "B", "C"]);
+  });
+});
+
+describe("brand scope", () => {
+  const brandRule = rule("ACME", { scope: "brand" });
+
+  it("matches the stored brand of the product", () => {
+    const p = product({ name: "インクカートリッジ", brand: "ACME" });
+    expect(findWordRuleHits([brandRule], productWordTarget(p))).toEqual([
+      brandRule,
+    ]);
+  });
+
+  it("falls back to the first word of the title", () => {
+    expect(findWordRuleHits([brandRule], productWordTarget(product()))).toEqual(
+      [brandRule]
+    );
+  });
+
+  it("prefers the brand passed in, and ignores the title for brand scope", () => {
+    const target = productWordTarget(product(), "Other");
+    expect(findWordRuleHits([brandRule], target)).toEqual([]);
+    expect(
+      findWordRuleHits([rule("ACME", { scope: "title" })], target)
+    ).toHaveLength(1);
+  });
+});
@@ -0,0 +1,236 @@
+// src/wordRules.ts
+// 出品不可ワード・商品名削除ワード・出品不可ASIN の照合ルール
+//
+// - 1件ごとに照合方法（部分一致・単語一致・正規表現）、対象項目、メモ、有効期限を持つ
+// - 部分一致・単語一致は normalizeText 済みの文字列で、正規表現は元の文字列で照合する
+// - 以前の設定（文字列の配列）は toWordRules で部分一致のルールに読み替える
+
+import { resolveBrand } from "./brand";
+import { normalizeText } from "./textNormalize";
+import type { Product } from "./types";
+
+export type WordMatchMode = "contains" | "word" | "regex";
+
+export type WordRuleScope = "title" | "brand" | "all";
+
+export type WordRule = {
+  pattern: string;
+  mode: WordMatchMode;
+  /** 出品不可ワードで使う。削除ワードは常にタイトル、出品不可ASINは常に ASIN */
+  scope: WordRuleScope;
+  /** 登録理由など（除外メッセージにも表示） */
+  note: string;
+  /** YYYY-MM-DD。この日を過ぎると無効（未指定なら無期限） */
+  expiresAt?: string;
+};
+
+export const WORD_MATCH_MODE_LABEL: Record<WordMatchMode, string> = {
+  contains: "部分一致",
+  word: "単語一致",
+  regex: "正規表現",
+};
+
+export const WORD_RULE_SCOPE_LABEL: Record<WordRuleScope, string> = {
+  title: "商品名",
+  brand: "ブランド",
+  all: "すべての項目",
+};
+
+/** 照合する商品の項目 */
+export type WordRuleTarget = {
+  title: string;
+  brand?: string;
+  asin?: string;
+  jan?: string;
+};
+
+/**
+ * 商品の照合対象。ブランドは brand.ts と同じ順（Amazon 情報 → 保存済み → タイトル先頭の語）で決め、
+ * 出品時は Amazon 情報のブランドを渡す。省略時（設定画面のテスト）は保存済みの値から決める
+ */
+export const productWordTarget = (
+  p: Product,
+  brand: string | undefined = resolveBrand(undefined, p)
+): WordRuleTarget => ({
+  title: p.name,
+  brand,
+  asin: p.asin,
+  jan: p.jan,
+});
+
+/** 照合方法と文字列で同じルールかを見る（設定画面の重複・編集対象の判定用） */
+export const ruleKeyOf = (rule: {
+  mode: WordMatchMode;
+  pattern: string;
+}): string => `${rule.mode}:${rule.pattern}`;
+
+/**
+ * 設定画面の登録・更新。editingKey のルールはその位置で置き換え、
+ * 無ければ先頭に追加する。同じキーのほかのルールは残さない
+ */
+export function upsertRule<T extends { mode: WordMatchMode; pattern: string }>(
+  rules: T[],
+  rule: T,
+  editingKey?: string
+): T[] {
+  const key = ruleKeyOf(rule);
+  const at =
+    editingKey === undefined
+      ? -1
+      : rules.findIndex((r) => ruleKeyOf(r) === editingKey);
+  if (at < 0) return [rule, ...rules.filter((r) => ruleKeyOf(r) !== key)];
+  return rules.flatMap((r, i) =>
+    i === at ? [rule] : ruleKeyOf(r) === key ? [] : [r]
+  );
+}
+
+export const newWordRule = (pattern = ""): WordRule => ({
+  pattern,
+  mode: "contains",
+  scope: "title",
+  note: "",
+});
+
+/** 保存済みの設定を読み込む。文字列だけの古い形式は部分一致のルールにする */
+export function toWordRules(
+  list: readonly (string | Partial<WordRule>)[] | undefined
+): WordRule[] {
+  return (list ?? [])
+    .map((it) =>
+      typeof it === "string" ? newWordRule(it) : { ...newWordRule(), ...it }
+    )
+    .filter((r) => r.pattern);
+}
+
+/** ローカル日付の YYYY-MM-DD */
+export const todayString = (): string => {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+export const isWordRuleActive = (
+  rule: WordRule,
+  today: string = todayString()
+): boolean => !!rule.pattern && (!rule.expiresAt || today <= rule.expiresAt);
+
+const escapeRegExp = (s: string): string =>
+  s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// 前後が文字・数字でないときだけ一致（英単語向け。日本語は区切りが無いので部分一致に近い）
+const wordPattern = (s: string): string =>
+  `(?<![\\p{L}\\p{N}])${escapeRegExp(s)}(?![\\p{L}\\p{N}])`;
+
+const regexCache = new Map<string, RegExp | null>();
+
+/** 正規表現を作る（不正なら null）。単語一致は正規化済みのパターンで作る */
+function compile(rule: WordRule): RegExp | null {
+  const key = `${rule.mode}:${rule.pattern}`;
+  if (regexCache.has(key)) return regexCache.get(key) ?? null;
+  let re: RegExp | null = null;
+  try {
+    re = new RegExp(
+      rule.mode === "regex"
+        ? rule.pattern
+        : wordPattern(normalizeText(rule.pattern)),
+      "iu"
+    );
+  } catch {
+    re = null;
+  }
+  regexCache.set(key, re);
+  return re;
+}
+
+/** 正規表現として不正なら理由を返す（設定画面の入力チェック用） */
+export function wordRuleError(rule: WordRule): string | undefined {
+  if (rule.mode !== "regex" || !rule.pattern) return undefined;
+  try {
+    new RegExp(rule.pattern, "iu");
+    return undefined;
+  } catch (e) {
+    return `正規表現が不正です: ${e instanceof Error ? e.message : String(e)}`;
+  }
+}
+
+/** 1つの文字列に当たるか */
+export function wordRuleMatchesText(
+  rule: WordRule,
+  text: string | undefined
+): boolean {
+  if (!text || !rule.pattern) return false;
+  if (rule.mode === "contains") {
+    const kw = normalizeText(rule.pattern);
+    return !!kw && normalizeText(text).includes(kw);
+  }
+  const re = compile(rule);
+  if (!re) return false;
+  return re.test(rule.mode === "regex" ? text : normalizeText(text));
+}
+
+const fieldsOf = (
+  scope: WordRuleScope,
+  target: WordRuleTarget
+): (string | undefined)[] => {
+  if (scope === "title") return [target.title];
+  if (scope === "brand") return [target.brand];
+  return [target.title, target.brand, target.asin, target.jan];
+};
+
+/** 有効なルールのうち、対象項目に当たったもの */
+export function findWordRuleHits(
+  rules: WordRule[],
+  target: WordRuleTarget,
+  today: string = todayString()
+): WordRule[] {
+  return rules.filter(
+    (r) =>
+      isWordRuleActive(r, today) &&
+      fieldsOf(r.scope, target).some((t) => wordRuleMatchesText(r, t))
+  );
+}
+
+/** 出品不可ASIN：スコープに関係なく ASIN だけを見る */
+export function findAsinRuleHits(
+  rules: WordRule[],
+  asin: string,
+  today: string = todayString()
+): WordRule[] {
+  return rules.filter(
+    (r) => isWordRuleActive(r, today) && wordRuleMatchesText(r, asin)
+  );
+}
+
+/**
+ * 商品名から1件分を取り除く。タイトルの表記を残すため元の文字列に対して行う
+ * （部分一致はそのままの文字列、単語一致・正規表現は大文字小文字を区別しない）。
+ */
+export function eraseWordRule(title: string, rule: WordRule): string {
+  if (!rule.pattern) return title;
+  if (rule.mode === "contains") return title.split(rule.pattern).join("");
+  try {
+    const source =
+      rule.mode === "regex" ? rule.pattern : wordPattern(rule.pattern);
+    return title.replace(new RegExp(source, "giu"), "");
+  } catch {
+    return title;
+  }
+}
+
+/** 有効な削除ワードをすべて取り除き、空白を詰める */
+export const stripWords = (
+  title: string,
+  rules: WordRule[],
+  today: string = todayString()
+): string => {
+  let t = title || "";
+  for (const rule of rules) {
+    if (!isWordRuleActive(rule, today)) continue;
+    t = eraseWordRule(t, rule);
+  }
+  return t.replace(/\s+/g, " ").trim();
+};
+
+/** メモ付きの表示（除外メッセージ用） */
+export const describeWordRule = (rule: WordRule): string =>
+  rule.note ? `${rule.pattern}: ${rule.note}` : rule.pattern;